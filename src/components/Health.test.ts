@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DamageEvent, Health } from './Health';
+import { simulationClock } from '../utils/SimulationClock';
+
+describe('Health', () => {
+  let health: Health;
+  let damage: DamageEvent[];
+  let deaths: DamageEvent[];
+
+  beforeEach(() => {
+    simulationClock.set(0, 0);
+    health = new Health(100);
+    damage = [];
+    deaths = [];
+    health.onDamage(event => damage.push(event));
+    health.onDeath(event => deaths.push(event));
+  });
+
+  it('loses health and dies once it runs out', () => {
+    expect(health.damage(30, 'projectile')).toBe(30);
+    expect(health.damage(90, 'fall')).toBe(70);
+    expect(health.damage(10, 'fall')).toBe(0);
+
+    expect(health.current).toBe(0);
+    expect(health.isDead()).toBe(true);
+    expect(damage.map(event => [event.amount, event.killed])).toEqual([[30, false], [70, true]]);
+    expect(deaths).toHaveLength(1);
+    expect(deaths[0].type).toBe('fall');
+  });
+
+  it('heals up to the maximum but not the dead', () => {
+    health.damage(50, 'explosion');
+    health.heal(80);
+    expect(health.current).toBe(100);
+
+    health.damage(100, 'explosion');
+    health.heal(10);
+    expect(health.current).toBe(0);
+  });
+
+  it('ignores damage while invulnerable after a revive', () => {
+    health.damage(100, 'world');
+    health.revive(1000);
+    expect(health.current).toBe(100);
+    expect(health.isDead()).toBe(false);
+
+    simulationClock.advance(0.5);
+    expect(health.damage(10, 'projectile')).toBe(0);
+
+    simulationClock.advance(0.5);
+    expect(health.damage(10, 'projectile')).toBe(10);
+  });
+
+  it('restores a captured state', () => {
+    health.damage(100, 'hitscan');
+    const state = health.getState();
+    expect(state.diedAt).toBe(0);
+
+    health.revive();
+    health.setState(state);
+    expect(health.isDead()).toBe(true);
+    expect(health.current).toBe(0);
+  });
+
+  it('reports every change to the current health', () => {
+    const changes: number[] = [];
+    health.onChange(changed => changes.push(changed.current));
+
+    health.damage(40, 'projectile');
+    health.heal(10);
+    const state = health.getState();
+    health.damage(100, 'world');
+    health.heal(10); // Ignored while dead
+    health.setState(state);
+    health.revive();
+
+    expect(changes).toEqual([60, 70, 0, 70, 100]);
+  });
+});
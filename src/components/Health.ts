@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { simulationClock } from '../utils/SimulationClock';
+
+// What caused a loss of health
+export type DamageType = 'projectile' | 'hitscan' | 'explosion' | 'fall' | 'world';
+
+export interface DamageEvent {
+  health: Health;
+  amount: number; // Health actually lost (never more than was left)
+  type: DamageType;
+  point: THREE.Vector3 | null; // Where the damage was dealt, if it came from somewhere in particular
+  killed: boolean;
+}
+
+// Serializable health state used by snapshots
+export interface HealthState {
+  current: number;
+  invulnerableUntil: number; // Simulation time in ms
+  diedAt: number | null; // Simulation time in ms
+}
+
+/**
+ * Hit points that can be attached to the player or any body. Damage is
+ * ignored while dead or during the invulnerability window after a revive.
+ * Times come from the simulation clock, so health replays deterministically
+ */
+export class Health {
+  public max: number;
+  public current: number;
+  private invulnerableUntil: number = 0;
+  private diedAt: number | null = null;
+  private damageListeners: ((event: DamageEvent) => void)[] = [];
+  private deathListeners: ((event: DamageEvent) => void)[] = [];
+  private reviveListeners: (() => void)[] = [];
+  private changeListeners: ((health: Health) => void)[] = [];
+
+  constructor(max: number = 100) {
+    this.max = max;
+    this.current = max;
+  }
+
+  /**
+   * Register a listener for damage taken; returns a function that removes it
+   */
+  public onDamage(listener: (event: DamageEvent) => void): () => void {
+    this.damageListeners.push(listener);
+    return () => {
+      this.damageListeners = this.damageListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Register a listener for the killing blow; returns a function that removes it
+   */
+  public onDeath(listener: (event: DamageEvent) => void): () => void {
+    this.deathListeners.push(listener);
+    return () => {
+      this.deathListeners = this.deathListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Register a listener for revives; returns a function that removes it
+   */
+  public onRevive(listener: () => void): () => void {
+    this.reviveListeners.push(listener);
+    return () => {
+      this.reviveListeners = this.reviveListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Register a listener for any change to the current health, including heals
+   * and restored snapshots; returns a function that removes it
+   */
+  public onChange(listener: (health: Health) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+
+  public isDead(): boolean {
+    return this.diedAt !== null;
+  }
+
+  public isInvulnerable(): boolean {
+    return simulationClock.now() < this.invulnerableUntil;
+  }
+
+  /**
+   * Simulation time in ms at which health ran out, or null while alive
+   */
+  public getDeathTime(): number | null {
+    return this.diedAt;
+  }
+
+  /**
+   * Take damage
+   * @returns Health actually lost
+   */
+  public damage(amount: number, type: DamageType, point: THREE.Vector3 | null = null): number {
+    if (amount <= 0 || this.isDead() || this.isInvulnerable()) return 0;
+
+    const lost = Math.min(amount, this.current);
+    this.current -= lost;
+
+    const killed = this.current <= 0;
+    if (killed) {
+      this.current = 0;
+      this.diedAt = simulationClock.now();
+    }
+
+    const event: DamageEvent = { health: this, amount: lost, type, point, killed };
+    this.damageListeners.forEach(listener => listener(event));
+    this.notifyChange();
+    if (killed) {
+      this.deathListeners.forEach(listener => listener(event));
+    }
+    return lost;
+  }
+
+  /**
+   * Restore health, up to the maximum (the dead can't be healed, only revived)
+   */
+  public heal(amount: number): void {
+    if (this.isDead()) return;
+    this.current = Math.min(this.max, this.current + amount);
+    this.notifyChange();
+  }
+
+  /**
+   * Back to full health, ignoring damage for a while
+   * @param invulnerableTime ms of invulnerability
+   */
+  public revive(invulnerableTime: number = 0): void {
+    this.current = this.max;
+    this.diedAt = null;
+    this.invulnerableUntil = simulationClock.now() + invulnerableTime;
+    this.reviveListeners.forEach(listener => listener());
+    this.notifyChange();
+  }
+
+  public getState(): HealthState {
+    return { current: this.current, invulnerableUntil: this.invulnerableUntil, diedAt: this.diedAt };
+  }
+
+  public setState(state: HealthState): void {
+    this.current = state.current;
+    this.invulnerableUntil = state.invulnerableUntil;
+    this.diedAt = state.diedAt;
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener(this));
+  }
+}
@@ -0,0 +1,51 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { HeadlessSimulation } from '../headless/HeadlessSimulation';
+import { useHeadlessSimulation } from '../test/headless';
+import { Health } from '../components/Health';
+import { createCube } from '../objects/Cube';
+
+const createSimulation = useHeadlessSimulation();
+let sim: HeadlessSimulation;
+
+describe('DamageManager', () => {
+  it('damages bodies in proportion to the momentum of projectiles hitting them', async () => {
+    sim = await createSimulation();
+    const cube = createCube(sim.physics, { x: 0, y: 1, z: -5 }, 1, 0x888888, {}, 'fixed');
+    sim.add(cube.mesh);
+    const health = new Health(100);
+    sim.damageManager.attach(cube.rigidBody, health);
+
+    const projectile = sim.projectileManager.shoot(
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3(0, 0, -1),
+      { speed: 40, destroyOnImpact: true }
+    );
+    // Mass properties (including the projectile's additional mass) update on the first step
+    sim.step();
+    const momentum = projectile.rigidBody.mass() * 40;
+    sim.stepUntil(() => sim.projectileManager.getProjectileCount() === 0, 60);
+
+    // 3 damage per N·s
+    expect(100 - health.current).toBeCloseTo(momentum * 3, 0);
+  });
+
+  it('ignores slow projectiles and bodies without health', async () => {
+    sim = await createSimulation();
+    const cube = createCube(sim.physics, { x: 0, y: 1, z: -5 }, 1, 0x888888, {}, 'fixed');
+    const other = createCube(sim.physics, { x: 3, y: 1, z: -5 }, 1, 0x888888, {}, 'fixed');
+    sim.add(cube.mesh);
+    sim.add(other.mesh);
+    const health = new Health(100);
+    sim.damageManager.attach(cube.rigidBody, health);
+    let impacts = 0;
+    sim.projectileManager.onImpact(() => impacts++);
+
+    sim.projectileManager.shoot(new THREE.Vector3(0, 1, -3.8), new THREE.Vector3(0, 0, -1), { speed: 3, destroyOnImpact: true });
+    sim.projectileManager.shoot(new THREE.Vector3(3, 1, 0), new THREE.Vector3(0, 0, -1), { speed: 40, destroyOnImpact: true });
+    sim.runFor(1);
+
+    expect(impacts).toBe(2);
+    expect(health.current).toBe(100);
+  });
+});
@@ -0,0 +1,88 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Health, HealthState } from '../components/Health';
+import { ImpactEvent } from './ProjectileManager';
+import { HitResult } from './HitscanManager';
+import { ExplosionEvent } from './ExplosionManager';
+
+// How much damage physical hits do
+export interface DamageSettings {
+  projectileDamage: number; // Per N·s of projectile momentum at impact
+  minProjectileSpeed: number; // Slower impacts (e.g. a spent projectile rolling into something) do no damage
+  hitscanDamage: number; // Per N·s of hitscan impulse
+  explosionDamage: number; // Per N·s of explosion impulse
+}
+
+export const DEFAULT_DAMAGE_SETTINGS: DamageSettings = {
+  projectileDamage: 3,
+  minProjectileSpeed: 5,
+  hitscanDamage: 3,
+  explosionDamage: 6
+};
+
+// Health of one body, as saved in snapshots
+export interface BodyHealthState {
+  handle: RAPIER.RigidBodyHandle;
+  health: HealthState;
+}
+
+// Turns projectile impacts, hitscan hits and explosions into damage for the bodies that
+// have health. Bodies are tracked by handle, which stays the same when a world is restored
+export class DamageManager {
+  settings: DamageSettings = { ...DEFAULT_DAMAGE_SETTINGS };
+  private healths: Map<RAPIER.RigidBodyHandle, Health> = new Map();
+
+  // Give a body health
+  attach(body: RAPIER.RigidBody, health: Health) {
+    this.healths.set(body.handle, health);
+  }
+
+  detach(body: RAPIER.RigidBody) {
+    this.healths.delete(body.handle);
+  }
+
+  getHealth(body: RAPIER.RigidBody | null): Health | null {
+    return body ? this.healths.get(body.handle) ?? null : null;
+  }
+
+  // Forget every body (e.g. when a level is unloaded)
+  clear() {
+    this.healths.clear();
+  }
+
+  // Damage in proportion to the projectile's momentum relative to what it struck
+  handleImpact(impact: ImpactEvent) {
+    const health = this.getHealth(impact.body);
+    const speed = impact.relativeVelocity.length();
+    if (!health || speed < this.settings.minProjectileSpeed) return;
+
+    const momentum = speed * impact.projectile.rigidBody.mass();
+    health.damage(momentum * this.settings.projectileDamage, 'projectile', impact.point);
+  }
+
+  handleHit(hit: HitResult) {
+    this.getHealth(hit.body)?.damage(hit.impulse.length() * this.settings.hitscanDamage, 'hitscan', hit.point);
+  }
+
+  // Damage falls off with the blast's impulse (and is reduced behind cover)
+  handleExplosion(explosion: ExplosionEvent) {
+    explosion.hits.forEach(hit => {
+      this.getHealth(hit.body)?.damage(hit.impulse.length() * this.settings.explosionDamage, 'explosion', explosion.center);
+    });
+  }
+
+  getState(): BodyHealthState[] {
+    return [...this.healths].map(([handle, health]) => ({ handle, health: health.getState() }));
+  }
+
+  // Restore the bodies' health; bodies missing from the state keep theirs
+  setState(state: BodyHealthState[]) {
+    state.forEach(({ handle, health }) => {
+      const target = this.healths.get(handle);
+      if (!target) {
+        console.warn(`Snapshot health for body ${handle} has no body with health`);
+        return;
+      }
+      target.setState(health);
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { useHeadlessSimulation } from '../test/headless';
+import { ExplosionManager } from './ExplosionManager';
+
+const createSimulation = useHeadlessSimulation();
+
+function getLights(scene: THREE.Scene): THREE.PointLight[] {
+  return scene.children.filter((child): child is THREE.PointLight => child instanceof THREE.PointLight);
+}
+
+describe('ExplosionManager', () => {
+  it('lights explosions without changing the number of lights in the scene', async () => {
+    const sim = await createSimulation();
+    const explosions = new ExplosionManager(sim.scene, sim.physics);
+    const lights = getLights(sim.scene);
+    expect(lights.length).toBeGreaterThan(0);
+    expect(lights.every(light => light.intensity === 0)).toBe(true);
+
+    // More explosions at once than there are lights
+    for (let i = 0; i < 10; i++) {
+      explosions.explode(new THREE.Vector3(i * 10, 1, 0), { radius: 3, force: 10 });
+    }
+    expect(getLights(sim.scene)).toEqual(lights);
+    expect(lights.every(light => light.intensity > 0)).toBe(true);
+
+    // Switched off again once the effects have faded out
+    explosions.update(1);
+    expect(getLights(sim.scene)).toEqual(lights);
+    expect(lights.every(light => light.intensity === 0)).toBe(true);
+
+    explosions.explode(new THREE.Vector3(0, 1, 0), { radius: 3, force: 10, color: 0xff0000 });
+    expect(lights.filter(light => light.intensity > 0).map(light => light.color.getHex())).toEqual([0xff0000]);
+
+    explosions.cleanUp();
+    expect(getLights(sim.scene)).toEqual(lights);
+    expect(lights.every(light => light.intensity === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,270 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { EntityRegistry } from '../entities/EntityRegistry';
+
+export interface ExplosionOptions {
+  radius: number; // Blast radius in meters
+  force: number; // Impulse applied at the blast center, falling off to zero at the radius
+  occludedForceScale?: number; // Impulse multiplier for bodies hidden behind other colliders
+  upwardBias?: number; // Extra upward component added to the push direction
+  color?: number; // Color of the flash and particles
+}
+
+// A body caught in an explosion
+export interface ExplosionHit {
+  collider: RAPIER.Collider; // Closest collider of the body to the blast
+  body: RAPIER.RigidBody;
+  distance: number; // Distance from the blast center to the closest point of the collider
+  falloff: number; // 1 at the blast center, 0 at the radius
+  occluded: boolean;
+  impulse: THREE.Vector3; // Impulse applied (or, for non-dynamic bodies, that would have been applied)
+}
+
+export interface ExplosionEvent {
+  center: THREE.Vector3;
+  options: ExplosionOptions;
+  hits: ExplosionHit[];
+}
+
+interface ExplosionEffect {
+  light: THREE.PointLight | null; // Borrowed from the light pool, none if every light was in use
+  flash: THREE.Mesh;
+  particles: THREE.Points;
+  velocities: THREE.Vector3[];
+  age: number;
+  duration: number;
+  radius: number;
+}
+
+// Explosion lights stay in the scene and are switched off when unused: changing the
+// number of lights would make three.js recompile the shaders of every lit material
+const LIGHT_POOL_SIZE = 4;
+
+// Radial impulses with distance falloff and occlusion, plus the visual flash and particle burst
+export class ExplosionManager {
+  private scene: THREE.Scene;
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private explosionListeners: ((event: ExplosionEvent) => void)[] = [];
+  private effects: ExplosionEffect[] = [];
+  private freeLights: THREE.PointLight[] = [];
+  
+  constructor(
+    scene: THREE.Scene,
+    physics: { world: RAPIER.World; entities: EntityRegistry }
+  ) {
+    this.scene = scene;
+    this.physics = physics;
+    
+    for (let i = 0; i < LIGHT_POOL_SIZE; i++) {
+      const light = new THREE.PointLight(0xffffff, 0);
+      this.scene.add(light);
+      this.freeLights.push(light);
+    }
+  }
+  
+  // Register a listener for explosions; returns a function that removes it
+  onExplosion(listener: (event: ExplosionEvent) => void): () => void {
+    this.explosionListeners.push(listener);
+    return () => {
+      this.explosionListeners = this.explosionListeners.filter(l => l !== listener);
+    };
+  }
+  
+  // Detonate at a point, pushing every dynamic body in range
+  explode(center: THREE.Vector3, options: ExplosionOptions, excludeCollider?: RAPIER.Collider): ExplosionEvent {
+    const occludedForceScale = options.occludedForceScale ?? 0.3;
+    const upwardBias = options.upwardBias ?? 0.3;
+    
+    // Find the closest collider of each body touching the blast sphere
+    const closest = new Map<RAPIER.RigidBodyHandle, { collider: RAPIER.Collider; point: THREE.Vector3; distance: number }>();
+    this.physics.world.intersectionsWithShape(
+      center,
+      { x: 0, y: 0, z: 0, w: 1 },
+      new RAPIER.Ball(options.radius),
+      (collider) => {
+        const body = collider.parent();
+        if (!body) return true;
+        
+        const projection = collider.projectPoint(center, true);
+        const point = projection
+          ? new THREE.Vector3(projection.point.x, projection.point.y, projection.point.z)
+          : center.clone();
+        const distance = point.distanceTo(center);
+        
+        const existing = closest.get(body.handle);
+        if (!existing || distance < existing.distance) {
+          closest.set(body.handle, { collider, point, distance });
+        }
+        return true;
+      },
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      excludeCollider
+    );
+    
+    const hits: ExplosionHit[] = [];
+    closest.forEach(({ collider, point, distance }) => {
+      const body = collider.parent()!;
+      const falloff = Math.max(0, 1 - distance / options.radius);
+      const occluded = this.isOccluded(center, point, distance, body, excludeCollider);
+      
+      // Push away from the blast center, biased upwards
+      const bodyPosition = body.translation();
+      const direction = new THREE.Vector3(
+        bodyPosition.x - center.x,
+        bodyPosition.y - center.y,
+        bodyPosition.z - center.z
+      );
+      if (direction.lengthSq() < 1e-6) {
+        direction.set(0, 1, 0);
+      }
+      direction.normalize();
+      direction.y += upwardBias;
+      direction.normalize();
+      
+      const magnitude = options.force * falloff * (occluded ? occludedForceScale : 1);
+      const impulse = direction.multiplyScalar(magnitude);
+      
+      if (body.bodyType() === RAPIER.RigidBodyType.Dynamic && magnitude > 0) {
+        body.applyImpulse(impulse, true);
+      }
+      
+      hits.push({ collider, body, distance, falloff, occluded, impulse });
+    });
+    
+    this.spawnEffect(center, options);
+    
+    const event: ExplosionEvent = { center: center.clone(), options, hits };
+    this.explosionListeners.forEach(listener => listener(event));
+    return event;
+  }
+  
+  // Animate and remove explosion effects
+  update(deltaTime: number) {
+    this.effects = this.effects.filter(effect => {
+      effect.age += deltaTime * 1000;
+      const t = Math.min(1, effect.age / effect.duration);
+      
+      // Light and flash fade out quickly while the flash expands to the blast radius
+      if (effect.light) {
+        effect.light.intensity = 50 * (1 - t) * (1 - t);
+      }
+      effect.flash.scale.setScalar(Math.max(0.01, effect.radius * Math.min(1, t * 4)));
+      (effect.flash.material as THREE.MeshBasicMaterial).opacity = 0.6 * (1 - Math.min(1, t * 2));
+      
+      // Particles fly outwards under gravity
+      const positions = effect.particles.geometry.getAttribute('position') as THREE.BufferAttribute;
+      for (let i = 0; i < effect.velocities.length; i++) {
+        const velocity = effect.velocities[i];
+        velocity.y -= 9.81 * deltaTime;
+        positions.setXYZ(
+          i,
+          positions.getX(i) + velocity.x * deltaTime,
+          positions.getY(i) + velocity.y * deltaTime,
+          positions.getZ(i) + velocity.z * deltaTime
+        );
+      }
+      positions.needsUpdate = true;
+      (effect.particles.material as THREE.PointsMaterial).opacity = 1 - t;
+      
+      if (t >= 1) {
+        this.removeEffect(effect);
+        return false;
+      }
+      return true;
+    });
+  }
+  
+  // Remove all running effects
+  cleanUp() {
+    this.effects.forEach(effect => this.removeEffect(effect));
+    this.effects = [];
+  }
+  
+  // A body is occluded if a ray from the blast center hits another body's collider first
+  private isOccluded(
+    center: THREE.Vector3,
+    target: THREE.Vector3,
+    distance: number,
+    body: RAPIER.RigidBody,
+    excludeCollider?: RAPIER.Collider
+  ): boolean {
+    if (distance < 1e-3) return false;
+    
+    const direction = target.clone().sub(center).divideScalar(distance);
+    const hit = this.physics.world.castRay(
+      new RAPIER.Ray(center, direction),
+      distance - 1e-3,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      excludeCollider,
+      body,
+      // Ignore whatever the explosion started inside of (e.g. the surface a grenade rests on)
+      (collider) => !collider.containsPoint(center)
+    );
+    
+    return hit !== null;
+  }
+  
+  private spawnEffect(center: THREE.Vector3, options: ExplosionOptions) {
+    const color = options.color ?? 0xffaa33;
+    
+    const light = this.freeLights.pop() ?? null;
+    if (light) {
+      light.color.set(color);
+      light.intensity = 50;
+      light.distance = options.radius * 3;
+      light.position.copy(center);
+    }
+    
+    const flash = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 16, 12),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: 0.6,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false
+      })
+    );
+    flash.position.copy(center);
+    flash.scale.setScalar(0.01);
+    
+    // Particle burst with random outward velocities
+    const particleCount = 60;
+    const positions = new Float32Array(particleCount * 3);
+    const velocities: THREE.Vector3[] = [];
+    for (let i = 0; i < particleCount; i++) {
+      positions[i * 3] = center.x;
+      positions[i * 3 + 1] = center.y;
+      positions[i * 3 + 2] = center.z;
+      
+      const velocity = new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.2, Math.random() - 0.5)
+        .normalize()
+        .multiplyScalar(options.radius * (1 + Math.random() * 2));
+      velocities.push(velocity);
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const particles = new THREE.Points(
+      geometry,
+      new THREE.PointsMaterial({ color, size: 0.15, transparent: true, depthWrite: false })
+    );
+    
+    this.scene.add(flash, particles);
+    this.effects.push({ light, flash, particles, velocities, age: 0, duration: 700, radius: options.radius });
+  }
+  
+  private removeEffect(effect: ExplosionEffect) {
+    if (effect.light) {
+      effect.light.intensity = 0;
+      this.freeLights.push(effect.light);
+    }
+    this.scene.remove(effect.flash, effect.particles);
+    effect.flash.geometry.dispose();
+    (effect.flash.material as THREE.Material).dispose();
+    effect.particles.geometry.dispose();
+    (effect.particles.material as THREE.Material).dispose();
+  }
+}
@@ -0,0 +1,279 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { HeadlessSimulation } from '../headless/HeadlessSimulation';
+import { useHeadlessSimulation } from '../test/headless';
+import { MovementState } from './FPSController';
+import { createGround } from '../objects/Ground';
+import { createCube } from '../objects/Cube';
+
+const createSimulation = useHeadlessSimulation();
+let sim: HeadlessSimulation;
+
+// Player on a large ground plane, dropped from a small height
+async function createGroundedSimulation(spawnHeight: number = 2) {
+  sim = await createSimulation({ spawn: { x: 0, y: spawnHeight, z: 0 } });
+  sim.add(createGround(sim.physics));
+  return sim;
+}
+
+// Player standing on a fixed 4x4 block with nothing below it
+async function createLedgeSimulation() {
+  sim = await createSimulation({ spawn: { x: 0, y: 4, z: 0 } });
+  sim.add(createCube(sim.physics, { x: 0, y: 0, z: 0 }, 4, 0x888888, {}, 'fixed').mesh);
+  sim.runFor(1);
+  return sim;
+}
+
+// Walk forward off the block; returns once the player is no longer supported
+function walkOffLedge() {
+  sim.press('KeyW');
+  const steps = sim.stepUntil(() => sim.fpsController.movementState === MovementState.FALLING, 120);
+  sim.release('KeyW');
+  expect(steps).toBeGreaterThan(0);
+}
+
+// Number of steps until a falling player first touches the ground
+function findLandingStep(): number {
+  // The player starts out in the grounded state, so take a step to start falling first
+  sim.step();
+  const steps = sim.stepUntil(() => sim.fpsController.movementState === MovementState.GROUNDED);
+  expect(steps).toBeGreaterThan(0);
+  return steps + 1;
+}
+
+function tapJump() {
+  sim.press('Space');
+  sim.step();
+  sim.release('Space');
+}
+
+describe('FPSController', () => {
+  it('lands on the ground', async () => {
+    await createGroundedSimulation();
+    sim.runFor(1);
+
+    expect(sim.fpsController.movementState).toBe(MovementState.GROUNDED);
+    // Capsule center rests about a half height plus radius (1.2) above the ground surface (0.1)
+    const y = sim.getPlayerPosition().y;
+    expect(y).toBeGreaterThan(1.1);
+    expect(y).toBeLessThan(1.4);
+
+    sim.runFor(1);
+    expect(sim.getPlayerPosition().y).toBeCloseTo(y, 3);
+  });
+
+  it('jumps and lands again', async () => {
+    await createGroundedSimulation();
+    sim.runFor(1);
+    const groundY = sim.getPlayerPosition().y;
+
+    tapJump();
+    expect(sim.fpsController.movementState).toBe(MovementState.JUMPING);
+
+    let peak = groundY;
+    const steps = sim.stepUntil(() => {
+      peak = Math.max(peak, sim.getPlayerPosition().y);
+      return sim.fpsController.movementState === MovementState.GROUNDED;
+    }, 120);
+
+    // v^2 / 2g with the default jump velocity and gravity
+    const expectedHeight = sim.fpsController.jumpVelocity ** 2 / (2 * sim.fpsController.gravityForce);
+    expect(steps).toBeGreaterThan(0);
+    expect(peak - groundY).toBeGreaterThan(expectedHeight * 0.8);
+    expect(peak - groundY).toBeLessThan(expectedHeight * 1.2);
+
+    sim.runFor(0.5);
+    expect(sim.fpsController.movementState).toBe(MovementState.GROUNDED);
+    expect(Math.abs(sim.getPlayerPosition().y - groundY)).toBeLessThan(0.1);
+  });
+
+  it('cannot jump again in mid-air', async () => {
+    await createGroundedSimulation();
+    sim.runFor(1);
+
+    tapJump();
+    sim.runFor(0.4);
+    const velocity = sim.fpsController.verticalVelocity;
+    tapJump();
+
+    expect(sim.fpsController.verticalVelocity).toBeLessThan(velocity);
+  });
+
+  it('allows a jump shortly after walking off a ledge (coyote time)', async () => {
+    await createLedgeSimulation();
+    walkOffLedge();
+
+    sim.step(3); // 50 ms, within the 150 ms coyote time
+    tapJump();
+
+    expect(sim.fpsController.movementState).toBe(MovementState.JUMPING);
+    expect(sim.fpsController.verticalVelocity).toBeGreaterThan(0);
+  });
+
+  it('does not allow a jump once coyote time has run out', async () => {
+    await createLedgeSimulation();
+    walkOffLedge();
+
+    sim.step(15); // 250 ms
+    tapJump();
+
+    expect(sim.fpsController.movementState).toBe(MovementState.FALLING);
+    expect(sim.fpsController.verticalVelocity).toBeLessThan(0);
+  });
+
+  it('buffers a jump pressed shortly before landing', async () => {
+    // Find out when the player lands without jumping
+    await createGroundedSimulation(4);
+    const landingStep = findLandingStep();
+
+    // Tap jump 100 ms before landing (within the 200 ms buffer), releasing it straight away
+    await createGroundedSimulation(4);
+    sim.step(landingStep - 6);
+    tapJump();
+    sim.step(10);
+
+    expect(sim.fpsController.movementState).toBe(MovementState.JUMPING);
+    expect(sim.getPlayerPosition().y).toBeGreaterThan(2);
+  });
+
+  it('forgets a jump pressed too long before landing', async () => {
+    await createGroundedSimulation(4);
+    const landingStep = findLandingStep();
+
+    // 300 ms before landing is outside the buffer
+    await createGroundedSimulation(4);
+    sim.step(landingStep - 18);
+    tapJump();
+    sim.step(20);
+
+    expect(sim.fpsController.movementState).toBe(MovementState.GROUNDED);
+    expect(sim.getPlayerPosition().y).toBeLessThan(1.4);
+  });
+
+  it('moves proportionally to the move stick', async () => {
+    await createGroundedSimulation();
+    sim.runFor(1);
+
+    sim.dispatch({ type: 'axis', axis: 'move', x: 0, y: 0.5 });
+    sim.runFor(1);
+    expect(sim.fpsController.horizontalVelocity.length()).toBeCloseTo(sim.fpsController.moveSpeed * 0.5, 1);
+
+    // Keys take over again once pressed
+    sim.press('KeyW');
+    sim.runFor(1);
+    expect(sim.fpsController.horizontalVelocity.length()).toBeCloseTo(sim.fpsController.moveSpeed, 1);
+  });
+
+  it('goes back to held keys when the move stick returns to rest', async () => {
+    await createGroundedSimulation();
+    sim.runFor(1);
+
+    sim.press('KeyW');
+    sim.dispatch({ type: 'axis', axis: 'move', x: 0, y: 0.5 });
+    sim.runFor(1);
+    expect(sim.fpsController.horizontalVelocity.length()).toBeCloseTo(sim.fpsController.moveSpeed * 0.5, 1);
+
+    sim.dispatch({ type: 'axis', axis: 'move', x: 0, y: 0 });
+    sim.runFor(1);
+    expect(sim.fpsController.horizontalVelocity.length()).toBeCloseTo(sim.fpsController.moveSpeed, 1);
+  });
+
+  it('turns at the rate held on the look stick', async () => {
+    await createGroundedSimulation();
+
+    sim.dispatch({ type: 'axis', axis: 'look', x: 1, y: 0 });
+    sim.runFor(1);
+
+    // Looking right turns clockwise seen from above (negative yaw)
+    expect(sim.fpsController.yawObject.rotation.y).toBeCloseTo(-1, 2);
+  });
+
+  it('stops looking up at the pitch limit', async () => {
+    await createGroundedSimulation();
+    sim.dispatch({ type: 'pitchLimit', radians: Math.PI / 4 });
+
+    sim.dispatch({ type: 'look', x: 0.5, y: 2 });
+
+    expect(sim.fpsController.yawObject.rotation.y).toBeCloseTo(-0.5);
+    expect(sim.fpsController.pitchObject.rotation.x).toBeCloseTo(Math.PI / 4);
+
+    // The limit is part of the player's state, so snapshots and replays keep it
+    const state = sim.fpsController.getState();
+    sim.dispatch({ type: 'pitchLimit', radians: Math.PI / 2 });
+    sim.fpsController.setState(state);
+    expect(sim.fpsController.maxPitch).toBeCloseTo(Math.PI / 4);
+  });
+
+  it('takes fall damage from hard landings only', async () => {
+    await createGroundedSimulation(15);
+    sim.runFor(3);
+
+    // Falls are capped at 20 m/s: 8 m/s over the threshold at 10 damage each
+    expect(sim.playerHealth.current).toBeCloseTo(20);
+
+    // Jumping on flat ground is harmless
+    sim.press('Space');
+    sim.runFor(2);
+    expect(sim.playerHealth.current).toBeCloseTo(20);
+  });
+
+  it('stops moving when dead and respawns after a delay', async () => {
+    await createGroundedSimulation();
+    sim.runFor(1);
+    sim.fpsController.teleport({ x: 10, y: 2, z: 0 });
+    sim.runFor(1);
+    sim.playerHealth.damage(100, 'world');
+
+    sim.press('KeyW');
+    sim.runFor(1);
+    expect(sim.getPlayerPosition().z).toBeCloseTo(0, 1);
+    expect(sim.respawnManager.getTimeUntilRespawn()).toBeCloseTo(1000, -2);
+
+    // Back at the spawn point with full health, and briefly invulnerable
+    sim.release('KeyW');
+    const steps = sim.stepUntil(() => !sim.playerHealth.isDead(), 120);
+    expect(steps).toBeGreaterThan(0);
+    expect(sim.getPlayerPosition().x).toBeCloseTo(0, 1);
+    expect(sim.playerHealth.current).toBe(100);
+    expect(sim.playerHealth.damage(50, 'projectile')).toBe(0);
+  });
+
+  it('fires from the eye along the aim ray in every stance', async () => {
+    await createGroundedSimulation();
+    sim.runFor(1);
+    sim.dispatch({ type: 'look', x: 0, y: 0.3 });
+
+    const eye = new THREE.Vector3();
+    const aim = new THREE.Vector3();
+    const muzzle = new THREE.Vector3();
+    const direction = new THREE.Vector3();
+
+    for (const key of [null, 'KeyC']) {
+      if (key) {
+        sim.press(key);
+        sim.runFor(0.5);
+      }
+      sim.fpsController.getAimRay(eye, aim);
+      sim.fpsController.getMuzzleTransform(muzzle, direction);
+
+      expect(direction.toArray()).toEqual(aim.toArray());
+      expect(muzzle.distanceTo(eye.addScaledVector(aim, 0.5))).toBeLessThan(1e-6);
+
+      // Below the top of the capsule, so shots can't start inside a low ceiling above the player
+      expect(muzzle.y).toBeLessThan(sim.getPlayerPosition().y + sim.fpsController.collider.halfHeight() + 0.3);
+    }
+  });
+
+  it('pushes a cube when walking into it', async () => {
+    await createGroundedSimulation();
+    const cube = createCube(sim.physics, { x: 0, y: 0.6, z: -3 });
+    sim.add(cube.mesh);
+    sim.runFor(1);
+
+    // Yaw 0 faces -Z, towards the cube
+    sim.press('KeyW');
+    sim.runFor(2);
+
+    expect(cube.rigidBody.translation().z).toBeLessThan(-4);
+  });
+});
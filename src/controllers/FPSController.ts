@@ -1,19 +1,114 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { DebugVisualizer } from '../utils/DebugVisualizer';
+import { BodyInterpolator } from '../utils/Interpolation';
+import { simulationClock } from '../utils/SimulationClock';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+import { SimulationInput } from '../input/SimulationInput';
+import { ActionEvent, InputAction } from '../input/ActionMap';
+import { Health } from '../components/Health';
+import { EntityRegistry } from '../entities/EntityRegistry';
 
 // Interface for physics world
 interface PhysicsWorld {
   world: RAPIER.World;
-  rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody>;
+  entities: EntityRegistry;
+}
+
+// Tunable movement parameters that can be supplied as data
+export interface MovementSettings {
+  moveSpeed: number;
+  jumpVelocity: number;
+  gravityForce: number;
+  groundAcceleration: number;
+  groundDeceleration: number;
+  airAcceleration: number;
+  airDeceleration: number;
+  airControl: number;
+  quakeAirAcceleration: boolean;
+  airSpeedCap: number;
+  slidingFriction: number;
+  maxSlideAngle: number;
+  maxSlideSpeed: number;
+  coyoteTime: number;
+  jumpBufferTime: number;
+  sprintSpeedMultiplier: number;
+  crouchSpeedMultiplier: number;
+  proneSpeedMultiplier: number;
+  maxStamina: number;
+  staminaDrainRate: number;
+  staminaRegenRate: number;
+  fallDamageSpeed: number;
+  fallDamagePerSpeed: number;
 }
 
 // Character movement states
-enum MovementState {
+export enum MovementState {
   GROUNDED,
   JUMPING,
   FALLING,
-  SLIDING
+  SLIDING,
+  SPRINTING,
+  CROUCHING,
+  CROUCH_WALKING,
+  PRONE
+}
+
+// Body postures, each with its own capsule size and eye height
+export enum Stance {
+  STANDING,
+  CROUCHING,
+  PRONE
+}
+
+// Capsule half height and camera offset (relative to the standing eye height) per stance
+const STANCE_DIMENSIONS: Record<Stance, { halfHeight: number; eyeOffset: number }> = {
+  [Stance.STANDING]: { halfHeight: 0.9, eyeOffset: 0 },
+  [Stance.CROUCHING]: { halfHeight: 0.45, eyeOffset: -0.6 },
+  [Stance.PRONE]: { halfHeight: 0.05, eyeOffset: -0.85 }
+};
+const CAPSULE_RADIUS = 0.3;
+
+const MOVE_ACTIONS: InputAction[] = ['moveForward', 'moveBackward', 'moveLeft', 'moveRight'];
+
+// Serializable player state used by snapshots
+export interface PlayerState {
+  position: { x: number; y: number; z: number };
+  yaw: number;
+  pitch: number;
+  velocity: { x: number; y: number; z: number };
+  horizontalVelocity: { x: number; y: number };
+  verticalVelocity: number;
+  slideVelocity: { x: number; y: number; z: number };
+  movementState: MovementState;
+  stance: Stance;
+  crouchRequested: boolean;
+  proneRequested: boolean;
+  stamina: number;
+  staminaExhausted: boolean;
+  eyeOffset: number;
+  currentMaxSpeed: number;
+  canJump: boolean;
+  lastJumpTime: number;
+  lastJumpRequestTime: number;
+  lastGroundedTime: number;
+  safePosition: { x: number; y: number; z: number };
+  platformVelocity: { x: number; y: number; z: number };
+  lastSprintTime: number;
+  bodyQueryCounter: number;
+  maxPitch: number;
+  // Held inputs
+  moveForward: boolean;
+  moveBackward: boolean;
+  moveLeft: boolean;
+  moveRight: boolean;
+  jumpRequested: boolean;
+  sprintRequested: boolean;
+  isShooting: boolean;
+  shootRequested: boolean;
+  moveAxis: { x: number; y: number };
+  lookRate: { x: number; y: number };
+  analogMove: boolean;
 }
 
 // FPS Controller class
@@ -32,7 +127,7 @@ export class FPSController {
   moveLeft: boolean;
   moveRight: boolean;
   canJump: boolean;
-  domElement: HTMLElement;
+  domElement: HTMLElement | null; // Element that captures the pointer (none when running headless)
   pitchObject: THREE.Object3D;
   yawObject: THREE.Object3D;
   isLocked: boolean;
@@ -41,6 +136,7 @@ export class FPSController {
   lastJumpTime: number;
   scene: THREE.Scene | null;
   debugVisualizer: DebugVisualizer | null = null;
+  interpolator: BodyInterpolator;
   
   // Movement parameters
   moveSpeed: number = 5.0;
@@ -50,7 +146,10 @@ export class FPSController {
   lastJumpRequestTime: number = 0;
   coyoteTime: number = 150; // ms of "coyote time" (can jump briefly after leaving platform)
   lastGroundedTime: number = 0;
-  airControl: number = 0.7;
+  safePosition: THREE.Vector3 = new THREE.Vector3(); // Where the player last stood on stable ground
+  airControl: number = 0.7; // Scales acceleration while airborne
+  quakeAirAcceleration: boolean = false; // Quake-style air strafing instead of air control
+  airSpeedCap: number = 1.0; // Max wish speed used by Quake-style air acceleration
   pushPower: number = 0.5;
   upVector = { x: 0, y: 1, z: 0 };
   verticalVelocity: number = 0;
@@ -62,14 +161,52 @@ export class FPSController {
   airDeceleration: number = 2.0;
   slidingFriction: number = 0.2;
   maxSlideAngle: number = 0.8; // ~45 degrees
+  maxSlideSpeed: number = 15.0;
+  groundProbeDistance: number = 0.3; // How far below the capsule to look for ground
+  groundNormal: THREE.Vector3 = new THREE.Vector3(0, 1, 0);
+  slideVelocity: THREE.Vector3 = new THREE.Vector3(); // Momentum gained while sliding down slopes
+  groundCollider: RAPIER.Collider | null = null; // What the player stands on, if anything
+  platformVelocity: THREE.Vector3 = new THREE.Vector3(); // Velocity of the moving platform underfoot
+  onSteepSurface: boolean = false;
   bodyQueryInterval: number = 5; // Only perform body queries every N frames
+  
+  // Stance and sprint parameters
+  stance: Stance = Stance.STANDING;
+  sprintRequested: boolean = false;
+  crouchRequested: boolean = false;
+  proneRequested: boolean = false;
+  sprintSpeedMultiplier: number = 1.6;
+  crouchSpeedMultiplier: number = 0.5;
+  proneSpeedMultiplier: number = 0.25;
+  stanceTransitionSpeed: number = 10.0; // How fast the camera moves to the new eye height
+  maxStamina: number = 100;
+  stamina: number = 100;
+  staminaDrainRate: number = 20; // per second while sprinting
+  staminaRegenRate: number = 15; // per second while not sprinting
+  staminaRegenDelay: number = 1000; // ms after sprinting before stamina regenerates
+  minSprintStamina: number = 20; // Stamina needed to sprint again after exhaustion
+  staminaExhausted: boolean = false;
+  lastSprintTime: number = 0;
+  currentMaxSpeed: number = 5.0; // Top speed for the current stance, kept while airborne
+  
+  // Fall damage and health
+  fallDamageSpeed: number = 12.0; // Landing faster than this (m/s) hurts
+  fallDamagePerSpeed: number = 10.0; // Damage per m/s of landing speed above fallDamageSpeed
+  health: Health | null = null;
   bodyQueryCounter: number = 0;
   
+  // Analog (gamepad) input
+  moveAxis: THREE.Vector2 = new THREE.Vector2(); // Move stick (x right, y forward), length up to 1
+  lookRate: THREE.Vector2 = new THREE.Vector2(); // Turn rate in radians per second (x right, y up)
+  analogMove: boolean = false; // Whether the stick rather than the keys drives movement (last used wins)
+  
   // Shooting parameters
-  isShooting: boolean = false;
-  onShoot: ((position: THREE.Vector3, direction: THREE.Vector3) => void) | null = null;
+  isShooting: boolean = false; // Trigger held
+  shootRequested: boolean = false; // Trigger pressed since the weapon last checked
+  maxPitch: number = THREE.MathUtils.degToRad(89); // Stops short of straight up/down, where yaw becomes ambiguous
+  rawMouseInput: boolean = true; // Request pointer lock with unadjusted (OS acceleration free) movement
 
-  constructor(camera: THREE.Camera, physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> }, domElement: HTMLElement) {
+  constructor(camera: THREE.Camera, physics: { world: RAPIER.World; entities: EntityRegistry }, domElement: HTMLElement | null = null) {
     this.camera = camera;
     this.physics = physics;
     this.domElement = domElement;
@@ -89,23 +226,18 @@ export class FPSController {
     this.rigidBody = physics.world.createRigidBody(bodyDesc);
     
     // Create a collider for the player (capsule shape)
-    const colliderDesc = RAPIER.ColliderDesc.capsule(0.9, 0.3)
-      .setFriction(0.2);
+    const colliderDesc = RAPIER.ColliderDesc.capsule(STANCE_DIMENSIONS[Stance.STANDING].halfHeight, CAPSULE_RADIUS)
+      .setFriction(0.2)
+      .setCollisionGroups(interactionGroups(CollisionGroup.PLAYER));
 
     this.collider = physics.world.createCollider(colliderDesc, this.rigidBody);
+    this.safePosition.set(position.x, position.y, position.z);
+
+    // Track previous/current physics positions for smooth rendering between steps
+    this.interpolator = new BodyInterpolator(this.rigidBody);
 
     // Create Rapier's KinematicCharacterController
-    // The offset is the gap that the controller will leave between the character and obstacles
-    const offset = 0.01;
-    this.characterController = physics.world.createCharacterController(offset);
-    
-    // Configure character controller
-    this.characterController.enableAutostep(0.5, 0.3, true);
-    this.characterController.enableSnapToGround(0.3);
-    this.characterController.setMaxSlopeClimbAngle(this.maxSlideAngle);
-    this.characterController.setMinSlopeSlideAngle(0.6);
-    this.characterController.setApplyImpulsesToDynamicBodies(true);
-    this.characterController.setUp(this.upVector);
+    this.characterController = this.createCharacterController();
 
     // Create a 3D object for the player
     this.pitchObject = new THREE.Object3D();
@@ -129,17 +261,37 @@ export class FPSController {
     this.moveRight = false;
     this.canJump = false;
 
-    // Set up pointer lock controls
-    this.setupPointerLock();
+    // Set up pointer lock controls (keyboard and mouse input arrives through handleInput)
+    if (domElement) {
+      this.setupPointerLock(domElement);
+    }
+  }
+
+  // Create and configure the character controller in the current physics world
+  createCharacterController(): RAPIER.KinematicCharacterController {
+    // The offset is the gap that the controller will leave between the character and obstacles
+    const offset = 0.01;
+    const characterController = this.physics.world.createCharacterController(offset);
     
-    // Set up keyboard and mouse input
-    document.addEventListener('keydown', this.onKeyDown.bind(this), false);
-    document.addEventListener('keyup', this.onKeyUp.bind(this), false);
-    document.addEventListener('mousedown', this.onMouseDown.bind(this), false);
-    document.addEventListener('mouseup', this.onMouseUp.bind(this), false);
+    // Configure character controller
+    characterController.enableAutostep(0.5, 0.3, true);
+    characterController.enableSnapToGround(0.3);
+    characterController.setMaxSlopeClimbAngle(this.maxSlideAngle);
+    characterController.setMinSlopeSlideAngle(0.6);
+    characterController.setApplyImpulsesToDynamicBodies(true);
+    characterController.setUp(this.upVector);
+    return characterController;
+  }
+
+  // Look up the player's body and collider again after the physics world was replaced
+  // (e.g. restored from a snapshot); handles stay the same across snapshots
+  rebindPhysics() {
+    this.rigidBody = this.physics.world.getRigidBody(this.rigidBody.handle);
+    this.collider = this.physics.world.getCollider(this.collider.handle);
+    this.characterController = this.createCharacterController();
+    this.interpolator = new BodyInterpolator(this.rigidBody);
   }
 
-  // Set the scene reference
   setScene(scene: THREE.Scene) {
     this.scene = scene;
     
@@ -152,177 +304,323 @@ export class FPSController {
     }
   }
 
-  // Set a callback for when player shoots
-  setShootCallback(callback: (position: THREE.Vector3, direction: THREE.Vector3) => void) {
-    this.onShoot = callback;
-  }
-
-  setupPointerLock() {
-    const that = this;
-    this.domElement.ownerDocument.addEventListener('click', function() {
-      that.domElement.requestPointerLock();
-    });
+  setupPointerLock(domElement: HTMLElement) {
+    const doc = domElement.ownerDocument;
+    // Only clicks on the game itself lock, so overlays (e.g. menus) stay usable
+    domElement.addEventListener('click', () => this.requestPointerLock(domElement));
 
     const lockChangeEvent = () => {
-      const doc = this.domElement.ownerDocument;
-      if (doc.pointerLockElement === this.domElement) {
+      if (doc.pointerLockElement === domElement) {
         this.isLocked = true;
       } else {
         this.isLocked = false;
       }
     };
 
-    const moveCallback = (event: MouseEvent) => {
-      if (!this.isLocked) return;
+    doc.addEventListener('pointerlockchange', lockChangeEvent, false);
+  }
 
-      const movementX = event.movementX || 0;
-      const movementY = event.movementY || 0;
+  // Lock the pointer, preferring raw movement; browsers without it either ignore the
+  // option (older ones also return no promise) or reject, in which case lock normally
+  requestPointerLock(domElement: HTMLElement) {
+    if (!this.rawMouseInput) {
+      domElement.requestPointerLock();
+      return;
+    }
 
-      this.yawObject.rotation.y -= movementX * 0.002;
-      this.pitchObject.rotation.x -= movementY * 0.002;
-      
-      // Clamp the pitch to avoid flipping
-      this.pitchObject.rotation.x = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.pitchObject.rotation.x));
-    };
+    const request: Promise<void> | undefined = domElement.requestPointerLock({ unadjustedMovement: true });
+    request?.catch(error => {
+      if (error?.name === 'NotSupportedError') {
+        domElement.requestPointerLock();
+      } else {
+        console.warn('Pointer lock failed:', error);
+      }
+    });
+  }
 
-    document.addEventListener('pointerlockchange', lockChangeEvent, false);
-    document.addEventListener('mousemove', moveCallback, false);
+  // Apply an input event (live or replayed)
+  handleInput(input: SimulationInput) {
+    if (input.type === 'action') {
+      this.handleAction(input);
+    } else if (input.type === 'look') {
+      this.turn(-input.x, input.y);
+    } else if (input.type === 'axis') {
+      this.handleAxis(input.axis, input.x, input.y);
+    } else if (input.type === 'pitchLimit') {
+      this.maxPitch = input.radians;
+    }
   }
 
-  onKeyDown(event: KeyboardEvent) {
-    switch (event.code) {
-      case 'ArrowUp':
-      case 'KeyW':
-        this.moveForward = true;
-        break;
-      case 'ArrowLeft':
-      case 'KeyA':
-        this.moveLeft = true;
+  // Release all held inputs (e.g. when a replay hands control back)
+  resetInput() {
+    this.moveForward = false;
+    this.moveBackward = false;
+    this.moveLeft = false;
+    this.moveRight = false;
+    this.jumpRequested = false;
+    this.sprintRequested = false;
+    this.crouchRequested = false;
+    this.isShooting = false;
+    this.shootRequested = false;
+    this.moveAxis.set(0, 0);
+    this.lookRate.set(0, 0);
+    this.analogMove = false;
+  }
+
+  // Rotate the view by the given angles in radians (positive yaw turns left, positive pitch looks up)
+  turn(yaw: number, pitch: number) {
+    this.yawObject.rotation.y += yaw;
+    this.pitchObject.rotation.x += pitch;
+    
+    // Clamp the pitch to avoid flipping
+    this.pitchObject.rotation.x = Math.max(-this.maxPitch, Math.min(this.maxPitch, this.pitchObject.rotation.x));
+  }
+
+  // Update an analog stick; values are applied every step until the stick changes again
+  handleAxis(axis: 'move' | 'look', x: number, y: number) {
+    if (axis === 'move') {
+      this.moveAxis.set(x, y);
+      // A stick back at rest hands movement back to any keys still held
+      this.analogMove = this.moveAxis.lengthSq() > 0;
+    } else {
+      this.lookRate.set(x, y);
+    }
+  }
+
+  // Update movement and trigger state from an action
+  handleAction(event: ActionEvent) {
+    // Pressing a movement key takes movement back from the stick
+    if (event.active && MOVE_ACTIONS.includes(event.action)) {
+      this.analogMove = false;
+    }
+    
+    switch (event.action) {
+      case 'moveForward':
+        this.moveForward = event.active;
         break;
-      case 'ArrowDown':
-      case 'KeyS':
-        this.moveBackward = true;
+      case 'moveBackward':
+        this.moveBackward = event.active;
         break;
-      case 'ArrowRight':
-      case 'KeyD':
-        this.moveRight = true;
+      case 'moveLeft':
+        this.moveLeft = event.active;
         break;
-      case 'Space':
-        // Buffer jump input for better responsiveness
-        this.jumpRequested = true;
-        this.lastJumpRequestTime = Date.now();
+      case 'moveRight':
+        this.moveRight = event.active;
         break;
-    }
-  }
-
-  onKeyUp(event: KeyboardEvent) {
-    switch (event.code) {
-      case 'ArrowUp':
-      case 'KeyW':
-        this.moveForward = false;
+      case 'jump':
+        this.jumpRequested = event.active;
+        if (event.active) {
+          // Buffer jump input for better responsiveness
+          this.lastJumpRequestTime = simulationClock.now();
+        }
         break;
-      case 'ArrowLeft':
-      case 'KeyA':
-        this.moveLeft = false;
+      case 'sprint':
+        this.sprintRequested = event.active;
         break;
-      case 'ArrowDown':
-      case 'KeyS':
-        this.moveBackward = false;
+      case 'crouch':
+        this.crouchRequested = event.active;
         break;
-      case 'ArrowRight':
-      case 'KeyD':
-        this.moveRight = false;
+      case 'prone':
+        // Prone is a toggle rather than a hold
+        this.proneRequested = !this.proneRequested;
         break;
-      case 'Space':
-        this.jumpRequested = false;
+      case 'fire':
+        this.isShooting = event.active;
+        if (event.active) {
+          this.shootRequested = true;
+        }
         break;
     }
   }
 
-  onMouseDown(event: MouseEvent) {
-    if (!this.isLocked) return;
-    
-    // Only handle left mouse button (button 0)
-    if (event.button === 0) {
-      this.isShooting = true;
-      this.shoot();
-    }
+  // Return and clear the pending trigger press
+  consumeShootRequest(): boolean {
+    const requested = this.shootRequested;
+    this.shootRequested = false;
+    return requested;
   }
 
-  onMouseUp(event: MouseEvent) {
-    if (!this.isLocked) return;
-    
-    // Only handle left mouse button (button 0)
-    if (event.button === 0) {
-      this.isShooting = false;
-    }
+  // Get the spawn position and aim direction for shots
+  // Uses the physics position rather than the interpolated one so shots don't depend on the frame rate
+  getMuzzleTransform(position: THREE.Vector3, direction: THREE.Vector3) {
+    // Start from the eye so shots line up with the crosshair, slightly in front of the camera (0.5 units)
+    this.getAimRay(position, direction);
+    position.addScaledVector(direction, 0.5);
   }
 
-  // Handle shooting logic
-  shoot() {
-    if (this.onShoot) {
-      // Calculate bullet spawn position (slightly in front of camera)
-      const bulletPosition = new THREE.Vector3();
-      const direction = new THREE.Vector3();
-      
-      // Get direction from camera
-      this.camera.getWorldDirection(direction);
-      
-      // Position slightly in front of camera (0.5 units) and at the right height
-      bulletPosition.copy(this.position).add(new THREE.Vector3(0, 1.6, 0)).add(direction.multiplyScalar(0.5));
-      
-      // Reset direction and get it again (since we modified it above)
-      direction.set(0, 0, 0);
-      this.camera.getWorldDirection(direction);
-      
-      // Call the shoot callback
-      this.onShoot(bulletPosition, direction);
-    }
+  // Get the camera position and view direction for ray-cast shots
+  getAimRay(origin: THREE.Vector3, direction: THREE.Vector3) {
+    origin.copy(this.interpolator.currentPosition);
+    origin.y += this.pitchObject.position.y;
+    this.camera.getWorldDirection(direction);
+  }
+
+  // Kick the view up (and sideways) when firing
+  applyRecoil(pitch: number, yaw: number) {
+    this.pitchObject.rotation.x = Math.min(this.maxPitch, this.pitchObject.rotation.x + pitch);
+    this.yawObject.rotation.y += yaw;
+  }
+
+  // Move the player to a spawn point, clearing any motion (yaw in radians, 0 faces -Z)
+  teleport(position: { x: number; y: number; z: number }, yaw: number = this.yawObject.rotation.y) {
+    this.rigidBody.setTranslation(position, true);
+    this.rigidBody.setNextKinematicTranslation(position);
+    this.interpolator.reset();
+    this.yawObject.position.set(position.x, position.y, position.z);
+    this.safePosition.set(position.x, position.y, position.z);
+
+    this.velocity.set(0, 0, 0);
+    this.horizontalVelocity.set(0, 0);
+    this.verticalVelocity = 0;
+    this.slideVelocity.set(0, 0, 0);
+    this.yawObject.rotation.y = yaw;
+    this.pitchObject.rotation.x = 0;
+  }
+
+  // Capture everything needed to restore the player exactly
+  getState(): PlayerState {
+    const position = this.rigidBody.translation();
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      yaw: this.yawObject.rotation.y,
+      pitch: this.pitchObject.rotation.x,
+      velocity: { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z },
+      horizontalVelocity: { x: this.horizontalVelocity.x, y: this.horizontalVelocity.y },
+      verticalVelocity: this.verticalVelocity,
+      slideVelocity: { x: this.slideVelocity.x, y: this.slideVelocity.y, z: this.slideVelocity.z },
+      movementState: this.movementState,
+      stance: this.stance,
+      crouchRequested: this.crouchRequested,
+      proneRequested: this.proneRequested,
+      stamina: this.stamina,
+      staminaExhausted: this.staminaExhausted,
+      eyeOffset: this.pitchObject.position.y,
+      currentMaxSpeed: this.currentMaxSpeed,
+      canJump: this.canJump,
+      lastJumpTime: this.lastJumpTime,
+      lastJumpRequestTime: this.lastJumpRequestTime,
+      lastGroundedTime: this.lastGroundedTime,
+      safePosition: { x: this.safePosition.x, y: this.safePosition.y, z: this.safePosition.z },
+      platformVelocity: { x: this.platformVelocity.x, y: this.platformVelocity.y, z: this.platformVelocity.z },
+      lastSprintTime: this.lastSprintTime,
+      bodyQueryCounter: this.bodyQueryCounter,
+      maxPitch: this.maxPitch,
+      moveForward: this.moveForward,
+      moveBackward: this.moveBackward,
+      moveLeft: this.moveLeft,
+      moveRight: this.moveRight,
+      jumpRequested: this.jumpRequested,
+      sprintRequested: this.sprintRequested,
+      isShooting: this.isShooting,
+      shootRequested: this.shootRequested,
+      moveAxis: { x: this.moveAxis.x, y: this.moveAxis.y },
+      lookRate: { x: this.lookRate.x, y: this.lookRate.y },
+      analogMove: this.analogMove
+    };
+  }
+
+  // Restore a state captured with getState
+  setState(state: PlayerState) {
+    this.setStance(state.stance);
+    this.pitchObject.position.y = state.eyeOffset;
+    this.crouchRequested = state.crouchRequested;
+    this.proneRequested = state.proneRequested;
+
+    this.teleport(state.position, state.yaw);
+    this.pitchObject.rotation.x = state.pitch;
+    this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+    this.horizontalVelocity.set(state.horizontalVelocity.x, state.horizontalVelocity.y);
+    this.verticalVelocity = state.verticalVelocity;
+    this.slideVelocity.set(state.slideVelocity.x, state.slideVelocity.y, state.slideVelocity.z);
+    this.movementState = state.movementState;
+    this.stamina = state.stamina;
+    this.staminaExhausted = state.staminaExhausted;
+    this.currentMaxSpeed = state.currentMaxSpeed;
+    this.canJump = state.canJump;
+    this.lastJumpTime = state.lastJumpTime;
+    this.lastJumpRequestTime = state.lastJumpRequestTime;
+    this.lastGroundedTime = state.lastGroundedTime;
+    this.safePosition.set(state.safePosition.x, state.safePosition.y, state.safePosition.z);
+    this.platformVelocity.set(state.platformVelocity.x, state.platformVelocity.y, state.platformVelocity.z);
+    this.lastSprintTime = state.lastSprintTime;
+    this.bodyQueryCounter = state.bodyQueryCounter;
+    this.maxPitch = state.maxPitch;
+    this.moveForward = state.moveForward;
+    this.moveBackward = state.moveBackward;
+    this.moveLeft = state.moveLeft;
+    this.moveRight = state.moveRight;
+    this.jumpRequested = state.jumpRequested;
+    this.sprintRequested = state.sprintRequested;
+    this.isShooting = state.isShooting;
+    this.shootRequested = state.shootRequested;
+    this.moveAxis.set(state.moveAxis.x, state.moveAxis.y);
+    this.lookRate.set(state.lookRate.x, state.lookRate.y);
+    this.analogMove = state.analogMove;
   }
 
   update(deltaTime: number) {
     if (!this.rigidBody || !this.characterController) return;
 
+    // Resize the capsule for the requested stance and update sprint stamina
+    this.updateStance(deltaTime);
+    this.updateStamina(deltaTime);
+
     // Update movement state
     this.updateMovementState();
 
-    // Calculate move direction from key presses
+    // Turn at the rate held on the look stick
+    if (this.lookRate.lengthSq() > 0) {
+      this.turn(-this.lookRate.x * deltaTime, this.lookRate.y * deltaTime);
+    }
+
+    // Calculate move direction from the move stick (proportional) or key presses
     const direction = new THREE.Vector3();
     const rotation = this.yawObject.rotation.y;
 
-    if (this.moveForward) direction.z = -1;
-    if (this.moveBackward) direction.z = 1;
-    if (this.moveLeft) direction.x = -1;
-    if (this.moveRight) direction.x = 1;
-    
-    // Normalize direction
-    if (direction.lengthSq() > 0) {
-      direction.normalize();
+    if (this.analogMove) {
+      direction.set(this.moveAxis.x, 0, -this.moveAxis.y);
+    } else {
+      if (this.moveForward) direction.z = -1;
+      if (this.moveBackward) direction.z = 1;
+      if (this.moveLeft) direction.x = -1;
+      if (this.moveRight) direction.x = 1;
+      
+      // Normalize direction
+      if (direction.lengthSq() > 0) {
+        direction.normalize();
+      }
+    }
+
+    // The dead don't move on their own
+    if (this.isDead()) {
+      direction.set(0, 0, 0);
     }
 
     // Rotate direction based on camera rotation
     direction.applyAxisAngle(new THREE.Vector3(0, 1, 0), rotation);
 
     // Process input buffering for jump
-    const now = Date.now();
+    const now = simulationClock.now();
     const hasBufferedJump = (now - this.lastJumpRequestTime < this.jumpBufferTime);
     
     // Jump if we have a buffered jump request and can jump (with coyote time)
-    if ((this.jumpRequested || hasBufferedJump) && this.canJump && now - this.lastJumpTime > this.jumpCooldown) {
+    if ((this.jumpRequested || hasBufferedJump) && this.canJump && this.stance !== Stance.PRONE && !this.isDead() &&
+        now - this.lastJumpTime > this.jumpCooldown) {
       // Set a strong upward velocity
       this.verticalVelocity = this.jumpVelocity;
       this.jumpRequested = false;
       this.lastJumpTime = now;
       this.movementState = MovementState.JUMPING;
       this.canJump = false;
+      this.leavePlatform();
     }
     
     // Apply gravity based on movement state
-    if (this.movementState === MovementState.JUMPING || this.movementState === MovementState.FALLING) {
+    if (this.isAirborne()) {
       this.verticalVelocity -= this.gravityForce * deltaTime;
     } else if (this.movementState === MovementState.SLIDING) {
-      // Apply sliding force down the slope (simplified)
-      this.verticalVelocity = -5.0 * this.slidingFriction;
+      // Vertical motion while sliding comes from the slide velocity along the slope
+      this.verticalVelocity = 0;
     } else {
       // Gradually reduce vertical velocity when grounded
       this.verticalVelocity *= 0.8;
@@ -336,27 +634,41 @@ export class FPSController {
       this.verticalVelocity = -20;
     }
     
-    // SIMPLIFIED MOVEMENT SYSTEM - direct approach to ensure it works
-    // Get target velocity based on input direction and state
-    const currentMoveFactor = (this.movementState === MovementState.JUMPING || 
-                              this.movementState === MovementState.FALLING) ? 
-                              this.airControl : 1.0;
+    // Accelerate down steep slopes, keep momentum in the air and bleed it off on walkable ground
+    this.updateSlideVelocity(deltaTime);
+    
+    // Integrate horizontal velocity towards the input direction using per-state acceleration
+    const wishDirection = new THREE.Vector2(direction.x, direction.z);
+    const isAirborne = this.isAirborne();
+    
+    // Top speed depends on stance and sprinting, and is kept from takeoff while airborne
+    if (!isAirborne) {
+      this.currentMaxSpeed = this.getStanceSpeed();
+    }
     
-    // Apply acceleration but in a simpler, more direct way
-    this.horizontalVelocity.x = direction.x * this.moveSpeed * currentMoveFactor;
-    this.horizontalVelocity.y = direction.z * this.moveSpeed * currentMoveFactor;
+    if (isAirborne && this.quakeAirAcceleration) {
+      this.applyQuakeAirAcceleration(wishDirection, deltaTime);
+    } else {
+      this.applyAcceleration(wishDirection, isAirborne ? this.airControl : 1.0, deltaTime);
+    }
     
     // Calculate final movement vector
     let movementVector = {
-      x: this.horizontalVelocity.x * deltaTime,
-      y: this.verticalVelocity * deltaTime,
-      z: this.horizontalVelocity.y * deltaTime
+      x: (this.horizontalVelocity.x + this.slideVelocity.x) * deltaTime,
+      y: (this.verticalVelocity + this.slideVelocity.y) * deltaTime,
+      z: (this.horizontalVelocity.y + this.slideVelocity.z) * deltaTime
     };
     
+    // Ride along with a moving platform (before our own movement, whose collisions are
+    // the ones used to find the ground next step)
+    const carriedMovement = this.carryWithPlatform(deltaTime);
+    
     // Use the character controller to compute the corrected movement
+    // Sensors (such as kill volumes) don't block the player
     this.characterController.computeColliderMovement(
       this.collider,
-      movementVector
+      movementVector,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS
     );
     
     // Get the corrected movement from the character controller
@@ -368,25 +680,27 @@ export class FPSController {
       this.verticalVelocity = 0;
     }
     
+    // Lose the horizontal momentum that was blocked by walls or obstacles
+    const intendedHorizontal = Math.hypot(movementVector.x, movementVector.z);
+    const actualHorizontal = Math.hypot(correctedMovement.x, correctedMovement.z);
+    if (deltaTime > 0 && intendedHorizontal > 0 && actualHorizontal < intendedHorizontal * 0.9) {
+      this.horizontalVelocity.set(
+        correctedMovement.x / deltaTime - this.slideVelocity.x,
+        correctedMovement.z / deltaTime - this.slideVelocity.z
+      );
+    }
+    
     // Apply the corrected movement to the kinematic rigid body
     const currentPos = this.rigidBody.translation();
     const newPos = {
-      x: currentPos.x + correctedMovement.x,
-      y: currentPos.y + correctedMovement.y,
-      z: currentPos.z + correctedMovement.z
+      x: currentPos.x + correctedMovement.x + carriedMovement.x,
+      y: currentPos.y + correctedMovement.y + carriedMovement.y,
+      z: currentPos.z + correctedMovement.z + carriedMovement.z
     };
     
-    // Update rigid body position
+    // Update rigid body position (takes effect on the next world step)
     this.rigidBody.setNextKinematicTranslation(newPos);
     
-    // Update Three.js object position
-    this.position.set(newPos.x, newPos.y, newPos.z);
-    
-    // Update the collider visualization if debug is active
-    if (this.scene && this.debugVisualizer && this.collider) {
-      this.debugVisualizer.updatePlayerVisualization(this.collider);
-    }
-    
     // Handle interactions with dynamic rigid bodies (optimized to run less frequently)
     this.bodyQueryCounter++;
     if (this.bodyQueryCounter >= this.bodyQueryInterval) {
@@ -395,6 +709,21 @@ export class FPSController {
     }
   }
   
+  // Record the player's physics position after a world step
+  postPhysicsUpdate() {
+    this.interpolator.capture();
+  }
+
+  // Move the camera rig to the interpolated physics position for rendering
+  interpolate(alpha: number) {
+    this.interpolator.apply(this.yawObject, alpha, false);
+    
+    // Update the collider visualization if debug is active
+    if (this.scene && this.debugVisualizer && this.collider) {
+      this.debugVisualizer.updatePlayerVisualization(this.collider);
+    }
+  }
+  
   // Handle pushing of dynamic rigid bodies
   handleRigidBodyInteractions(deltaTime: number) {
     if (!this.rigidBody) return;
@@ -408,7 +737,8 @@ export class FPSController {
     const queryPosition = { x: playerPos.x, y: playerPos.y, z: playerPos.z };
     const queryRotation = { x: 0, y: 0, z: 0, w: 1 };
     
-    // Query all nearby colliders
+    // Collect nearby dynamic bodies first: bodies must not be modified while the query runs
+    const bodies: RAPIER.RigidBody[] = [];
     this.physics.world.intersectionsWithShape(
       queryPosition,
       queryRotation,
@@ -419,68 +749,82 @@ export class FPSController {
         
         // Only interact with dynamic bodies
         const body = collider.parent();
-        if (!body || body.bodyType() !== RAPIER.RigidBodyType.Dynamic) return true;
-        
-        // Calculate push direction away from player
-        const bodyPos = body.translation();
-        const pushDir = new THREE.Vector3(
-          bodyPos.x - playerPos.x,
-          0, // Don't push up/down
-          bodyPos.z - playerPos.z
-        );
-        
-        // Calculate distance and only push if close enough
-        const pushDistance = pushDir.length();
-        
-        if (pushDistance > 0 && pushDistance < interactionRadius) {
-          pushDir.normalize();
-          
-          // Calculate push strength based on player velocity and distance
-          const playerSpeed = new THREE.Vector2(this.horizontalVelocity.x, this.horizontalVelocity.y).length();
-          const strength = this.pushPower * playerSpeed * (1 - pushDistance / interactionRadius);
-          
-          // Only push if player is moving with reasonable speed
-          if (playerSpeed > 2.0) {
-            // Apply the impulse
-            body.applyImpulse(
-              { 
-                x: pushDir.x * strength, 
-                y: 0, 
-                z: pushDir.z * strength 
-              },
-              true
-            );
-          }
+        if (body && body.bodyType() === RAPIER.RigidBodyType.Dynamic) {
+          bodies.push(body);
         }
         
         // Continue the query
         return true;
       }
     );
+    
+    bodies.forEach(body => {
+      // Calculate push direction away from player
+      const bodyPos = body.translation();
+      const pushDir = new THREE.Vector3(
+        bodyPos.x - playerPos.x,
+        0, // Don't push up/down
+        bodyPos.z - playerPos.z
+      );
+      
+      // Calculate distance and only push if close enough
+      const pushDistance = pushDir.length();
+      
+      if (pushDistance > 0 && pushDistance < interactionRadius) {
+        pushDir.normalize();
+        
+        // Calculate push strength based on player velocity and distance
+        const playerSpeed = new THREE.Vector2(this.horizontalVelocity.x, this.horizontalVelocity.y).length();
+        const strength = this.pushPower * playerSpeed * (1 - pushDistance / interactionRadius);
+        
+        // Only push if player is moving with reasonable speed
+        if (playerSpeed > 2.0) {
+          // Apply the impulse
+          body.applyImpulse(
+            { 
+              x: pushDir.x * strength, 
+              y: 0, 
+              z: pushDir.z * strength 
+            },
+            true
+          );
+        }
+      }
+    });
   }
 
   // Update the movement state based on current conditions
   updateMovementState() {
     const isGrounded = this.characterController.computedGrounded();
-    const now = Date.now();
+    const now = simulationClock.now();
     
-    // Update grounded time tracking for coyote time
-    if (isGrounded) {
-      this.lastGroundedTime = now;
-    }
-    
-    // Get surface normal from character controller
+    // Get surface normal from the last movement's collisions (or a ground probe)
+    const hasGroundContact = this.updateGroundNormal();
     const slope = this.getSlopeAngle();
     const isTooSteep = slope > this.maxSlideAngle;
+    const wasSliding = this.movementState === MovementState.SLIDING;
+    const wasAirborne = this.isAirborne();
     
-    // Update movement state
-    if (isGrounded) {
-      // On ground
-      if (isTooSteep) {
-        this.movementState = MovementState.SLIDING;
-      } else {
-        this.movementState = MovementState.GROUNDED;
+    // The character controller may not report steep slopes as grounded, so rely on the contact
+    this.onSteepSurface = hasGroundContact && isTooSteep;
+    const isStableGround = isGrounded && !this.onSteepSurface;
+    
+    // Update grounded time tracking for coyote time, and remember the spot to return to
+    // after falling out of the world (never one inside a kill volume, where being sent
+    // back would leave the player inside without entering it again)
+    if (isStableGround) {
+      this.lastGroundedTime = now;
+      if (!this.isInKillVolume()) {
+        const position = this.rigidBody.translation();
+        this.safePosition.set(position.x, position.y, position.z);
       }
+    }
+    
+    // Update movement state
+    if (this.onSteepSurface && this.verticalVelocity <= 0) {
+      this.movementState = MovementState.SLIDING;
+    } else if (isGrounded) {
+      this.movementState = this.getGroundedState();
     } else {
       // In air
       if (this.verticalVelocity > 0) {
@@ -490,21 +834,384 @@ export class FPSController {
       }
     }
     
-    // Update jump ability for coyote time
-    this.canJump = isGrounded || (now - this.lastGroundedTime < this.coyoteTime);
+    // Walking off a moving platform keeps its momentum
+    if (!wasAirborne && this.isAirborne()) {
+      this.leavePlatform();
+    }
+    
+    // Landing (the vertical velocity is still the one from the last step in the air)
+    if (wasAirborne && !this.isAirborne()) {
+      this.applyFallDamage(-this.verticalVelocity);
+      
+      // The platform landed on carries the player from now on; momentum kept from leaving
+      // one would move them along it a second time
+      if (this.groundCollider?.parent()?.isKinematic()) {
+        this.slideVelocity.set(0, 0, 0);
+      }
+    }
+    
+    // Sliding off a ledge carries the downhill speed into the fall
+    if (wasSliding && this.movementState === MovementState.FALLING) {
+      this.verticalVelocity += this.slideVelocity.y;
+      this.slideVelocity.y = 0;
+    }
+    
+    // Update jump ability for coyote time (no jumping off slopes that are too steep)
+    this.canJump = isStableGround || (!this.onSteepSurface && now - this.lastGroundedTime < this.coyoteTime);
+  }
+  
+  // Landing faster than fallDamageSpeed hurts, in proportion to the excess speed
+  applyFallDamage(landingSpeed: number) {
+    if (!this.health || landingSpeed <= this.fallDamageSpeed) return;
+    
+    const position = this.interpolator.currentPosition.clone();
+    this.health.damage((landingSpeed - this.fallDamageSpeed) * this.fallDamagePerSpeed, 'fall', position);
+  }
+  
+  // Health that fall damage is taken from; the player can't move or shoot while it is empty
+  setHealth(health: Health | null) {
+    this.health = health;
   }
   
-  // Get the slope angle (approximation)
+  isDead(): boolean {
+    return this.health?.isDead() ?? false;
+  }
+  
+  // Whether the capsule overlaps a kill volume where it stands now
+  isInKillVolume(): boolean {
+    let inside = false;
+    this.physics.world.intersectionsWithShape(
+      this.collider.translation(),
+      this.collider.rotation(),
+      this.collider.shape,
+      () => {
+        inside = true;
+        return false;
+      },
+      undefined,
+      undefined,
+      this.collider,
+      undefined,
+      collider => this.physics.entities.getByCollider(collider)?.components.killVolume !== undefined
+    );
+    return inside;
+  }
+  
+  // Determine the normal of the surface under the player
+  // Returns true if ground was found close enough below the capsule
+  updateGroundNormal(): boolean {
+    let bestNormalY = 0;
+    this.groundCollider = null;
+    
+    // Prefer the collisions computed during the last character controller movement:
+    // the most upward-facing normal is the surface we are standing on
+    const collisionCount = this.characterController.numComputedCollisions();
+    for (let i = 0; i < collisionCount; i++) {
+      const collision = this.characterController.computedCollision(i);
+      if (!collision) continue;
+      
+      const normal = collision.normal1;
+      if (normal.y > bestNormalY) {
+        bestNormalY = normal.y;
+        this.groundNormal.set(normal.x, normal.y, normal.z);
+        this.groundCollider = collision.collider;
+      }
+    }
+    
+    if (bestNormalY > 0) {
+      this.groundNormal.normalize();
+      return true;
+    }
+    
+    // Otherwise probe below the bottom of the capsule
+    const center = this.collider.translation();
+    const ray = new RAPIER.Ray(
+      { x: center.x, y: center.y - this.collider.halfHeight(), z: center.z },
+      { x: 0, y: -1, z: 0 }
+    );
+    const hit = this.physics.world.castRayAndGetNormal(
+      ray,
+      this.collider.radius() + this.groundProbeDistance,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      this.collider
+    );
+    
+    if (hit && hit.normal.y > 0) {
+      this.groundNormal.set(hit.normal.x, hit.normal.y, hit.normal.z).normalize();
+      this.groundCollider = hit.collider;
+      return true;
+    }
+    
+    this.groundNormal.set(0, 1, 0);
+    return false;
+  }
+  
+  // Move the player along with the kinematic body underfoot, from its current pose to the
+  // one queued for the coming step, and turn the view with it. Returns the movement,
+  // corrected for obstacles other than the platform itself
+  carryWithPlatform(deltaTime: number): THREE.Vector3 {
+    const carried = new THREE.Vector3();
+    const platform = this.isAirborne() ? null : this.groundCollider?.parent() ?? null;
+    if (!platform || !platform.isKinematic() || deltaTime <= 0) {
+      this.platformVelocity.set(0, 0, 0);
+      return carried;
+    }
+    
+    const current = platform.translation();
+    const next = platform.nextTranslation();
+    const rotation = platform.rotation();
+    const nextRotation = platform.nextRotation();
+    const turn = new THREE.Quaternion(nextRotation.x, nextRotation.y, nextRotation.z, nextRotation.w)
+      .multiply(new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w).invert());
+    
+    // Where the point we stand on ends up
+    const position = this.rigidBody.translation();
+    carried.set(position.x - current.x, position.y - current.y, position.z - current.z)
+      .applyQuaternion(turn)
+      .add(next)
+      .sub(position);
+    this.platformVelocity.copy(carried).divideScalar(deltaTime);
+    
+    // Yaw part of the platform's turn (both signs of the quaternion describe the same turn)
+    const sign = turn.w < 0 ? -1 : 1;
+    this.yawObject.rotation.y += 2 * Math.atan2(turn.y * sign, turn.w * sign);
+    
+    // The platform moves too, so only other obstacles can get in the way
+    this.characterController.computeColliderMovement(
+      this.collider,
+      carried,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      collider => collider.parent()?.handle !== platform.handle
+    );
+    const movement = this.characterController.computedMovement();
+    return carried.set(movement.x, movement.y, movement.z);
+  }
+  
+  // Keep the momentum of the platform underfoot when leaving it, like sliding off a ledge
+  leavePlatform() {
+    this.slideVelocity.x += this.platformVelocity.x;
+    this.slideVelocity.z += this.platformVelocity.z;
+    this.verticalVelocity += this.platformVelocity.y;
+    this.platformVelocity.set(0, 0, 0);
+  }
+  
+  // Get the slope angle (radians) of the surface under the player
   getSlopeAngle(): number {
-    // Simple approximation using the up vector and ground normal
-    // For a more accurate implementation, we would need to query collision normals
-    return 0; // Default to flat ground - can be improved with proper normal detection
+    const cosAngle = THREE.MathUtils.clamp(this.groundNormal.y, -1, 1);
+    return Math.acos(cosAngle);
+  }
+  
+  // Integrate the momentum gained from sliding down steep slopes
+  updateSlideVelocity(deltaTime: number) {
+    if (this.movementState === MovementState.SLIDING) {
+      // Project gravity onto the slope plane to get the downhill direction
+      const n = this.groundNormal;
+      const downhill = new THREE.Vector3(n.x * n.y, n.y * n.y - 1, n.z * n.y);
+      
+      // Remove any velocity pushing into the surface before accelerating downhill
+      const intoSurface = this.slideVelocity.dot(n);
+      if (intoSurface < 0) {
+        this.slideVelocity.addScaledVector(n, -intoSurface);
+      }
+      
+      this.slideVelocity.addScaledVector(downhill, this.gravityForce * (1 - this.slidingFriction) * deltaTime);
+      
+      if (this.slideVelocity.length() > this.maxSlideSpeed) {
+        this.slideVelocity.setLength(this.maxSlideSpeed);
+      }
+    } else if (!this.isAirborne()) {
+      // Bleed off slide momentum on walkable ground
+      this.slideVelocity.y = 0;
+      const speed = this.slideVelocity.length();
+      const newSpeed = Math.max(0, speed - this.groundDeceleration * deltaTime);
+      if (newSpeed === 0) {
+        this.slideVelocity.set(0, 0, 0);
+      } else {
+        this.slideVelocity.multiplyScalar(newSpeed / speed);
+      }
+    }
+    // In the air the horizontal slide momentum is preserved
+  }
+  
+  // Accelerate the horizontal velocity towards the input direction at full move speed,
+  // or decelerate towards zero when there is no input
+  applyAcceleration(wishDirection: THREE.Vector2, controlFactor: number, deltaTime: number) {
+    const hasInput = wishDirection.lengthSq() > 0;
+    const target = wishDirection.clone().multiplyScalar(this.currentMaxSpeed);
+    const rate = (hasInput ? this.getAcceleration() : this.getDeceleration()) * controlFactor;
+    
+    // Rates are expressed relative to move speed (rate 10 reaches full speed in 0.1 s)
+    const maxChange = rate * this.moveSpeed * deltaTime;
+    const difference = target.sub(this.horizontalVelocity);
+    const distance = difference.length();
+    
+    if (distance <= maxChange || distance === 0) {
+      this.horizontalVelocity.add(difference);
+    } else {
+      this.horizontalVelocity.addScaledVector(difference, maxChange / distance);
+    }
+  }
+  
+  // Quake-style air acceleration: only the speed along the wish direction is capped,
+  // which allows gaining speed by strafing and turning in the air
+  applyQuakeAirAcceleration(wishDirection: THREE.Vector2, deltaTime: number) {
+    if (wishDirection.lengthSq() === 0) {
+      // No input: apply the gentle air deceleration
+      this.applyAcceleration(wishDirection, 1.0, deltaTime);
+      return;
+    }
+    
+    // A partly deflected stick asks for proportionally less speed
+    const direction = wishDirection.clone().normalize();
+    const wishSpeed = Math.min(this.currentMaxSpeed, this.airSpeedCap) * Math.min(wishDirection.length(), 1);
+    const currentSpeed = this.horizontalVelocity.dot(direction);
+    const addSpeed = wishSpeed - currentSpeed;
+    if (addSpeed <= 0) return;
+    
+    const accelSpeed = Math.min(this.airAcceleration * this.moveSpeed * deltaTime, addSpeed);
+    this.horizontalVelocity.addScaledVector(direction, accelSpeed);
+  }
+  
+  // Whether the player is currently in the air
+  isAirborne(): boolean {
+    return this.movementState === MovementState.JUMPING || 
+           this.movementState === MovementState.FALLING;
+  }
+  
+  // Whether any movement key is held
+  hasMoveInput(): boolean {
+    return this.moveForward || this.moveBackward || this.moveLeft || this.moveRight;
+  }
+  
+  // Pick the grounded movement state for the current stance and input
+  getGroundedState(): MovementState {
+    switch (this.stance) {
+      case Stance.PRONE:
+        return MovementState.PRONE;
+      case Stance.CROUCHING:
+        return this.hasMoveInput() ? MovementState.CROUCH_WALKING : MovementState.CROUCHING;
+      default:
+        return this.isSprinting() ? MovementState.SPRINTING : MovementState.GROUNDED;
+    }
+  }
+  
+  // Sprinting requires standing, moving forward and stamina left
+  isSprinting(): boolean {
+    return this.sprintRequested && 
+           this.stance === Stance.STANDING && 
+           this.moveForward && 
+           !this.staminaExhausted;
+  }
+  
+  // Top speed for the current stance
+  getStanceSpeed(): number {
+    switch (this.stance) {
+      case Stance.PRONE:
+        return this.moveSpeed * this.proneSpeedMultiplier;
+      case Stance.CROUCHING:
+        return this.moveSpeed * this.crouchSpeedMultiplier;
+      default:
+        return this.isSprinting() ? this.moveSpeed * this.sprintSpeedMultiplier : this.moveSpeed;
+    }
+  }
+  
+  // Drain stamina while sprinting on the ground and regenerate it after a short delay
+  updateStamina(deltaTime: number) {
+    const now = simulationClock.now();
+    
+    if (this.isSprinting() && !this.isAirborne() && this.hasMoveInput()) {
+      this.stamina = Math.max(0, this.stamina - this.staminaDrainRate * deltaTime);
+      this.lastSprintTime = now;
+      
+      if (this.stamina === 0) {
+        this.staminaExhausted = true;
+      }
+    } else if (now - this.lastSprintTime > this.staminaRegenDelay) {
+      this.stamina = Math.min(this.maxStamina, this.stamina + this.staminaRegenRate * deltaTime);
+    }
+    
+    if (this.staminaExhausted && this.stamina >= this.minSprintStamina) {
+      this.staminaExhausted = false;
+    }
+  }
+  
+  // Switch to the requested stance when there is room for it and ease the camera to its eye height
+  updateStance(deltaTime: number) {
+    let desiredStance = Stance.STANDING;
+    if (this.proneRequested) {
+      desiredStance = Stance.PRONE;
+    } else if (this.crouchRequested) {
+      desiredStance = Stance.CROUCHING;
+    }
+    
+    if (desiredStance !== this.stance) {
+      if (this.canFitStance(desiredStance)) {
+        this.setStance(desiredStance);
+      } else if (desiredStance === Stance.STANDING && this.stance === Stance.PRONE &&
+                 this.canFitStance(Stance.CROUCHING)) {
+        // Not enough room to stand up from prone, but we can at least crouch
+        this.setStance(Stance.CROUCHING);
+      }
+    }
+    
+    // Smoothly move the camera towards the eye height of the current stance
+    const targetEyeOffset = STANCE_DIMENSIONS[this.stance].eyeOffset;
+    const blend = Math.min(1, this.stanceTransitionSpeed * deltaTime);
+    this.pitchObject.position.y += (targetEyeOffset - this.pitchObject.position.y) * blend;
+  }
+  
+  // Check whether the capsule for a stance fits at the current position
+  // Shrinking always fits; growing is checked with an upward shape cast for ceilings
+  canFitStance(stance: Stance): boolean {
+    const currentHalfHeight = this.collider.halfHeight();
+    const targetHalfHeight = STANCE_DIMENSIONS[stance].halfHeight;
+    if (targetHalfHeight <= currentHalfHeight) return true;
+    
+    // The feet stay in place, so the top of the capsule rises by twice the half height difference
+    const heightGain = (targetHalfHeight - currentHalfHeight) * 2;
+    const hit = this.physics.world.castShape(
+      this.collider.translation(),
+      this.collider.rotation(),
+      { x: 0, y: 1, z: 0 },
+      new RAPIER.Capsule(currentHalfHeight, CAPSULE_RADIUS),
+      0,
+      heightGain,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      this.collider
+    );
+    
+    return hit === null;
+  }
+  
+  // Resize the capsule for a stance, keeping its bottom at the same height
+  setStance(stance: Stance) {
+    const halfHeight = STANCE_DIMENSIONS[stance].halfHeight;
+    const standingHalfHeight = STANCE_DIMENSIONS[Stance.STANDING].halfHeight;
+    
+    this.collider.setHalfHeight(halfHeight);
+    this.collider.setTranslationWrtParent({ x: 0, y: halfHeight - standingHalfHeight, z: 0 });
+    this.stance = stance;
+  }
+  
+  // Apply movement tuning values (e.g. loaded from a config file)
+  applyMovementSettings(settings: Partial<MovementSettings>) {
+    Object.assign(this, settings);
+    this.characterController.setMaxSlopeClimbAngle(this.maxSlideAngle);
   }
   
   // Calculate acceleration based on current state
   getAcceleration(): number {
     switch (this.movementState) {
       case MovementState.GROUNDED:
+      case MovementState.SPRINTING:
+      case MovementState.CROUCHING:
+      case MovementState.CROUCH_WALKING:
+      case MovementState.PRONE:
         return this.groundAcceleration;
       case MovementState.JUMPING:
       case MovementState.FALLING:
@@ -520,6 +1227,10 @@ export class FPSController {
   getDeceleration(): number {
     switch (this.movementState) {
       case MovementState.GROUNDED:
+      case MovementState.SPRINTING:
+      case MovementState.CROUCHING:
+      case MovementState.CROUCH_WALKING:
+      case MovementState.PRONE:
         return this.groundDeceleration;
       case MovementState.JUMPING:
       case MovementState.FALLING:
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { EntityRegistry } from '../entities/EntityRegistry';
+
+export interface HitscanOptions {
+  range?: number; // Maximum ray length in meters
+  impulse?: number; // Impulse applied to dynamic bodies at the hit point
+  tracerColor?: number;
+  tracerDuration?: number; // ms the tracer line stays visible
+}
+
+// Result of a hitscan ray that struck a collider
+export interface HitResult {
+  collider: RAPIER.Collider;
+  body: RAPIER.RigidBody | null;
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  distance: number;
+  direction: THREE.Vector3;
+  impulse: THREE.Vector3; // Impulse delivered at the hit point
+}
+
+interface Tracer {
+  line: THREE.Line;
+  age: number;
+  duration: number;
+}
+
+// Instant-hit shots resolved with Rapier ray casts
+export class HitscanManager {
+  private scene: THREE.Scene;
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private hitListeners: ((hit: HitResult) => void)[] = [];
+  private tracers: Tracer[] = [];
+  
+  constructor(
+    scene: THREE.Scene,
+    physics: { world: RAPIER.World; entities: EntityRegistry }
+  ) {
+    this.scene = scene;
+    this.physics = physics;
+  }
+  
+  // Register a listener for hits; returns a function that removes it
+  onHit(listener: (hit: HitResult) => void): () => void {
+    this.hitListeners.push(listener);
+    return () => {
+      this.hitListeners = this.hitListeners.filter(l => l !== listener);
+    };
+  }
+  
+  // Cast a shot from origin along direction, ignoring the shooter's own collider
+  fire(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    options: HitscanOptions = {},
+    excludeCollider?: RAPIER.Collider
+  ): HitResult | null {
+    const range = options.range ?? 200;
+    const impulse = options.impulse ?? 2;
+    
+    const ray = new RAPIER.Ray(origin, direction);
+    const intersection = this.physics.world.castRayAndGetNormal(
+      ray,
+      range,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      excludeCollider
+    );
+    
+    let hit: HitResult | null = null;
+    
+    if (intersection) {
+      const point = new THREE.Vector3().copy(origin).addScaledVector(direction, intersection.timeOfImpact);
+      const body = intersection.collider.parent();
+      const impulseVector = direction.clone().multiplyScalar(impulse);
+      
+      hit = {
+        collider: intersection.collider,
+        body,
+        point,
+        normal: new THREE.Vector3(intersection.normal.x, intersection.normal.y, intersection.normal.z),
+        distance: intersection.timeOfImpact,
+        direction: direction.clone(),
+        impulse: impulseVector
+      };
+      
+      // Push dynamic bodies at the point of impact
+      if (body && body.bodyType() === RAPIER.RigidBodyType.Dynamic) {
+        body.applyImpulseAtPoint(impulseVector, point, true);
+      }
+      
+      this.hitListeners.forEach(listener => listener(hit!));
+    }
+    
+    // Draw a tracer to the hit point (or to max range on a miss)
+    const end = hit ? hit.point : origin.clone().addScaledVector(direction, range);
+    this.spawnTracer(origin, end, options);
+    
+    return hit;
+  }
+  
+  // Fade out and remove tracers
+  update(deltaTime: number) {
+    this.tracers = this.tracers.filter(tracer => {
+      tracer.age += deltaTime * 1000;
+      const material = tracer.line.material as THREE.LineBasicMaterial;
+      material.opacity = Math.max(0, 1 - tracer.age / tracer.duration);
+      
+      if (tracer.age >= tracer.duration) {
+        this.scene.remove(tracer.line);
+        tracer.line.geometry.dispose();
+        material.dispose();
+        return false;
+      }
+      return true;
+    });
+  }
+  
+  private spawnTracer(start: THREE.Vector3, end: THREE.Vector3, options: HitscanOptions) {
+    const material = new THREE.LineBasicMaterial({
+      color: options.tracerColor ?? 0xffffaa,
+      transparent: true,
+      opacity: 1
+    });
+    const geometry = new THREE.BufferGeometry().setFromPoints([start.clone(), end.clone()]);
+    const line = new THREE.Line(geometry, material);
+    
+    this.scene.add(line);
+    this.tracers.push({ line, age: 0, duration: options.tracerDuration ?? 80 });
+  }
+}
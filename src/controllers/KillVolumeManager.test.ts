@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { HeadlessSimulation } from '../headless/HeadlessSimulation';
+import { useHeadlessSimulation } from '../test/headless';
+import { createGround } from '../objects/Ground';
+import { createCube } from '../objects/Cube';
+import { createKillVolume } from '../objects/KillVolume';
+import { Health } from '../components/Health';
+
+const createSimulation = useHeadlessSimulation();
+let sim: HeadlessSimulation;
+
+describe('KillVolumeManager', () => {
+  it('brings a falling player back to the last place they stood on stable ground', async () => {
+    sim = await createSimulation({ spawn: { x: 0, y: 2, z: 0 } });
+    const ground = createGround(sim.physics);
+    sim.add(ground);
+    createKillVolume(sim.physics, { x: 0, y: -5, z: 0 }, { shape: 'plane' });
+
+    sim.runFor(1);
+    const safePosition = sim.fpsController.safePosition.clone();
+    expect(safePosition.y).toBeCloseTo(sim.fpsController.rigidBody.translation().y);
+    expect(safePosition.y).toBeLessThan(2);
+
+    // Pull the floor out from under them
+    sim.physics.entities.despawn(sim.physics.world, sim.physics.entities.getByObject(ground)!);
+    let lowest = Infinity;
+    const steps = sim.stepUntil(() => {
+      const y = sim.fpsController.rigidBody.translation().y;
+      lowest = Math.min(lowest, y);
+      return y > lowest + 1;
+    }, 300);
+
+    expect(steps).toBeGreaterThan(0);
+    const position = sim.fpsController.rigidBody.translation();
+    expect(position.x).toBeCloseTo(safePosition.x);
+    expect(position.y).toBeCloseTo(safePosition.y);
+    expect(position.z).toBeCloseTo(safePosition.z);
+    expect(sim.playerHealth.current).toBe(sim.playerHealth.max);
+  });
+
+  it('keeps the last safe position from outside while the player is inside a volume', async () => {
+    sim = await createSimulation({ spawn: { x: 0, y: 2, z: 0 } });
+    sim.add(createGround(sim.physics));
+    sim.runFor(1);
+
+    // A volume appears around the player as they walk right, then they keep walking inside it
+    sim.press('KeyD');
+    sim.stepUntil(() => sim.fpsController.rigidBody.translation().x > 2, 120);
+    const x = sim.fpsController.rigidBody.translation().x;
+    createKillVolume(sim.physics, { x: x + 2, y: 1, z: 0 }, { size: { x: 6, y: 2, z: 4 } });
+    sim.runFor(0.5);
+
+    expect(sim.fpsController.rigidBody.translation().x).toBeGreaterThan(x + 0.5);
+    expect(sim.fpsController.safePosition.x).toBeLessThanOrEqual(x + 0.01);
+  });
+
+  it('kills players in a destroy volume, or brings them back while they are invulnerable', async () => {
+    sim = await createSimulation({ spawn: { x: 0, y: 2, z: 0 } });
+    const ground = createGround(sim.physics);
+    sim.add(ground);
+    createKillVolume(sim.physics, { x: 0, y: -5, z: 0 }, { shape: 'plane', policies: { player: 'destroy' } });
+    sim.runFor(1);
+    const safePosition = sim.fpsController.safePosition.clone();
+    sim.physics.entities.despawn(sim.physics.world, sim.physics.entities.getByObject(ground)!);
+
+    // Just respawned, so the kill can't land: back to the last safe spot instead of falling forever
+    sim.playerHealth.revive(5000);
+    let lowest = Infinity;
+    const steps = sim.stepUntil(() => {
+      const y = sim.fpsController.rigidBody.translation().y;
+      lowest = Math.min(lowest, y);
+      return y > lowest + 1;
+    }, 300);
+    expect(steps).toBeGreaterThan(0);
+    expect(sim.fpsController.rigidBody.translation().y).toBeCloseTo(safePosition.y);
+    expect(sim.playerHealth.isDead()).toBe(false);
+
+    sim.playerHealth.revive();
+    sim.stepUntil(() => sim.playerHealth.isDead(), 300);
+    expect(sim.playerHealth.isDead()).toBe(true);
+  });
+
+  it('moves dynamic bodies to the respawn area, or damages them and sends them back', async () => {
+    sim = await createSimulation({ spawn: { x: 0, y: 2, z: 20 } });
+    sim.add(createGround(sim.physics));
+    createKillVolume(sim.physics, { x: -5, y: 1, z: 0 }, {
+      size: { x: 2, y: 2, z: 2 },
+      respawnArea: { min: { x: 5, y: 3, z: 5 }, max: { x: 6, y: 3, z: 6 } }
+    });
+    createKillVolume(sim.physics, { x: 5, y: 1, z: -5 }, {
+      size: { x: 2, y: 2, z: 2 },
+      policies: { dynamic: 'damage' },
+      damage: 30
+    });
+
+    const cube = createCube(sim.physics, { x: -5, y: 5, z: 0 });
+    sim.add(cube.mesh);
+    sim.stepUntil(() => cube.rigidBody.translation().x > 0, 120);
+    expect(cube.rigidBody.translation().x).toBeGreaterThanOrEqual(5);
+    expect(cube.rigidBody.translation().z).toBeGreaterThanOrEqual(5);
+
+    const health = new Health();
+    const target = createCube(sim.physics, { x: 5, y: 5, z: -5 });
+    sim.add(target.mesh);
+    sim.damageManager.attach(target.rigidBody, health);
+    sim.stepUntil(() => health.current < health.max, 120);
+
+    expect(health.current).toBe(health.max - 30);
+    expect(target.rigidBody.translation().y).toBeCloseTo(5);
+  });
+
+  it('destroys projectiles that fall into a kill plane without counting it as an impact', async () => {
+    sim = await createSimulation();
+    createKillVolume(sim.physics, { x: 0, y: -2, z: 0 }, { shape: 'plane' });
+
+    let impacts = 0;
+    sim.projectileManager.onImpact(() => impacts++);
+    sim.projectileManager.shoot(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, -1, 0), { speed: 20 });
+
+    const steps = sim.stepUntil(() => sim.projectileManager.getProjectileCount() === 0, 60);
+    expect(steps).toBeGreaterThan(0);
+    expect(impacts).toBe(0);
+  });
+});
@@ -0,0 +1,164 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { FPSController } from './FPSController';
+import { DamageManager } from './DamageManager';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+import { KillVolume, KillVolumePolicy } from '../objects/KillVolume';
+import { CollisionEvents } from '../utils/CollisionEvents';
+import { random } from '../utils/Random';
+
+// Something that entered a kill volume, waiting to be dealt with after the step
+interface Entry {
+  volume: KillVolume;
+  collider: RAPIER.Collider;
+}
+
+// Applies kill volume policies to the player, projectiles and other dynamic bodies that
+// enter them. Kill volumes are picked up as they spawn, so create this before the level
+export class KillVolumeManager {
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private collisionEvents: CollisionEvents;
+  private fpsController: FPSController;
+  private damageManager: DamageManager;
+  private entries: Entry[] = [];
+
+  constructor(
+    physics: { world: RAPIER.World; entities: EntityRegistry },
+    collisionEvents: CollisionEvents,
+    fpsController: FPSController,
+    damageManager: DamageManager
+  ) {
+    this.physics = physics;
+    this.collisionEvents = collisionEvents;
+    this.fpsController = fpsController;
+    this.damageManager = damageManager;
+
+    physics.entities.onSpawn(entity => {
+      const volume = entity.components.killVolume;
+      if (!volume) return;
+
+      entity.colliders.forEach(collider => {
+        this.collisionEvents.register(collider, (other, started) => {
+          if (started) {
+            this.entries.push({ volume, collider: other });
+          }
+        });
+      });
+    });
+    physics.entities.onDespawn(entity => {
+      if (entity.components.killVolume) {
+        entity.colliders.forEach(collider => this.collisionEvents.unregister(collider));
+      }
+    });
+  }
+
+  // Deal with everything that entered a kill volume during the last step; call after
+  // stepping the world (bodies can't be moved or removed while events are dispatched)
+  update() {
+    const entries = this.entries;
+    this.entries = [];
+
+    // A body with several colliders is only handled once
+    const handled = new Set<RAPIER.RigidBodyHandle>();
+    entries.forEach(({ volume, collider }) => {
+      const body = collider.parent();
+      if (!body || handled.has(body.handle)) return;
+      handled.add(body.handle);
+
+      if (body.handle === this.fpsController.rigidBody.handle) {
+        this.applyToPlayer(volume, volume.policies.player);
+        return;
+      }
+
+      const entity = this.physics.entities.getByBody(body);
+      if (!entity) return;
+      if (entity.components.projectile) {
+        this.applyToEntity(entity, volume, volume.policies.projectile);
+      } else if (body.isDynamic()) {
+        this.applyToEntity(entity, volume, volume.policies.dynamic);
+      }
+    });
+  }
+
+  // Drop anything that has entered a volume but not been dealt with (e.g. when a level is unloaded)
+  clear() {
+    this.entries = [];
+  }
+
+  private applyToPlayer(volume: KillVolume, policy: KillVolumePolicy) {
+    const health = this.damageManager.getHealth(this.fpsController.rigidBody);
+
+    switch (policy) {
+      case 'destroy':
+        // Players who can't be killed right now (invulnerable after a respawn, or already
+        // dead) are brought back like with respawnAtOrigin rather than left falling
+        if (health && !health.isDead()) {
+          health.damage(health.current, 'world');
+          if (health.isDead()) return;
+        }
+        break;
+      case 'damage':
+        health?.damage(volume.damage, 'world');
+        break;
+      case 'respawnInArea':
+        this.fpsController.teleport(getRandomPoint(volume));
+        return;
+    }
+
+    // The safe position changes when teleporting there, so pass a copy
+    this.fpsController.teleport(this.fpsController.safePosition.clone());
+  }
+
+  private applyToEntity(entity: Entity, volume: KillVolume, policy: KillVolumePolicy) {
+    switch (policy) {
+      case 'destroy':
+        this.destroy(entity);
+        return;
+      case 'damage':
+        this.damageManager.getHealth(entity.rigidBody)?.damage(volume.damage, 'world');
+        moveBody(entity, entity.origin);
+        return;
+      case 'respawnAtOrigin':
+        moveBody(entity, entity.origin);
+        return;
+      case 'respawnInArea':
+        moveBody(entity, getRandomPoint(volume));
+        return;
+    }
+  }
+
+  // Projectiles are removed by their manager, destructible pieces by their model
+  private destroy(entity: Entity) {
+    const { projectile, destructible } = entity.components;
+    if (projectile) {
+      projectile.destroyed = true;
+      return;
+    }
+
+    const piece = destructible?.getPiece(entity.colliders[0]);
+    if (destructible && piece) {
+      destructible.removePiece(piece);
+    } else {
+      this.physics.entities.despawn(this.physics.world, entity);
+    }
+  }
+}
+
+// Put a body back at rest at the given position
+function moveBody(entity: Entity, position: THREE.Vector3) {
+  const body = entity.rigidBody;
+  body.setTranslation(position, true);
+  body.setLinvel({ x: 0, y: 0, z: 0 }, true);
+  body.setAngvel({ x: 0, y: 0, z: 0 }, true);
+  entity.interpolator.reset();
+}
+
+// Uniformly distributed inside the volume's respawn area
+function getRandomPoint(volume: KillVolume): THREE.Vector3 {
+  const { min, max } = volume.respawnArea;
+  return new THREE.Vector3(
+    random.range(min.x, max.x),
+    random.range(min.y, max.y),
+    random.range(min.z, max.z)
+  );
+}
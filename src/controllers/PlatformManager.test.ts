@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessSimulation } from '../headless/HeadlessSimulation';
+import { useHeadlessSimulation } from '../test/headless';
+import { createMovingPlatform, PlatformMotion } from '../objects/MovingPlatform';
+
+const createSimulation = useHeadlessSimulation();
+let sim: HeadlessSimulation;
+
+// A platform at the origin with the player standing on it (after a second to land)
+async function createRide(motion: PlatformMotion, spin: number = 0) {
+  sim = await createSimulation({ spawn: { x: 0, y: 1.5, z: 0 } });
+  const platform = createMovingPlatform(sim.physics, { x: 0, y: 0, z: 0 }, motion, { spin });
+  sim.add(platform.mesh);
+  return platform;
+}
+
+describe('PlatformManager', () => {
+  it('moves platforms along their waypoints, waiting at either end', async () => {
+    const { rigidBody } = await createRide({
+      type: 'waypoints',
+      points: [{ x: 0, y: 0, z: 0 }, { x: 4, y: 0, z: 0 }],
+      speed: 2,
+      wait: 1
+    });
+
+    sim.runFor(0.5);
+    expect(rigidBody.translation().x).toBeCloseTo(0);
+    sim.runFor(1.5);
+    expect(rigidBody.translation().x).toBeCloseTo(2);
+    sim.runFor(1.5);
+    expect(rigidBody.translation().x).toBeCloseTo(4);
+    sim.runFor(2);
+    expect(rigidBody.translation().x).toBeCloseTo(1);
+  });
+
+  it('carries the player along and turns their view with the platform', async () => {
+    const { rigidBody } = await createRide({
+      type: 'waypoints',
+      points: [{ x: 0, y: 0, z: 0 }, { x: 10, y: 4, z: 0 }],
+      speed: 2,
+      wait: 1
+    }, 45);
+
+    sim.runFor(1);
+    const yaw = sim.fpsController.yawObject.rotation.y;
+    sim.runFor(2);
+
+    const platform = rigidBody.translation();
+    const player = sim.fpsController.rigidBody.translation();
+    expect(platform.x).toBeGreaterThan(3);
+    expect(player.x).toBeCloseTo(platform.x, 1);
+    expect(player.z).toBeCloseTo(platform.z, 1);
+    expect(player.y - platform.y).toBeCloseTo(1.5, 1);
+    expect(sim.fpsController.isAirborne()).toBe(false);
+    expect(sim.fpsController.yawObject.rotation.y - yaw).toBeCloseTo(Math.PI / 2, 2);
+  });
+
+  it('keeps the platform momentum when jumping off', async () => {
+    await createRide({
+      type: 'waypoints',
+      points: [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 40 }],
+      speed: 4,
+      wait: 1
+    });
+    sim.runFor(2);
+
+    sim.press('Space');
+    sim.step();
+    sim.release('Space');
+    const start = sim.fpsController.rigidBody.translation().z;
+    sim.runFor(0.5);
+
+    // Without input the player's own speed would drop off quickly in the air
+    expect(sim.fpsController.isAirborne()).toBe(true);
+    expect(sim.fpsController.rigidBody.translation().z - start).toBeCloseTo(2, 1);
+  });
+
+  it('stays put on the platform after jumping and landing on it again', async () => {
+    const { rigidBody } = await createRide({
+      type: 'waypoints',
+      points: [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 40 }],
+      speed: 4,
+      wait: 1
+    });
+    sim.runFor(2);
+
+    const offset = () => sim.fpsController.rigidBody.translation().z - rigidBody.translation().z;
+    const before = offset();
+    sim.press('Space');
+    sim.step();
+    sim.release('Space');
+    sim.stepUntil(() => !sim.fpsController.isAirborne(), 120);
+    sim.runFor(1);
+
+    // Rapier's character controller nudges the player along when first touching the moving
+    // platform, but the momentum from jumping off mustn't carry them any further
+    expect(Math.abs(offset() - before)).toBeLessThan(0.25);
+  });
+});
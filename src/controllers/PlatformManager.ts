@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+import { simulationClock } from '../utils/SimulationClock';
+
+// Drives moving platforms along their motion. Platforms are picked up as they spawn,
+// so create this before the level
+export class PlatformManager {
+  private platforms: Set<Entity> = new Set();
+  private position = new THREE.Vector3();
+  private rotation = new THREE.Quaternion();
+
+  constructor(physics: { world: RAPIER.World; entities: EntityRegistry }) {
+    physics.entities.onSpawn(entity => {
+      const platform = entity.components.platform;
+      if (!platform) return;
+
+      // Start where the platform is at this time rather than sliding there on the first step
+      platform.getPose(simulationClock.now() / 1000, this.position, this.rotation);
+      entity.rigidBody.setTranslation(this.position, true);
+      entity.rigidBody.setRotation(this.rotation, true);
+      entity.interpolator.reset();
+      this.platforms.add(entity);
+    });
+    physics.entities.onDespawn(entity => this.platforms.delete(entity));
+  }
+
+  // Queue each platform's pose at the end of the coming step; call before the player
+  // updates (it rides along by the difference) and before stepping the world
+  update(deltaTime: number) {
+    const time = simulationClock.now() / 1000 + deltaTime;
+    this.platforms.forEach(entity => {
+      entity.components.platform!.getPose(time, this.position, this.rotation);
+      entity.rigidBody.setNextKinematicTranslation(this.position);
+      entity.rigidBody.setNextKinematicRotation(this.rotation);
+    });
+  }
+}
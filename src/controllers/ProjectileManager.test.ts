@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { HeadlessSimulation } from '../headless/HeadlessSimulation';
+import { useHeadlessSimulation } from '../test/headless';
+import { createGround } from '../objects/Ground';
+import { createCube } from '../objects/Cube';
+import { createKillVolume } from '../objects/KillVolume';
+
+const createSimulation = useHeadlessSimulation();
+let sim: HeadlessSimulation;
+
+// Empty world, on a large ground plane unless asked otherwise
+async function createWorld(withGround: boolean = true) {
+  sim = await createSimulation();
+  if (withGround) {
+    sim.add(createGround(sim.physics));
+  }
+  return sim;
+}
+
+describe('ProjectileManager', () => {
+  it('brings a 40 m/s projectile to rest within its lifespan, then removes it', async () => {
+    await createWorld();
+    const bodies = sim.physics.world.bodies.len();
+
+    const projectile = sim.projectileManager.shoot(
+      new THREE.Vector3(5, 3, 0),
+      new THREE.Vector3(0, -1, 0),
+      { speed: 40, lifespan: 5000 }
+    );
+    expect(sim.physics.world.bodies.len()).toBe(bodies + 1);
+
+    sim.runFor(4);
+    expect(sim.projectileManager.getProjectileCount()).toBe(1);
+    expect(projectile.velocity.length()).toBeLessThan(0.01);
+
+    sim.runFor(1.1);
+    expect(sim.projectileManager.getProjectileCount()).toBe(0);
+    expect(sim.physics.world.bodies.len()).toBe(bodies);
+    expect(sim.physics.entities.getByObject(projectile.mesh)).toBeUndefined();
+    expect(sim.scene.children).not.toContain(projectile.mesh);
+  });
+
+  it('removes projectiles that are destroyed on impact', async () => {
+    await createWorld();
+    const cube = createCube(sim.physics, { x: 0, y: 1, z: -5 }, 1, 0x888888, {}, 'fixed');
+    sim.add(cube.mesh);
+
+    const impacts: THREE.Vector3[] = [];
+    sim.projectileManager.onImpact(impact => impacts.push(impact.point));
+    sim.projectileManager.shoot(
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3(0, 0, -1),
+      { speed: 40, destroyOnImpact: true }
+    );
+
+    const steps = sim.stepUntil(() => sim.projectileManager.getProjectileCount() === 0, 60);
+    expect(steps).toBeGreaterThan(0);
+    expect(impacts).toHaveLength(1);
+    expect(impacts[0].z).toBeCloseTo(-4.5, 0);
+  });
+
+  it('removes projectiles that fall out of the world', async () => {
+    await createWorld(false);
+    createKillVolume(sim.physics, { x: 0, y: -20, z: 0 }, { shape: 'plane' });
+
+    sim.projectileManager.shoot(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, -1, 0), { speed: 40 });
+    sim.runFor(0.45);
+    expect(sim.projectileManager.getProjectileCount()).toBe(1);
+
+    // Well within the default 5 s lifespan
+    sim.runFor(0.2);
+    expect(sim.projectileManager.getProjectileCount()).toBe(0);
+  });
+
+  it('keeps passing through a pierced collider after its state is restored', async () => {
+    await createWorld(false);
+    const wall = createCube(sim.physics, { x: 0, y: 0, z: -5 }, 2, 0x888888, {}, 'fixed');
+    sim.add(wall.mesh);
+
+    const impacts: boolean[] = [];
+    sim.projectileManager.onImpact(impact => impacts.push(impact.pierced));
+    const shot = sim.projectileManager.shoot(
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(0, 0, -1),
+      { speed: 20, pierceCount: 1 }
+    );
+
+    // Capture in the middle of the wall
+    const steps = sim.stepUntil(() => shot.interpolator.currentPosition.z < -4.5, 60);
+    expect(steps).toBeGreaterThan(0);
+    expect(impacts).toEqual([true]);
+    sim.projectileManager.restoreState(sim.projectileManager.captureState());
+
+    const [projectile] = sim.projectileManager.getProjectiles();
+    expect(projectile.collider.isSensor()).toBe(true);
+    sim.runFor(0.3);
+
+    expect(impacts).toEqual([true]);
+    expect(projectile.interpolator.currentPosition.z).toBeLessThan(-7);
+    expect(projectile.collider.isSensor()).toBe(false);
+  });
+
+  it('removes every projectile on clean up', async () => {
+    await createWorld();
+    for (let i = 0; i < 5; i++) {
+      sim.projectileManager.shoot(new THREE.Vector3(i, 2, 0), new THREE.Vector3(0, 0, -1));
+    }
+    const bodies = sim.physics.world.bodies.len();
+    sim.step();
+
+    sim.projectileManager.cleanUp();
+
+    expect(sim.projectileManager.getProjectileCount()).toBe(0);
+    expect(sim.physics.world.bodies.len()).toBe(bodies - 5);
+  });
+});
@@ -2,22 +2,68 @@ import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { Projectile, ProjectileOptions, createProjectile } from '../objects/Projectile';
 import { DebugVisualizer } from '../utils/DebugVisualizer';
+import { CollisionEvents } from '../utils/CollisionEvents';
+import { simulationClock } from '../utils/SimulationClock';
+import { ExplosionManager } from './ExplosionManager';
+import { EntityRegistry } from '../entities/EntityRegistry';
+
+// Information about a projectile striking a collider
+export interface ImpactEvent {
+  projectile: Projectile;
+  collider: RAPIER.Collider;
+  body: RAPIER.RigidBody | null;
+  point: THREE.Vector3;
+  normal: THREE.Vector3; // Surface normal of the struck collider, pointing towards the projectile
+  relativeVelocity: THREE.Vector3; // Projectile velocity relative to the struck body at impact
+  pierced: boolean; // Whether the projectile passed through the collider
+}
+
+// Serializable state of a projectile in flight used by snapshots
+export interface ProjectileState {
+  options: ProjectileOptions;
+  translation: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number; w: number };
+  linvel: { x: number; y: number; z: number };
+  angvel: { x: number; y: number; z: number };
+  age: number; // ms since the projectile was fired
+  bounces: number;
+  piercesRemaining: number;
+  piercedColliders: RAPIER.ColliderHandle[]; // Colliders already passed through, never hit again
+  sensor: boolean; // Still inside a pierced collider
+  impacted: boolean;
+}
 
 export class ProjectileManager {
   private projectiles: Projectile[] = [];
   private scene: THREE.Scene;
-  private physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> };
-  private lastShootTime: number = 0;
-  private shootCooldown: number = 200; // milliseconds
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
   private debugVisualizer: DebugVisualizer | null = null;
   private trajectoryLines: Map<Projectile, THREE.Line> = new Map();
+  private collisionEvents: CollisionEvents;
+  private impactListeners: ((event: ImpactEvent) => void)[] = [];
+  private explosionManager: ExplosionManager | null = null;
   
   constructor(
     scene: THREE.Scene, 
-    physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> }
+    physics: { world: RAPIER.World; entities: EntityRegistry },
+    collisionEvents: CollisionEvents
   ) {
     this.scene = scene;
     this.physics = physics;
+    this.collisionEvents = collisionEvents;
+  }
+  
+  // Set the explosion manager used to detonate explosive projectiles
+  setExplosionManager(explosionManager: ExplosionManager) {
+    this.explosionManager = explosionManager;
+  }
+  
+  // Register a listener for projectile impacts; returns a function that removes it
+  onImpact(listener: (event: ImpactEvent) => void): () => void {
+    this.impactListeners.push(listener);
+    return () => {
+      this.impactListeners = this.impactListeners.filter(l => l !== listener);
+    };
   }
   
   // Set the debug visualizer reference
@@ -26,16 +72,8 @@ export class ProjectileManager {
   }
   
   // Shoot a projectile from the given position in the given direction
+  // Fire rate limits are handled by the weapon firing it
   shoot(position: THREE.Vector3, direction: THREE.Vector3, options: ProjectileOptions = {}) {
-    const now = Date.now();
-    
-    // Apply cooldown
-    if (now - this.lastShootTime < this.shootCooldown) {
-      return;
-    }
-    
-    this.lastShootTime = now;
-    
     // Create projectile
     const projectile = createProjectile(this.physics, position, direction, options);
     
@@ -43,15 +81,32 @@ export class ProjectileManager {
     this.scene.add(projectile.mesh);
     this.projectiles.push(projectile);
     
+    // Listen for collisions
+    this.collisionEvents.register(projectile.collider, (other, started) => {
+      if (started) {
+        this.handleImpact(projectile, other);
+      }
+    });
+    
     return projectile;
   }
   
-  // Update all projectiles
+  // Update all projectiles after a physics step
   update() {
-    // Update positions from physics
+    // Record positions from physics
     this.projectiles.forEach(projectile => {
       projectile.update();
       
+      // Collide normally again once a piercing projectile has left the colliders it passed through
+      if (projectile.collider.isSensor() && !this.overlapsPiercedCollider(projectile)) {
+        projectile.collider.setSensor(false);
+      }
+      
+      // Detonate explosives (the projectile itself is removed with the others below)
+      if (!projectile.destroyed && projectile.shouldDetonate()) {
+        this.detonate(projectile);
+      }
+      
       // Update trajectory visualization if debug is active
       if (this.debugVisualizer && this.debugVisualizer.isActive()) {
         this.updateTrajectoryVisualization(projectile);
@@ -62,6 +117,102 @@ export class ProjectileManager {
     this.removeExpiredProjectiles();
   }
   
+  // Resolve a projectile hitting a collider: pierce, bounce or get destroyed
+  private handleImpact(projectile: Projectile, other: RAPIER.Collider) {
+    if (projectile.destroyed || projectile.piercedColliders.has(other.handle)) return;
+    // Sensors (e.g. kill volumes) aren't hit, they deal with projectiles themselves
+    if (other.isSensor()) return;
+    
+    const body = other.parent();
+    const position = projectile.interpolator.currentPosition;
+    
+    // Velocity before this step's contact resolution, relative to the struck body
+    const relativeVelocity = projectile.velocity.clone();
+    if (body) {
+      const bodyVelocity = body.linvel();
+      relativeVelocity.sub(new THREE.Vector3(bodyVelocity.x, bodyVelocity.y, bodyVelocity.z));
+    }
+    
+    // Fall back to the reverse travel direction if no contact manifold is available
+    const point = position.clone();
+    const normal = relativeVelocity.clone().negate().normalize();
+    this.physics.world.contactPair(projectile.collider, other, (manifold, flipped) => {
+      const n = manifold.normal();
+      normal.set(n.x, n.y, n.z);
+      
+      // The manifold normal points out of its first collider; we want it out of the struck one
+      if (!flipped) {
+        normal.negate();
+      }
+      
+      if (manifold.numSolverContacts() > 0) {
+        const contact = manifold.solverContactPoint(0);
+        point.set(contact.x, contact.y, contact.z);
+      }
+    });
+    
+    const pierced = projectile.piercesRemaining > 0;
+    if (pierced) {
+      // Undo the bounce from this step and turn into a sensor until we are through the collider
+      projectile.piercesRemaining--;
+      projectile.piercedColliders.add(other.handle);
+      projectile.rigidBody.setLinvel(projectile.velocity, true);
+      projectile.collider.setSensor(true);
+    } else {
+      projectile.impacted = true;
+      projectile.bounces++;
+      const maxBounces = projectile.options.maxBounces ?? Infinity;
+      if (projectile.options.destroyOnImpact || projectile.bounces > maxBounces) {
+        projectile.destroyed = true;
+      }
+    }
+    
+    const event: ImpactEvent = {
+      projectile,
+      collider: other,
+      body,
+      point,
+      normal,
+      relativeVelocity,
+      pierced
+    };
+    this.impactListeners.forEach(listener => listener(event));
+  }
+  
+  // Blow up an explosive projectile at its current position
+  private detonate(projectile: Projectile) {
+    projectile.destroyed = true;
+    
+    if (this.explosionManager && projectile.options.explosive) {
+      this.explosionManager.explode(
+        projectile.interpolator.currentPosition.clone(),
+        projectile.options.explosive,
+        projectile.collider
+      );
+    }
+  }
+  
+  // Check whether a projectile still overlaps any collider it has pierced
+  private overlapsPiercedCollider(projectile: Projectile): boolean {
+    let overlaps = false;
+    
+    this.physics.world.intersectionsWithShape(
+      projectile.interpolator.currentPosition,
+      { x: 0, y: 0, z: 0, w: 1 },
+      new RAPIER.Ball(projectile.collider.radius() * 1.5),
+      (collider) => {
+        overlaps = projectile.piercedColliders.has(collider.handle);
+        // Stop the query as soon as we found one
+        return !overlaps;
+      },
+      undefined,
+      undefined,
+      projectile.collider
+    );
+    
+    return overlaps;
+  }
+  
   // Update trajectory visualization for a projectile
   private updateTrajectoryVisualization(projectile: Projectile) {
     if (!this.debugVisualizer) return;
@@ -102,7 +253,8 @@ export class ProjectileManager {
     const projectilesToRemove = this.projectiles.filter(p => p.shouldRemove());
     
     projectilesToRemove.forEach(projectile => {
-      projectile.remove(this.scene, this.physics);
+      this.collisionEvents.unregister(projectile.collider);
+      projectile.remove(this.physics);
       
       // Remove trajectory line if exists
       if (this.trajectoryLines.has(projectile)) {
@@ -117,7 +269,62 @@ export class ProjectileManager {
     });
     
     // Filter out the removed projectiles from the array
-    this.projectiles = this.projectiles.filter(p => !p.shouldRemove());
+    this.projectiles = this.projectiles.filter(p => !projectilesToRemove.includes(p));
+  }
+  
+  // Get the projectiles currently in flight
+  getProjectiles(): Projectile[] {
+    return this.projectiles;
+  }
+  
+  // Capture the state of every projectile in flight
+  captureState(): ProjectileState[] {
+    const now = simulationClock.now();
+    return this.projectiles.filter(p => !p.destroyed).map(projectile => {
+      const body = projectile.rigidBody;
+      const { x, y, z } = body.translation();
+      const rotation = body.rotation();
+      const linvel = body.linvel();
+      const angvel = body.angvel();
+      return {
+        options: projectile.options,
+        translation: { x, y, z },
+        rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+        linvel: { x: linvel.x, y: linvel.y, z: linvel.z },
+        angvel: { x: angvel.x, y: angvel.y, z: angvel.z },
+        age: now - projectile.creationTime,
+        bounces: projectile.bounces,
+        piercesRemaining: projectile.piercesRemaining,
+        piercedColliders: [...projectile.piercedColliders],
+        sensor: projectile.collider.isSensor(),
+        impacted: projectile.impacted
+      };
+    });
+  }
+  
+  // Replace all projectiles with ones recreated from captured states
+  restoreState(states: ProjectileState[]) {
+    this.cleanUp();
+    
+    const now = simulationClock.now();
+    states.forEach(state => {
+      const position = new THREE.Vector3(state.translation.x, state.translation.y, state.translation.z);
+      const projectile = this.shoot(position, new THREE.Vector3(0, 0, -1), state.options);
+      
+      const body = projectile.rigidBody;
+      body.setRotation(state.rotation, false);
+      body.setLinvel(state.linvel, false);
+      body.setAngvel(state.angvel, true);
+      
+      projectile.velocity.set(state.linvel.x, state.linvel.y, state.linvel.z);
+      projectile.creationTime = now - state.age;
+      projectile.bounces = state.bounces;
+      projectile.piercesRemaining = state.piercesRemaining;
+      projectile.piercedColliders = new Set(state.piercedColliders);
+      projectile.collider.setSensor(state.sensor);
+      projectile.impacted = state.impacted;
+      projectile.interpolator.reset();
+    });
   }
   
   // Get the count of active projectiles
@@ -128,7 +335,8 @@ export class ProjectileManager {
   // Clean up all projectiles
   cleanUp() {
     this.projectiles.forEach(projectile => {
-      projectile.remove(this.scene, this.physics);
+      this.collisionEvents.unregister(projectile.collider);
+      projectile.remove(this.physics);
       
       // Remove trajectory lines
       if (this.trajectoryLines.has(projectile)) {
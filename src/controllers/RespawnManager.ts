@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+import { FPSController } from './FPSController';
+import { Health } from '../components/Health';
+import { SpawnPointDefinition } from '../levels/LevelSchema';
+import { random } from '../utils/Random';
+import { simulationClock } from '../utils/SimulationClock';
+
+export interface RespawnSettings {
+  respawnDelay: number; // ms between dying and respawning
+  invulnerableTime: number; // ms of invulnerability after respawning
+  randomSpawn: boolean; // Pick a random spawn point rather than always the first
+}
+
+export const DEFAULT_RESPAWN_SETTINGS: RespawnSettings = {
+  respawnDelay: 2000,
+  invulnerableTime: 2000,
+  randomSpawn: true
+};
+
+// Brings the player back at one of the level's spawn points a while after they die
+export class RespawnManager {
+  settings: RespawnSettings = { ...DEFAULT_RESPAWN_SETTINGS };
+  private fpsController: FPSController;
+  private health: Health;
+  private spawnPoints: SpawnPointDefinition[] = [];
+  private respawnListeners: ((spawn: SpawnPointDefinition) => void)[] = [];
+
+  constructor(fpsController: FPSController, health: Health) {
+    this.fpsController = fpsController;
+    this.health = health;
+  }
+
+  // Set the spawn points to choose from (e.g. when a level loads)
+  setSpawnPoints(spawnPoints: SpawnPointDefinition[]) {
+    this.spawnPoints = spawnPoints;
+  }
+
+  // Register a listener for respawns; returns a function that removes it
+  onRespawn(listener: (spawn: SpawnPointDefinition) => void): () => void {
+    this.respawnListeners.push(listener);
+    return () => {
+      this.respawnListeners = this.respawnListeners.filter(l => l !== listener);
+    };
+  }
+
+  // ms until the dead player respawns, or null while alive
+  getTimeUntilRespawn(): number | null {
+    const diedAt = this.health.getDeathTime();
+    if (diedAt === null) return null;
+    return Math.max(0, diedAt + this.settings.respawnDelay - simulationClock.now());
+  }
+
+  // Respawn once the delay has passed; call once per simulation step
+  update() {
+    if (this.getTimeUntilRespawn() === 0) {
+      this.respawn();
+    }
+  }
+
+  // Move the player to a spawn point with full health
+  respawn() {
+    if (this.spawnPoints.length === 0) {
+      console.warn('No spawn points to respawn at');
+      return;
+    }
+
+    const index = this.settings.randomSpawn ? Math.floor(random.next() * this.spawnPoints.length) : 0;
+    const spawn = this.spawnPoints[index];
+    this.fpsController.teleport(spawn.position, THREE.MathUtils.degToRad(spawn.yaw ?? 0));
+    this.health.revive(this.settings.invulnerableTime);
+    this.respawnListeners.forEach(listener => listener(spawn));
+  }
+}
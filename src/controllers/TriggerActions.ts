@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { FPSController } from './FPSController';
+import { TriggerManager } from './TriggerManager';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+import { LevelLoader } from '../levels/LevelLoader';
+import { createRandomCubes } from '../objects/Cube';
+import { Trigger, TriggerEvent } from '../objects/Trigger';
+
+// A checkpoint the player reached
+export interface CheckpointEvent {
+  trigger: Trigger;
+  position: THREE.Vector3; // Where the player stood on reaching it
+}
+
+const DEFAULT_DOOR_SPEED = 2; // m/s
+
+// Runs the built-in actions of triggers placed in levels (see TriggerAction)
+export class TriggerActions {
+  private scene: THREE.Scene;
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private triggerManager: TriggerManager;
+  private fpsController: FPSController;
+  private levelLoader: LevelLoader;
+  private doorTriggers: Set<Entity> = new Set();
+  private checkpointListeners: ((event: CheckpointEvent) => void)[] = [];
+
+  constructor(
+    scene: THREE.Scene,
+    physics: { world: RAPIER.World; entities: EntityRegistry },
+    triggerManager: TriggerManager,
+    fpsController: FPSController,
+    levelLoader: LevelLoader
+  ) {
+    this.scene = scene;
+    this.physics = physics;
+    this.triggerManager = triggerManager;
+    this.fpsController = fpsController;
+    this.levelLoader = levelLoader;
+
+    triggerManager.onEnter(event => this.handleEnter(event));
+
+    // Doors follow whether their trigger is occupied, so they are kept track of
+    physics.entities.onSpawn(entity => {
+      if (entity.components.trigger?.action?.type === 'door') {
+        this.doorTriggers.add(entity);
+      }
+    });
+    physics.entities.onDespawn(entity => this.doorTriggers.delete(entity));
+  }
+
+  // Register a listener for the player reaching a checkpoint; returns a function that removes it
+  onCheckpoint(listener: (event: CheckpointEvent) => void): () => void {
+    this.checkpointListeners.push(listener);
+    return () => {
+      this.checkpointListeners = this.checkpointListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Move doors towards their open or closed position; call before stepping the world
+  update(deltaTime: number) {
+    this.doorTriggers.forEach(entity => {
+      const action = entity.components.trigger!.action;
+      if (action?.type !== 'door') return;
+
+      const object = this.scene.getObjectByName(action.door);
+      const door = object ? this.physics.entities.getByObject(object) : undefined;
+      if (!door || !door.rigidBody.isKinematic()) return;
+
+      const target = door.origin.clone();
+      if (this.triggerManager.getOccupants(entity).length > 0) {
+        target.add(action.offset);
+      }
+
+      const { x, y, z } = door.rigidBody.translation();
+      const position = new THREE.Vector3(x, y, z);
+      const toTarget = target.sub(position);
+      const step = (action.speed ?? DEFAULT_DOOR_SPEED) * deltaTime;
+      if (toTarget.length() > step) {
+        toTarget.setLength(step);
+      }
+      door.rigidBody.setNextKinematicTranslation(position.add(toTarget));
+    });
+  }
+
+  private handleEnter({ trigger, body }: TriggerEvent) {
+    const action = trigger.action;
+    if (!action || !body) return;
+
+    const isPlayer = body.handle === this.fpsController.rigidBody.handle;
+    switch (action.type) {
+      case 'checkpoint': {
+        if (!isPlayer) return;
+        const { x, y, z } = body.translation();
+        const event: CheckpointEvent = { trigger, position: new THREE.Vector3(x, y, z) };
+        this.checkpointListeners.forEach(listener => listener(event));
+        break;
+      }
+      case 'teleport': {
+        if (isPlayer) {
+          const yaw = action.yaw === undefined ? undefined : THREE.MathUtils.degToRad(action.yaw);
+          this.fpsController.teleport(action.position, yaw);
+          return;
+        }
+
+        // Other bodies keep their momentum
+        const entity = this.physics.entities.getByBody(body);
+        if (entity && body.isDynamic()) {
+          body.setTranslation(action.position, true);
+          entity.interpolator.reset();
+        }
+        break;
+      }
+      case 'spawnCubes': {
+        // The cubes belong to the level, so they go when it's unloaded
+        const cubes = createRandomCubes(this.physics, action.count, action.area ?? 6, 4, action.position);
+        cubes.forEach(cube => this.levelLoader.add(cube.mesh));
+        break;
+      }
+      case 'door':
+        break;
+    }
+  }
+}
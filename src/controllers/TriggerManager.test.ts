@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessSimulation } from '../headless/HeadlessSimulation';
+import { useHeadlessSimulation } from '../test/headless';
+import { createGround } from '../objects/Ground';
+import { createCube } from '../objects/Cube';
+import { createTrigger, TriggerEvent } from '../objects/Trigger';
+import { CollisionGroup } from '../utils/CollisionGroups';
+import { SnapshotManager, decodeSnapshot, encodeSnapshot } from '../utils/Snapshot';
+import { WeaponManager } from './WeaponManager';
+import { HitscanManager } from './HitscanManager';
+
+const createSimulation = useHeadlessSimulation();
+let sim: HeadlessSimulation;
+
+describe('TriggerManager', () => {
+  it('reports a body entering, staying in and leaving a trigger', async () => {
+    sim = await createSimulation({ spawn: { x: 0, y: 2, z: 20 } });
+    sim.add(createGround(sim.physics));
+    const events: string[] = [];
+    createTrigger(sim.physics, { x: 0, y: 6, z: 0 }, {
+      name: 'gap',
+      size: { x: 4, y: 2, z: 4 },
+      filter: CollisionGroup.PROP,
+      onEnter: () => events.push('enter'),
+      onStay: () => events.push('stay'),
+      onExit: () => events.push('exit')
+    });
+    const exits: TriggerEvent[] = [];
+    sim.triggerManager.onExit(event => exits.push(event));
+
+    const cube = createCube(sim.physics, { x: 0, y: 10, z: 0 });
+    sim.add(cube.mesh);
+    sim.runFor(2);
+
+    expect(events[0]).toBe('enter');
+    expect(events.filter(event => event === 'enter')).toHaveLength(1);
+    expect(events.filter(event => event === 'stay').length).toBeGreaterThan(1);
+    expect(events[events.length - 1]).toBe('exit');
+    expect(exits).toHaveLength(1);
+    expect(exits[0].trigger.name).toBe('gap');
+    expect(exits[0].body).toBe(cube.rigidBody);
+  });
+
+  it('only reports the collision groups in its filter', async () => {
+    sim = await createSimulation({ spawn: { x: 0, y: 2, z: 0 } });
+    sim.add(createGround(sim.physics));
+    const { trigger } = createTrigger(sim.physics, { x: 0, y: 1, z: 0 }, { size: { x: 10, y: 2, z: 10 }, once: true });
+    const entered: TriggerEvent[] = [];
+    sim.triggerManager.onEnter(event => entered.push(event));
+
+    sim.add(createCube(sim.physics, { x: 3, y: 5, z: 3 }).mesh);
+    sim.runFor(1);
+
+    expect(entered).toHaveLength(1);
+    expect(entered[0].body).toBe(sim.fpsController.rigidBody);
+    expect(trigger.enabled).toBe(false);
+    expect(sim.triggerManager.getOccupants(entered[0].entity)).toEqual([sim.fpsController.collider]);
+  });
+
+  it('keeps whether once triggers have gone off in snapshots', async () => {
+    sim = await createSimulation({ spawn: { x: 0, y: 2, z: 0 } });
+    sim.add(createGround(sim.physics));
+    const { object } = createTrigger(sim.physics, { x: 0, y: 1, z: 0 }, { size: { x: 10, y: 2, z: 10 }, once: true });
+    const weaponManager = new WeaponManager(
+      sim.fpsController,
+      sim.projectileManager,
+      new HitscanManager(sim.scene, sim.physics),
+      []
+    );
+    const snapshots = new SnapshotManager(
+      sim.physics,
+      sim.fpsController,
+      sim.projectileManager,
+      weaponManager,
+      sim.damageManager
+    );
+    sim.add(object);
+    const trigger = () => sim.physics.entities.getByObject(object)!.components.trigger!;
+
+    const before = snapshots.takeWorldSnapshot();
+    const checksumBefore = snapshots.checksum();
+    sim.runFor(1);
+    expect(trigger().enabled).toBe(false);
+    const after = snapshots.capture();
+
+    // Going back to before the trigger went off lets it go off again
+    snapshots.restoreWorldSnapshot(before);
+    expect(trigger().enabled).toBe(true);
+    expect(snapshots.checksum()).toBe(checksumBefore);
+    trigger().enabled = false;
+    expect(snapshots.checksum()).not.toBe(checksumBefore);
+
+    snapshots.restore(decodeSnapshot(encodeSnapshot(after)));
+    expect(trigger().enabled).toBe(false);
+  });
+});
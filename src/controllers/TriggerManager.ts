@@ -0,0 +1,150 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+import { TriggerEvent, TriggerListener } from '../objects/Trigger';
+import { CollisionEvents } from '../utils/CollisionEvents';
+
+// A collider starting or stopping to touch a trigger, waiting to be reported after the step
+interface PendingEvent {
+  entity: Entity;
+  other: RAPIER.ColliderHandle;
+  started: boolean;
+}
+
+// Reports colliders entering, staying in and leaving triggers. Triggers are picked up
+// as they spawn, so create this before the level
+export class TriggerManager {
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private collisionEvents: CollisionEvents;
+  private occupants: Map<Entity, Set<RAPIER.ColliderHandle>> = new Map();
+  private pending: PendingEvent[] = [];
+  private enterListeners: TriggerListener[] = [];
+  private stayListeners: TriggerListener[] = [];
+  private exitListeners: TriggerListener[] = [];
+
+  constructor(physics: { world: RAPIER.World; entities: EntityRegistry }, collisionEvents: CollisionEvents) {
+    this.physics = physics;
+    this.collisionEvents = collisionEvents;
+
+    physics.entities.onSpawn(entity => {
+      if (!entity.components.trigger) return;
+
+      this.occupants.set(entity, new Set());
+      entity.colliders.forEach(collider => {
+        this.collisionEvents.register(collider, (other, started) => {
+          this.pending.push({ entity, other: other.handle, started });
+        });
+      });
+    });
+    physics.entities.onDespawn(entity => {
+      if (!entity.components.trigger) return;
+
+      // Nothing leaves a trigger that is gone
+      this.occupants.delete(entity);
+      entity.colliders.forEach(collider => this.collisionEvents.unregister(collider));
+    });
+  }
+
+  // Register a listener for colliders entering any trigger; returns a function that removes it
+  onEnter(listener: TriggerListener): () => void {
+    this.enterListeners.push(listener);
+    return () => {
+      this.enterListeners = this.enterListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Register a listener called every step for each collider inside any trigger; returns a
+  // function that removes it
+  onStay(listener: TriggerListener): () => void {
+    this.stayListeners.push(listener);
+    return () => {
+      this.stayListeners = this.stayListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Register a listener for colliders leaving any trigger; returns a function that removes it
+  onExit(listener: TriggerListener): () => void {
+    this.exitListeners.push(listener);
+    return () => {
+      this.exitListeners = this.exitListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Colliders currently inside a trigger entity
+  getOccupants(entity: Entity): RAPIER.Collider[] {
+    const colliders: RAPIER.Collider[] = [];
+    this.occupants.get(entity)?.forEach(handle => {
+      const collider = this.physics.world.getCollider(handle);
+      if (collider) colliders.push(collider);
+    });
+    return colliders;
+  }
+
+  // Report what entered and left triggers during the last step, then what is still
+  // inside; call after stepping the world. Colliders removed from the world while
+  // inside a trigger are dropped without an exit
+  update() {
+    const pending = this.pending;
+    this.pending = [];
+
+    pending.forEach(({ entity, other, started }) => {
+      const occupants = this.occupants.get(entity);
+      const collider = this.physics.world.getCollider(other);
+      if (!occupants || !collider) return;
+
+      if (started) {
+        const trigger = entity.components.trigger!;
+        if (!trigger.enabled || occupants.has(other)) return;
+
+        occupants.add(other);
+        if (trigger.once) {
+          trigger.enabled = false;
+        }
+        this.notify(this.enterListeners, 'onEnter', entity, collider);
+      } else if (occupants.delete(other)) {
+        this.notify(this.exitListeners, 'onExit', entity, collider);
+      }
+    });
+
+    this.occupants.forEach((occupants, entity) => {
+      occupants.forEach(handle => {
+        const collider = this.physics.world.getCollider(handle);
+        if (collider) {
+          this.notify(this.stayListeners, 'onStay', entity, collider);
+        } else {
+          occupants.delete(handle);
+        }
+      });
+    });
+  }
+
+  // Work out what is inside each trigger from the physics world, without reporting
+  // anything (e.g. after the world was restored from a snapshot)
+  sync() {
+    this.pending = [];
+    this.occupants.forEach((occupants, entity) => {
+      occupants.clear();
+      entity.colliders.forEach(collider => {
+        this.physics.world.intersectionPairsWith(collider, other => {
+          occupants.add(other.handle);
+        });
+      });
+    });
+  }
+
+  // Forget anything that was about to be reported (e.g. when a level is unloaded)
+  clear() {
+    this.pending = [];
+  }
+
+  private notify(
+    listeners: TriggerListener[],
+    callback: 'onEnter' | 'onStay' | 'onExit',
+    entity: Entity,
+    collider: RAPIER.Collider
+  ) {
+    const trigger = entity.components.trigger!;
+    const event: TriggerEvent = { trigger, entity, collider, body: collider.parent() };
+    trigger[callback]?.(event);
+    listeners.forEach(listener => listener(event));
+  }
+}
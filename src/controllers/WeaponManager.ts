@@ -0,0 +1,187 @@
+import * as THREE from 'three';
+import { FPSController } from './FPSController';
+import { ProjectileManager } from './ProjectileManager';
+import { HitscanManager } from './HitscanManager';
+import { Weapon, WeaponDefinition, WeaponState, applySpread } from '../weapons/Weapon';
+import { SimulationInput } from '../input/SimulationInput';
+import { InputAction } from '../input/ActionMap';
+import { random } from '../utils/Random';
+
+// Serializable state of all weapons used by snapshots
+export interface WeaponManagerState {
+  currentIndex: number;
+  weapons: WeaponState[];
+}
+
+// Holds the player's weapons, handles switching and routes shots to the projectile manager
+export class WeaponManager {
+  private weapons: Weapon[];
+  private currentIndex: number = 0;
+  private controller: FPSController;
+  private projectileManager: ProjectileManager;
+  private hitscanManager: HitscanManager;
+  private changeListeners: ((weapon: Weapon) => void)[] = [];
+  private fireListeners: ((weapon: Weapon) => void)[] = [];
+  
+  constructor(
+    controller: FPSController,
+    projectileManager: ProjectileManager,
+    hitscanManager: HitscanManager,
+    definitions: WeaponDefinition[]
+  ) {
+    this.controller = controller;
+    this.projectileManager = projectileManager;
+    this.hitscanManager = hitscanManager;
+    this.weapons = definitions.map(definition => new Weapon(definition));
+  }
+  
+  // Register a listener for changes to the equipped weapon, its ammo or its reload state;
+  // returns a function that removes it
+  onChange(listener: (weapon: Weapon) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+  
+  // Register a listener for shots fired; returns a function that removes it
+  onFire(listener: (weapon: Weapon) => void): () => void {
+    this.fireListeners.push(listener);
+    return () => {
+      this.fireListeners = this.fireListeners.filter(l => l !== listener);
+    };
+  }
+  
+  // Apply an input event (live or replayed) for weapon switching and reloading
+  handleInput(input: SimulationInput) {
+    if (input.type === 'action' && input.active) {
+      this.onAction(input.action);
+    }
+  }
+  
+  // Capture ammo, timers and the equipped slot
+  getState(): WeaponManagerState {
+    return {
+      currentIndex: this.currentIndex,
+      weapons: this.weapons.map(weapon => weapon.getState())
+    };
+  }
+  
+  // Restore a state captured with getState
+  setState(state: WeaponManagerState) {
+    this.currentIndex = state.currentIndex;
+    state.weapons.forEach((weaponState, i) => this.weapons[i]?.setState(weaponState));
+    this.notifyChange();
+  }
+  
+  // Get the currently equipped weapon
+  getCurrentWeapon(): Weapon {
+    return this.weapons[this.currentIndex];
+  }
+  
+  // Get all weapons in slot order
+  getWeapons(): Weapon[] {
+    return this.weapons;
+  }
+  
+  // Equip the weapon in the given slot
+  switchTo(index: number) {
+    if (index < 0 || index >= this.weapons.length || index === this.currentIndex) return;
+    
+    this.getCurrentWeapon().interrupt();
+    this.currentIndex = index;
+    this.notifyChange();
+  }
+  
+  // Cycle through weapons (positive steps forward, negative backward)
+  cycle(step: number) {
+    const count = this.weapons.length;
+    this.switchTo(((this.currentIndex + step) % count + count) % count);
+  }
+  
+  // Reload the current weapon
+  reload() {
+    if (this.getCurrentWeapon().reload()) {
+      this.notifyChange();
+    }
+  }
+  
+  // Advance weapon timers and fire according to the trigger state
+  update(deltaTime: number) {
+    const weapon = this.getCurrentWeapon();
+    const { ammoInMagazine, reserveAmmo, isReloading } = weapon;
+    
+    // The dead can't shoot (the request is still consumed so it doesn't fire on respawn)
+    const alive = !this.controller.isDead();
+    const shootRequested = this.controller.consumeShootRequest();
+    const shots = weapon.update(
+      deltaTime,
+      alive && this.controller.isShooting,
+      alive && shootRequested
+    );
+    
+    for (let i = 0; i < shots; i++) {
+      this.fire(weapon);
+    }
+    
+    // Firing, automatic reloads and finished reloads all happen inside the weapon's update
+    if (weapon.ammoInMagazine !== ammoInMagazine || weapon.reserveAmmo !== reserveAmmo ||
+        weapon.isReloading !== isReloading) {
+      this.notifyChange();
+    }
+  }
+  
+  // Spawn the projectiles (or cast the rays) for a single shot and apply recoil
+  private fire(weapon: Weapon) {
+    const { definition } = weapon;
+    const position = new THREE.Vector3();
+    const aimDirection = new THREE.Vector3();
+    
+    // Hitscan rays start at the camera, projectiles slightly in front of it
+    if (definition.hitscan) {
+      this.controller.getAimRay(position, aimDirection);
+    } else {
+      this.controller.getMuzzleTransform(position, aimDirection);
+    }
+    
+    const pellets = definition.pelletsPerShot ?? 1;
+    for (let i = 0; i < pellets; i++) {
+      const direction = applySpread(aimDirection.clone(), definition.spread);
+      
+      if (definition.hitscan) {
+        this.hitscanManager.fire(position, direction, definition.hitscan, this.controller.collider);
+      } else {
+        this.projectileManager.shoot(position, direction, definition.projectile);
+      }
+    }
+    
+    const yawKick = (random.next() * 2 - 1) * definition.recoil.yaw;
+    this.controller.applyRecoil(definition.recoil.pitch, yawKick);
+    this.fireListeners.forEach(listener => listener(weapon));
+  }
+  
+  private notifyChange() {
+    const weapon = this.getCurrentWeapon();
+    this.changeListeners.forEach(listener => listener(weapon));
+  }
+  
+  private onAction(action: InputAction) {
+    switch (action) {
+      case 'reload':
+        this.reload();
+        return;
+      case 'nextWeapon':
+        this.cycle(1);
+        return;
+      case 'previousWeapon':
+        this.cycle(-1);
+        return;
+    }
+    
+    // weapon1..weapon9 select weapon slots
+    const match = /^weapon([1-9])$/.exec(action);
+    if (match) {
+      this.switchTo(parseInt(match[1], 10) - 1);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessSimulation } from '../headless/HeadlessSimulation';
+import { useHeadlessSimulation } from '../test/headless';
+import { createCube } from '../objects/Cube';
+import { Entity } from './EntityRegistry';
+
+const createSimulation = useHeadlessSimulation();
+let sim: HeadlessSimulation;
+
+describe('EntityRegistry', () => {
+  it('finds entities by object, body and collider and cleans both worlds up on despawn', async () => {
+    sim = await createSimulation();
+    const entities = sim.physics.entities;
+    const spawned: Entity[] = [];
+    const despawned: Entity[] = [];
+    entities.onSpawn(entity => spawned.push(entity));
+    entities.onDespawn(entity => despawned.push(entity));
+
+    const cube = createCube(sim.physics, { x: 0, y: 5, z: 0 });
+    sim.add(cube.mesh);
+    const entity = entities.getByObject(cube.mesh)!;
+    expect(spawned).toEqual([entity]);
+    expect(entities.getByBody(cube.rigidBody)).toBe(entity);
+    expect(entities.getByCollider(cube.rigidBody.collider(0))).toBe(entity);
+
+    const bodies = sim.physics.world.bodies.len();
+    const collider = entity.colliders[0];
+    entities.despawn(sim.physics.world, entity);
+
+    expect(despawned).toEqual([entity]);
+    expect(sim.scene.children).not.toContain(cube.mesh);
+    expect(sim.physics.world.bodies.len()).toBe(bodies - 1);
+    expect(entities.getByObject(cube.mesh)).toBeUndefined();
+    expect(entities.getByCollider(collider)).toBeUndefined();
+  });
+
+  it('copies the position and rotation of moving bodies onto their objects', async () => {
+    sim = await createSimulation();
+    const dynamic = createCube(sim.physics, { x: 0, y: 5, z: 0 });
+    const fixed = createCube(sim.physics, { x: 5, y: 5, z: 0 }, 1, 0x888888, {}, 'fixed');
+    dynamic.rigidBody.setAngvel({ x: 0, y: 2, z: 0 }, true);
+
+    sim.runFor(0.5);
+    sim.physics.entities.interpolate(1);
+
+    const position = dynamic.rigidBody.translation();
+    const rotation = dynamic.rigidBody.rotation();
+    expect(dynamic.mesh.position.y).toBeCloseTo(position.y);
+    expect(dynamic.mesh.position.y).toBeLessThan(5);
+    expect(dynamic.mesh.quaternion.y).toBeCloseTo(rotation.y);
+    expect(dynamic.mesh.quaternion.y).not.toBeCloseTo(0);
+    expect(fixed.mesh.position.y).toBe(5);
+  });
+});
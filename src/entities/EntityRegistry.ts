@@ -0,0 +1,197 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { BodyInterpolator } from '../utils/Interpolation';
+import { Projectile } from '../objects/Projectile';
+import { DestructibleModel } from '../objects/DestructibleModel';
+import { KillVolume } from '../objects/KillVolume';
+import { Trigger } from '../objects/Trigger';
+import { MovingPlatform } from '../objects/MovingPlatform';
+
+/**
+ * Optional parts an entity can have besides its object and body
+ */
+export interface EntityComponents {
+  projectile?: Projectile;
+  destructible?: DestructibleModel; // Model the entity is a piece of
+  killVolume?: KillVolume;
+  trigger?: Trigger;
+  platform?: MovingPlatform;
+}
+
+/**
+ * Something that exists in both worlds: a Three.js object moved by a Rapier body
+ */
+export interface Entity {
+  readonly id: number;
+  readonly origin: THREE.Vector3; // Body position when spawned
+  object: THREE.Object3D;
+  rigidBody: RAPIER.RigidBody;
+  colliders: RAPIER.Collider[];
+  interpolator: BodyInterpolator;
+  components: EntityComponents;
+}
+
+/**
+ * Every entity in the game, with lookups from objects, bodies and colliders
+ * back to them. After each physics step, capture records the transforms of
+ * all bodies that can move (dynamic and kinematic ones, whatever created
+ * them) and interpolate copies them onto their objects for rendering.
+ *
+ * Objects are positioned in their parent's space, so entity objects should
+ * sit directly in the scene or in an untransformed group. Lookups are keyed by
+ * handle, which stays the same when a world is restored from a snapshot
+ */
+export class EntityRegistry {
+  private entities: Map<number, Entity> = new Map();
+  private byObject: Map<THREE.Object3D, Entity> = new Map();
+  private byBody: Map<RAPIER.RigidBodyHandle, Entity> = new Map();
+  private byCollider: Map<RAPIER.ColliderHandle, Entity> = new Map();
+  private nextId: number = 1;
+  private spawnListeners: ((entity: Entity) => void)[] = [];
+  private despawnListeners: ((entity: Entity) => void)[] = [];
+
+  /**
+   * Register a listener for new entities; returns a function that removes it
+   */
+  public onSpawn(listener: (entity: Entity) => void): () => void {
+    this.spawnListeners.push(listener);
+    return () => {
+      this.spawnListeners = this.spawnListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Register a listener for entities about to be removed; returns a function that removes it
+   */
+  public onDespawn(listener: (entity: Entity) => void): () => void {
+    this.despawnListeners.push(listener);
+    return () => {
+      this.despawnListeners = this.despawnListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Register an object and the body that moves it. The body's colliders at this
+   * point become the entity's colliders
+   */
+  public spawn(object: THREE.Object3D, rigidBody: RAPIER.RigidBody, components: EntityComponents = {}): Entity {
+    const { x, y, z } = rigidBody.translation();
+    const entity: Entity = {
+      id: this.nextId++,
+      origin: new THREE.Vector3(x, y, z),
+      object,
+      rigidBody,
+      colliders: getColliders(rigidBody),
+      interpolator: new BodyInterpolator(rigidBody),
+      components
+    };
+
+    this.entities.set(entity.id, entity);
+    this.index(entity);
+    this.spawnListeners.forEach(listener => listener(entity));
+    return entity;
+  }
+
+  /**
+   * Remove an entity's object from its parent and its body (with its colliders)
+   * from the world. Disposing geometry and materials is up to whoever created them
+   */
+  public despawn(world: RAPIER.World, entity: Entity): void {
+    if (!this.entities.has(entity.id)) return;
+
+    this.despawnListeners.forEach(listener => listener(entity));
+    this.unindex(entity);
+    this.entities.delete(entity.id);
+
+    entity.object.removeFromParent();
+    world.removeRigidBody(entity.rigidBody);
+  }
+
+  public getByObject(object: THREE.Object3D): Entity | undefined {
+    return this.byObject.get(object);
+  }
+
+  public getByBody(body: RAPIER.RigidBody | null): Entity | undefined {
+    return body ? this.byBody.get(body.handle) : undefined;
+  }
+
+  public getByCollider(collider: RAPIER.Collider | null): Entity | undefined {
+    return collider ? this.byCollider.get(collider.handle) : undefined;
+  }
+
+  /**
+   * All entities in the order they were spawned
+   */
+  public getAll(): Entity[] {
+    return [...this.entities.values()];
+  }
+
+  public get size(): number {
+    return this.entities.size;
+  }
+
+  /**
+   * Bind an entity to another body (e.g. the same body in a world restored from a snapshot)
+   */
+  public rebind(entity: Entity, rigidBody: RAPIER.RigidBody): void {
+    this.unindex(entity);
+    entity.rigidBody = rigidBody;
+    entity.colliders = getColliders(rigidBody);
+    entity.interpolator = new BodyInterpolator(rigidBody);
+    this.index(entity);
+  }
+
+  /**
+   * Record the transforms of every body that can move; call after each physics step
+   */
+  public capture(): void {
+    this.entities.forEach(entity => {
+      if (!entity.rigidBody.isFixed()) {
+        entity.interpolator.capture();
+      }
+    });
+  }
+
+  /**
+   * Move the objects of every body that can move to their interpolated transforms
+   * @param alpha Interpolation factor between the previous (0) and last (1) physics step
+   */
+  public interpolate(alpha: number): void {
+    this.entities.forEach(entity => {
+      if (!entity.rigidBody.isFixed()) {
+        entity.interpolator.apply(entity.object, alpha);
+      }
+    });
+  }
+
+  /**
+   * Move every object straight to its body's transform, dropping the previous
+   * state (e.g. after the bodies were restored from a snapshot)
+   */
+  public snapToBodies(): void {
+    this.entities.forEach(entity => {
+      entity.interpolator.reset();
+      entity.interpolator.apply(entity.object, 1);
+    });
+  }
+
+  private index(entity: Entity) {
+    this.byObject.set(entity.object, entity);
+    this.byBody.set(entity.rigidBody.handle, entity);
+    entity.colliders.forEach(collider => this.byCollider.set(collider.handle, entity));
+  }
+
+  private unindex(entity: Entity) {
+    this.byObject.delete(entity.object);
+    this.byBody.delete(entity.rigidBody.handle);
+    entity.colliders.forEach(collider => this.byCollider.delete(collider.handle));
+  }
+}
+
+function getColliders(rigidBody: RAPIER.RigidBody): RAPIER.Collider[] {
+  const colliders: RAPIER.Collider[] = [];
+  for (let i = 0; i < rigidBody.numColliders(); i++) {
+    colliders.push(rigidBody.collider(i));
+  }
+  return colliders;
+}
@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { FPSController, MovementSettings } from '../controllers/FPSController';
+import { ProjectileManager } from '../controllers/ProjectileManager';
+import { DamageManager } from '../controllers/DamageManager';
+import { RespawnManager } from '../controllers/RespawnManager';
+import { KillVolumeManager } from '../controllers/KillVolumeManager';
+import { TriggerManager } from '../controllers/TriggerManager';
+import { PlatformManager } from '../controllers/PlatformManager';
+import { Health } from '../components/Health';
+import { CollisionEvents } from '../utils/CollisionEvents';
+import { random } from '../utils/Random';
+import { simulationClock } from '../utils/SimulationClock';
+import { SimulationInput } from '../input/SimulationInput';
+import { ActionMap } from '../input/ActionMap';
+import { EntityRegistry } from '../entities/EntityRegistry';
+
+export interface HeadlessSimulationOptions {
+  stepRate?: number; // Physics steps per second
+  gravity?: { x: number; y: number; z: number };
+  seed?: number; // Seed for the shared random number generator
+  movementSettings?: Partial<MovementSettings>;
+  spawn?: { x: number; y: number; z: number };
+}
+
+// Runs the world, player and projectiles without a renderer or DOM so they can be
+// driven from Node (e.g. by tests) with synthetic input
+export class HeadlessSimulation {
+  readonly scene: THREE.Scene;
+  readonly physics: { world: RAPIER.World; entities: EntityRegistry };
+  readonly collisionEvents: CollisionEvents;
+  readonly fpsController: FPSController;
+  readonly projectileManager: ProjectileManager;
+  readonly damageManager: DamageManager;
+  readonly playerHealth: Health;
+  readonly respawnManager: RespawnManager;
+  readonly killVolumeManager: KillVolumeManager;
+  readonly triggerManager: TriggerManager;
+  readonly platformManager: PlatformManager;
+  readonly actionMap: ActionMap;
+  readonly stepSize: number;
+
+  // Rapier's WASM module has to be initialized before any world can be created
+  // (tests have it initialized once by their setup file, which makes this a no-op)
+  static async create(options: HeadlessSimulationOptions = {}): Promise<HeadlessSimulation> {
+    await RAPIER.init();
+    return new HeadlessSimulation(options);
+  }
+
+  private constructor(options: HeadlessSimulationOptions) {
+    this.stepSize = 1 / (options.stepRate ?? 60);
+
+    // Every simulation starts at time zero with a known random sequence
+    simulationClock.set(0, 0);
+    random.setSeed(options.seed ?? 1);
+
+    this.scene = new THREE.Scene();
+    this.physics = {
+      world: new RAPIER.World(options.gravity ?? { x: 0, y: -9.81, z: 0 }),
+      entities: new EntityRegistry()
+    };
+    this.physics.world.timestep = this.stepSize;
+    this.collisionEvents = new CollisionEvents();
+
+    this.projectileManager = new ProjectileManager(this.scene, this.physics, this.collisionEvents);
+
+    // No DOM element, so no pointer lock; input arrives through dispatch
+    this.fpsController = new FPSController(new THREE.PerspectiveCamera(), this.physics);
+    if (options.movementSettings) {
+      this.fpsController.applyMovementSettings(options.movementSettings);
+    }
+    this.scene.add(this.fpsController.object);
+
+    // The player takes damage from projectiles and falls, and respawns where they started
+    this.damageManager = new DamageManager();
+    this.projectileManager.onImpact(impact => this.damageManager.handleImpact(impact));
+    this.playerHealth = new Health();
+    this.fpsController.setHealth(this.playerHealth);
+    this.damageManager.attach(this.fpsController.rigidBody, this.playerHealth);
+    this.respawnManager = new RespawnManager(this.fpsController, this.playerHealth);
+    this.respawnManager.setSpawnPoints([{ position: options.spawn ?? this.fpsController.rigidBody.translation() }]);
+    this.killVolumeManager = new KillVolumeManager(
+      this.physics,
+      this.collisionEvents,
+      this.fpsController,
+      this.damageManager
+    );
+    this.triggerManager = new TriggerManager(this.physics, this.collisionEvents);
+    this.platformManager = new PlatformManager(this.physics);
+
+    // Default bindings, never persisted
+    this.actionMap = new ActionMap(null);
+    this.actionMap.onAction(event => this.dispatch({ type: 'action', action: event.action, active: event.active }));
+
+    if (options.spawn) {
+      this.fpsController.teleport(options.spawn);
+    }
+  }
+
+  // Add an object created by one of the object factories to the scene
+  add<T extends THREE.Object3D>(object: T): T {
+    this.scene.add(object);
+    return object;
+  }
+
+  // Apply an input event as if it came from the user
+  dispatch(input: SimulationInput) {
+    this.fpsController.handleInput(input);
+  }
+
+  // Press a binding (key code, MouseN, ...) through the default action map
+  press(binding: string) {
+    this.actionMap.press(binding, simulationClock.now());
+  }
+
+  release(binding: string) {
+    this.actionMap.release(binding);
+  }
+
+  // Advance by a number of fixed steps, in the same order as the game loop
+  step(count: number = 1) {
+    for (let i = 0; i < count; i++) {
+      this.respawnManager.update();
+      this.platformManager.update(this.stepSize);
+      this.fpsController.update(this.stepSize);
+      this.collisionEvents.step(this.physics.world);
+      this.fpsController.postPhysicsUpdate();
+      this.physics.entities.capture();
+      this.killVolumeManager.update();
+      this.triggerManager.update();
+      this.projectileManager.update();
+      simulationClock.advance(this.stepSize);
+    }
+  }
+
+  // Advance by (at least) the given simulated time
+  runFor(seconds: number) {
+    this.step(Math.ceil(seconds / this.stepSize - 1e-9));
+  }
+
+  // Step until the condition holds; returns the number of steps taken, or -1 if it never did
+  stepUntil(condition: () => boolean, maxSteps: number = 600): number {
+    for (let i = 0; i < maxSteps; i++) {
+      if (condition()) return i;
+      this.step();
+    }
+    return condition() ? maxSteps : -1;
+  }
+
+  // Player position after the last step
+  getPlayerPosition(): THREE.Vector3 {
+    return this.fpsController.interpolator.currentPosition.clone();
+  }
+
+  // Free the physics world
+  dispose() {
+    this.projectileManager.cleanUp();
+    this.physics.world.free();
+  }
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ActionEvent, ActionMap, DEFAULT_ACTIONS } from './ActionMap';
+import { createStorage } from '../test/storage';
+
+describe('ActionMap', () => {
+  let events: ActionEvent[];
+  let actionMap: ActionMap;
+
+  beforeEach(() => {
+    events = [];
+    actionMap = new ActionMap(null);
+    actionMap.onAction(event => events.push(event));
+  });
+
+  it('keeps hold actions active while any of their bindings is held', () => {
+    actionMap.press('KeyW', 0);
+    actionMap.press('ArrowUp', 10);
+    actionMap.release('KeyW');
+    expect(actionMap.isHeld('moveForward')).toBe(true);
+    actionMap.release('ArrowUp');
+
+    expect(events).toEqual([
+      { action: 'moveForward', active: true },
+      { action: 'moveForward', active: false }
+    ]);
+  });
+
+  it('ignores key repeat', () => {
+    actionMap.press('KeyZ', 0);
+    actionMap.press('KeyZ', 30);
+    actionMap.press('KeyZ', 60);
+
+    expect(events).toEqual([{ action: 'prone', active: true }]);
+  });
+
+  it('reports press actions on every press', () => {
+    actionMap.tap('WheelDown', 0);
+    actionMap.tap('WheelDown', 10);
+    actionMap.tap('WheelUp', 20);
+
+    expect(events.map(event => event.action)).toEqual(['nextWeapon', 'nextWeapon', 'previousWeapon']);
+  });
+
+  it('reports release and double-tap triggers', () => {
+    actionMap = new ActionMap(null, {
+      ...DEFAULT_ACTIONS,
+      replayBack: { trigger: 'release', bindings: ['Comma'] },
+      replayForward: { trigger: 'doubleTap', bindings: ['Period'] }
+    });
+    actionMap.onAction(event => events.push(event));
+
+    actionMap.press('Comma', 0);
+    expect(events).toEqual([]);
+    actionMap.release('Comma');
+    expect(events).toEqual([{ action: 'replayBack', active: true }]);
+
+    events = [];
+    actionMap.tap('Period', 0);
+    actionMap.tap('Period', 500); // Too slow
+    actionMap.tap('Period', 700);
+    actionMap.tap('Period', 800); // Starts a new double tap
+    expect(events).toEqual([{ action: 'replayForward', active: true }]);
+  });
+
+  it('rebinds actions', () => {
+    actionMap.setBindings('jump', ['KeyJ', 'Mouse1']);
+
+    actionMap.tap('Space', 0);
+    actionMap.tap('Mouse1', 10);
+
+    expect(actionMap.getBindings('jump')).toEqual(['KeyJ', 'Mouse1']);
+    expect(events).toEqual([
+      { action: 'jump', active: true },
+      { action: 'jump', active: false }
+    ]);
+  });
+
+  it('releases a held action when its held binding is unbound', () => {
+    actionMap.press('KeyW', 0);
+    actionMap.setBindings('moveForward', ['KeyI']);
+
+    expect(events).toEqual([
+      { action: 'moveForward', active: true },
+      { action: 'moveForward', active: false }
+    ]);
+  });
+
+  it('persists overrides and restores defaults', () => {
+    const storage = createStorage();
+    new ActionMap(storage).setBindings('fire', ['Mouse0', 'KeyF']);
+
+    const reloaded = new ActionMap(storage);
+    expect(reloaded.getBindings('fire')).toEqual(['Mouse0', 'KeyF']);
+    expect(reloaded.getBindings('jump')).toEqual(DEFAULT_ACTIONS.jump.bindings);
+
+    reloaded.resetBindings('fire');
+    expect(reloaded.getBindings('fire')).toEqual(DEFAULT_ACTIONS.fire.bindings);
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('skips invalid saved bindings', () => {
+    const storage = createStorage();
+    storage.setItem('rapiertest.bindings', JSON.stringify({ jump: ['KeyJ'], teleport: ['KeyT'], fire: 'Mouse0' }));
+
+    const loaded = new ActionMap(storage);
+
+    expect(loaded.getBindings('jump')).toEqual(['KeyJ']);
+    expect(loaded.getBindings('fire')).toEqual(DEFAULT_ACTIONS.fire.bindings);
+  });
+});
@@ -0,0 +1,295 @@
+// Named input actions that bindings map to
+export type InputAction =
+  | 'moveForward'
+  | 'moveBackward'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'jump'
+  | 'sprint'
+  | 'crouch'
+  | 'prone'
+  | 'fire'
+  | 'reload'
+  | 'nextWeapon'
+  | 'previousWeapon'
+  | 'weapon1'
+  | 'weapon2'
+  | 'weapon3'
+  | 'weapon4'
+  | 'weapon5'
+  | 'weapon6'
+  | 'weapon7'
+  | 'weapon8'
+  | 'weapon9'
+  | 'pause'
+  | 'toggleDebug'
+  | 'nextLevel'
+  | 'quickSave'
+  | 'quickLoad'
+  | 'toggleRecording'
+  | 'toggleReplay'
+  | 'replayPause'
+  | 'replaySlower'
+  | 'replayFaster'
+  | 'replayBack'
+  | 'replayForward';
+
+// When an action reports to its listeners:
+// - hold: active when the first binding goes down, inactive when the last one is released
+// - press: each time a binding goes down
+// - release: when the last held binding is released
+// - doubleTap: when bindings are pressed twice within the double-tap time
+export type ActionTrigger = 'hold' | 'press' | 'release' | 'doubleTap';
+
+export interface ActionDefinition {
+  trigger: ActionTrigger;
+  // Key codes (KeyboardEvent.code), mouse buttons (Mouse0, Mouse1, ...), wheel directions (WheelUp, WheelDown)
+  // gamepad buttons in the standard layout (Gamepad0 is the bottom face button, Gamepad7 the right trigger, ...)
+  // or on-screen touch buttons (TouchFire, TouchJump, TouchPause)
+  bindings: string[];
+}
+
+// An action changing state; press, release and double-tap actions only ever report active
+export interface ActionEvent {
+  action: InputAction;
+  active: boolean;
+}
+
+// Minimal storage interface so bindings can be persisted without a browser
+export type BindingStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export const DEFAULT_ACTIONS: Record<InputAction, ActionDefinition> = {
+  moveForward: { trigger: 'hold', bindings: ['KeyW', 'ArrowUp'] },
+  moveBackward: { trigger: 'hold', bindings: ['KeyS', 'ArrowDown'] },
+  moveLeft: { trigger: 'hold', bindings: ['KeyA', 'ArrowLeft'] },
+  moveRight: { trigger: 'hold', bindings: ['KeyD', 'ArrowRight'] },
+  jump: { trigger: 'hold', bindings: ['Space', 'Gamepad0', 'TouchJump'] },
+  sprint: { trigger: 'hold', bindings: ['ShiftLeft', 'ShiftRight', 'Gamepad10'] },
+  crouch: { trigger: 'hold', bindings: ['ControlLeft', 'KeyC', 'Gamepad1'] },
+  prone: { trigger: 'press', bindings: ['KeyZ'] },
+  fire: { trigger: 'hold', bindings: ['Mouse0', 'Gamepad7', 'TouchFire'] },
+  reload: { trigger: 'press', bindings: ['KeyR', 'Gamepad2'] },
+  nextWeapon: { trigger: 'press', bindings: ['WheelDown', 'Gamepad5'] },
+  previousWeapon: { trigger: 'press', bindings: ['WheelUp', 'Gamepad4'] },
+  weapon1: { trigger: 'press', bindings: ['Digit1'] },
+  weapon2: { trigger: 'press', bindings: ['Digit2'] },
+  weapon3: { trigger: 'press', bindings: ['Digit3'] },
+  weapon4: { trigger: 'press', bindings: ['Digit4'] },
+  weapon5: { trigger: 'press', bindings: ['Digit5'] },
+  weapon6: { trigger: 'press', bindings: ['Digit6'] },
+  weapon7: { trigger: 'press', bindings: ['Digit7'] },
+  weapon8: { trigger: 'press', bindings: ['Digit8'] },
+  weapon9: { trigger: 'press', bindings: ['Digit9'] },
+  pause: { trigger: 'press', bindings: ['Escape', 'Gamepad9', 'TouchPause'] },
+  toggleDebug: { trigger: 'press', bindings: ['KeyV'] },
+  nextLevel: { trigger: 'press', bindings: ['KeyL'] },
+  quickSave: { trigger: 'press', bindings: ['F8'] },
+  quickLoad: { trigger: 'press', bindings: ['F9'] },
+  toggleRecording: { trigger: 'press', bindings: ['F2'] },
+  toggleReplay: { trigger: 'press', bindings: ['F4'] },
+  replayPause: { trigger: 'press', bindings: ['KeyP'] },
+  replaySlower: { trigger: 'press', bindings: ['BracketLeft'] },
+  replayFaster: { trigger: 'press', bindings: ['BracketRight'] },
+  replayBack: { trigger: 'press', bindings: ['Comma'] },
+  replayForward: { trigger: 'press', bindings: ['Period'] }
+};
+
+const STORAGE_KEY = 'rapiertest.bindings';
+
+/**
+ * Maps raw bindings (keys, mouse buttons, wheel) to named actions. Any number
+ * of bindings can trigger an action; user overrides of the default bindings
+ * are persisted to storage
+ */
+export class ActionMap {
+  // Max ms between the presses of a double tap
+  public doubleTapTime: number = 300;
+  private storage: BindingStorage | null;
+  private definitions: Record<InputAction, ActionDefinition>;
+  private overrides: Partial<Record<InputAction, string[]>> = {};
+  private actionsByBinding: Map<string, InputAction[]> = new Map();
+  private heldBindings: Set<string> = new Set();
+  private lastPressTimes: Map<InputAction, number> = new Map();
+  private listeners: ((event: ActionEvent) => void)[] = [];
+
+  constructor(
+    storage: BindingStorage | null = typeof localStorage !== 'undefined' ? localStorage : null,
+    definitions: Record<InputAction, ActionDefinition> = DEFAULT_ACTIONS
+  ) {
+    this.storage = storage;
+    this.definitions = definitions;
+    this.load();
+  }
+
+  /**
+   * Register a listener for action events; returns a function that removes it
+   */
+  public onAction(listener: (event: ActionEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Bindings currently assigned to an action
+   */
+  public getBindings(action: InputAction): string[] {
+    return [...(this.overrides[action] ?? this.definitions[action].bindings)];
+  }
+
+  /**
+   * Replace the bindings of an action and persist the change
+   */
+  public setBindings(action: InputAction, bindings: string[]): void {
+    const wasHeld = this.isHeld(action);
+    this.overrides[action] = [...bindings];
+    this.rebuildLookup();
+    this.save();
+
+    // A held action whose held bindings were removed is no longer held
+    if (wasHeld && !this.isHeld(action) && this.definitions[action].trigger === 'hold') {
+      this.emit(action, false);
+    }
+  }
+
+  /**
+   * Restore the default bindings of one action, or of every action
+   */
+  public resetBindings(action?: InputAction): void {
+    if (action) {
+      delete this.overrides[action];
+    } else {
+      this.overrides = {};
+    }
+    this.rebuildLookup();
+    this.save();
+  }
+
+  /**
+   * Whether any binding of the action is held down
+   */
+  public isHeld(action: InputAction): boolean {
+    return this.getBindings(action).some(binding => this.heldBindings.has(binding));
+  }
+
+  /**
+   * A binding went down
+   * @param binding Key code, MouseN or WheelUp/WheelDown
+   * @param time Timestamp in ms, used for double taps
+   */
+  public press(binding: string, time: number): void {
+    // Ignore key repeat
+    if (this.heldBindings.has(binding)) return;
+    this.heldBindings.add(binding);
+
+    this.actionsByBinding.get(binding)?.forEach(action => {
+      switch (this.definitions[action].trigger) {
+        case 'hold':
+          // Only the first held binding activates the action
+          if (this.getBindings(action).filter(b => this.heldBindings.has(b)).length === 1) {
+            this.emit(action, true);
+          }
+          break;
+        case 'press':
+          this.emit(action, true);
+          break;
+        case 'doubleTap': {
+          const lastPress = this.lastPressTimes.get(action);
+          if (lastPress !== undefined && time - lastPress <= this.doubleTapTime) {
+            this.lastPressTimes.delete(action);
+            this.emit(action, true);
+            return;
+          }
+          break;
+        }
+      }
+      this.lastPressTimes.set(action, time);
+    });
+  }
+
+  /**
+   * A binding was released
+   */
+  public release(binding: string): void {
+    if (!this.heldBindings.delete(binding)) return;
+
+    this.actionsByBinding.get(binding)?.forEach(action => {
+      if (this.isHeld(action)) return;
+
+      const trigger = this.definitions[action].trigger;
+      if (trigger === 'hold') {
+        this.emit(action, false);
+      } else if (trigger === 'release') {
+        this.emit(action, true);
+      }
+    });
+  }
+
+  /**
+   * Press and immediately release a binding that has no held state (e.g. a wheel step)
+   */
+  public tap(binding: string, time: number): void {
+    this.press(binding, time);
+    this.release(binding);
+  }
+
+  /**
+   * Release every held binding (e.g. when the window loses focus)
+   */
+  public releaseAll(): void {
+    [...this.heldBindings].forEach(binding => this.release(binding));
+  }
+
+  private emit(action: InputAction, active: boolean) {
+    const event: ActionEvent = { action, active };
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private rebuildLookup() {
+    this.actionsByBinding.clear();
+    (Object.keys(this.definitions) as InputAction[]).forEach(action => {
+      this.getBindings(action).forEach(binding => {
+        const actions = this.actionsByBinding.get(binding) ?? [];
+        actions.push(action);
+        this.actionsByBinding.set(binding, actions);
+      });
+    });
+  }
+
+  // Read the user's overrides, skipping any that are no longer valid
+  private load() {
+    this.overrides = {};
+
+    const saved = this.storage?.getItem(STORAGE_KEY);
+    if (saved) {
+      try {
+        const data = JSON.parse(saved);
+        Object.entries(data).forEach(([action, bindings]) => {
+          if (!(action in this.definitions)) {
+            console.warn(`Ignoring bindings for unknown action "${action}"`);
+          } else if (!Array.isArray(bindings) || !bindings.every(b => typeof b === 'string')) {
+            console.warn(`Ignoring invalid bindings for action "${action}"`);
+          } else {
+            this.overrides[action as InputAction] = bindings;
+          }
+        });
+      } catch (error) {
+        console.error('Failed to load input bindings:', error);
+      }
+    }
+
+    this.rebuildLookup();
+  }
+
+  // Only overrides are stored, so changed defaults still reach users who did not rebind
+  private save() {
+    if (!this.storage) return;
+
+    if (Object.keys(this.overrides).length === 0) {
+      this.storage.removeItem(STORAGE_KEY);
+    } else {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.overrides));
+    }
+  }
+}
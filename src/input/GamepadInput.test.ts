@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ActionEvent, ActionMap } from './ActionMap';
+import { GamepadInput, applyRadialDeadzone, applyResponseCurve } from './GamepadInput';
+import { SimulationInput } from './SimulationInput';
+
+// Minimal stand-in for a standard-layout gamepad
+function createGamepad(index: number) {
+  return {
+    index,
+    id: `Test pad ${index}`,
+    connected: true,
+    axes: [0, 0, 0, 0],
+    buttons: Array.from({ length: 17 }, () => ({ pressed: false, touched: false, value: 0 }))
+  };
+}
+
+describe('applyRadialDeadzone', () => {
+  it('zeroes small deflections and rescales the rest', () => {
+    expect(applyRadialDeadzone(0.1, 0.1, 0.2)).toEqual({ x: 0, y: 0 });
+
+    const half = applyRadialDeadzone(0.6, 0, 0.2);
+    expect(half.x).toBeCloseTo(0.5);
+
+    // Diagonal deflection past the edge is clamped to unit length
+    const full = applyRadialDeadzone(1, 1, 0.2);
+    expect(Math.hypot(full.x, full.y)).toBeCloseTo(1);
+  });
+});
+
+describe('applyResponseCurve', () => {
+  it('keeps the direction and curves the magnitude', () => {
+    const curved = applyResponseCurve(0, -0.5, 2);
+    expect(curved.x).toBeCloseTo(0);
+    expect(curved.y).toBeCloseTo(-0.25);
+  });
+});
+
+describe('GamepadInput', () => {
+  let pads: (ReturnType<typeof createGamepad> | null)[];
+  let actions: ActionEvent[];
+  let inputs: SimulationInput[];
+  let gamepad: GamepadInput;
+
+  beforeEach(() => {
+    pads = [];
+    actions = [];
+    inputs = [];
+    const actionMap = new ActionMap(null);
+    actionMap.onAction(event => actions.push(event));
+    gamepad = new GamepadInput(actionMap, () => pads as unknown as (Gamepad | null)[]);
+    gamepad.onInput(input => inputs.push(input));
+  });
+
+  it('ignores a connected pad until it is used', () => {
+    pads = [createGamepad(0)];
+    gamepad.poll(0);
+
+    expect(gamepad.isActive()).toBe(false);
+    expect(inputs).toEqual([]);
+  });
+
+  it('maps face buttons and triggers to actions', () => {
+    const pad = createGamepad(0);
+    pads = [pad];
+
+    pad.buttons[0].pressed = true;
+    gamepad.poll(0);
+    pad.buttons[7].value = 0.3; // Not far enough
+    gamepad.poll(16);
+    pad.buttons[7].value = 0.8;
+    gamepad.poll(32);
+    pad.buttons[0].pressed = false;
+    gamepad.poll(48);
+
+    expect(actions).toEqual([
+      { action: 'jump', active: true },
+      { action: 'fire', active: true },
+      { action: 'jump', active: false }
+    ]);
+  });
+
+  it('sends proportional stick input only when it changes', () => {
+    const pad = createGamepad(0);
+    pads = [pad];
+
+    pad.axes = [0, -0.5, 0, 0];
+    gamepad.poll(0);
+    gamepad.poll(16);
+    pad.axes = [0, 0.05, 0, 0]; // Back inside the deadzone
+    gamepad.poll(32);
+
+    expect(inputs).toHaveLength(2);
+    expect(inputs[0].type === 'axis' && inputs[0].axis).toBe('move');
+    expect(inputs[0].type === 'axis' && inputs[0].y).toBeCloseTo((0.5 - 0.15) / 0.85);
+    expect(inputs[1]).toEqual({ type: 'axis', axis: 'move', x: 0, y: 0 });
+  });
+
+  it('scales look input by sensitivity and curve', () => {
+    const pad = createGamepad(0);
+    pads = [pad];
+    gamepad.settings.deadzone = 0;
+    gamepad.settings.lookSensitivity = 4;
+    gamepad.settings.lookCurve = 2;
+
+    pad.axes = [0, 0, 0.5, 0];
+    gamepad.poll(0);
+
+    expect(inputs).toHaveLength(1);
+    expect(inputs[0].type === 'axis' && inputs[0].axis).toBe('look');
+    expect(inputs[0].type === 'axis' && inputs[0].x).toBeCloseTo(1);
+  });
+
+  it('releases everything when the pad is unplugged', () => {
+    const pad = createGamepad(0);
+    pads = [pad];
+    pad.buttons[0].pressed = true;
+    pad.axes = [1, 0, 0, 0];
+    gamepad.poll(0);
+
+    pads = [null];
+    gamepad.poll(16);
+
+    expect(gamepad.isActive()).toBe(false);
+    expect(actions[actions.length - 1]).toEqual({ action: 'jump', active: false });
+    expect(inputs[inputs.length - 1]).toEqual({ type: 'axis', axis: 'move', x: 0, y: 0 });
+  });
+
+  it('switches to the last used pad', () => {
+    const first = createGamepad(0);
+    const second = createGamepad(1);
+    pads = [first, second];
+    first.buttons[0].pressed = true;
+    gamepad.poll(0);
+
+    second.buttons[2].pressed = true;
+    gamepad.poll(16);
+
+    expect(actions).toEqual([
+      { action: 'jump', active: true },
+      { action: 'jump', active: false },
+      { action: 'reload', active: true }
+    ]);
+  });
+});
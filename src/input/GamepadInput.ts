@@ -0,0 +1,193 @@
+import { ActionMap } from './ActionMap';
+import { SimulationInput } from './SimulationInput';
+
+export interface GamepadSettings {
+  deadzone: number; // Radial deadzone of both sticks, as a fraction of full deflection
+  lookSensitivity: number; // Turn rate at full deflection in radians per second
+  lookCurve: number; // Response curve exponent: 1 is linear, higher gives finer aim near the center
+  invertLook: boolean; // Push up to look down
+  triggerThreshold: number; // How far an analog trigger must be pulled to count as pressed
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  deadzone: 0.15,
+  lookSensitivity: 3,
+  lookCurve: 2,
+  invertLook: false,
+  triggerThreshold: 0.5
+};
+
+// Axes and analog triggers in the standard gamepad layout
+const LEFT_X = 0;
+const LEFT_Y = 1;
+const RIGHT_X = 2;
+const RIGHT_Y = 3;
+const TRIGGER_BUTTONS = [6, 7];
+
+// Smaller stick changes are not sent, so noise doesn't flood the input stream
+const AXIS_EPSILON = 0.001;
+
+/**
+ * Apply a radial deadzone to a stick, rescaling the rest of the range so the
+ * output still ramps smoothly from 0 to 1
+ */
+export function applyRadialDeadzone(x: number, y: number, deadzone: number): { x: number; y: number } {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadzone) return { x: 0, y: 0 };
+
+  const scaled = Math.min((magnitude - deadzone) / (1 - deadzone), 1);
+  return { x: x / magnitude * scaled, y: y / magnitude * scaled };
+}
+
+/**
+ * Raise a stick's deflection to a power while keeping its direction
+ */
+export function applyResponseCurve(x: number, y: number, exponent: number): { x: number; y: number } {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude === 0) return { x: 0, y: 0 };
+
+  const curved = Math.pow(magnitude, exponent);
+  return { x: x / magnitude * curved, y: y / magnitude * curved };
+}
+
+/**
+ * Polls the Gamepad API once per frame. Buttons are fed to the action map as
+ * GamepadN bindings and the sticks become analog move/look inputs. The most
+ * recently used gamepad is the active one, and pads can be plugged in and out
+ * at any time
+ */
+export class GamepadInput {
+  public settings: GamepadSettings = { ...DEFAULT_GAMEPAD_SETTINGS };
+  private actionMap: ActionMap;
+  private getGamepads: () => (Gamepad | null)[];
+  private activeIndex: number | null = null;
+  private pressedButtons: Set<number> = new Set();
+  private padsInUse: Set<number> = new Set(); // Pads with input at the last poll
+  private move = { x: 0, y: 0 };
+  private look = { x: 0, y: 0 };
+  private listeners: ((input: SimulationInput) => void)[] = [];
+
+  constructor(
+    actionMap: ActionMap,
+    getGamepads: () => (Gamepad | null)[] = () => typeof navigator !== 'undefined' && navigator.getGamepads
+      ? [...navigator.getGamepads()]
+      : []
+  ) {
+    this.actionMap = actionMap;
+    this.getGamepads = getGamepads;
+  }
+
+  /**
+   * Register a listener for stick input; returns a function that removes it
+   */
+  public onInput(listener: (input: SimulationInput) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Whether a gamepad is currently in use
+   */
+  public isActive(): boolean {
+    return this.activeIndex !== null;
+  }
+
+  /**
+   * Read the gamepads and send any changes
+   * @param time Timestamp in ms, used for double taps
+   */
+  public poll(time: number): void {
+    const gamepads = this.getGamepads();
+
+    // Another pad takes over when it starts being used (not while it stays in use, so a
+    // drifting stick can't keep stealing control)
+    gamepads.forEach(gamepad => {
+      if (!gamepad || !gamepad.connected) return;
+
+      const inUse = this.isInUse(gamepad);
+      if (inUse && !this.padsInUse.has(gamepad.index) && gamepad.index !== this.activeIndex) {
+        this.releaseActive();
+        this.activeIndex = gamepad.index;
+      }
+
+      if (inUse) {
+        this.padsInUse.add(gamepad.index);
+      } else {
+        this.padsInUse.delete(gamepad.index);
+      }
+    });
+
+    if (this.activeIndex === null) return;
+
+    const gamepad = gamepads.find(g => g?.index === this.activeIndex);
+    if (!gamepad || !gamepad.connected) {
+      this.padsInUse.delete(this.activeIndex);
+      this.releaseActive();
+      return;
+    }
+
+    this.updateButtons(gamepad, time);
+    this.updateSticks(gamepad);
+  }
+
+  private updateButtons(gamepad: Gamepad, time: number) {
+    gamepad.buttons.forEach((button, i) => {
+      const pressed = this.isPressed(button, i);
+      if (pressed && !this.pressedButtons.has(i)) {
+        this.pressedButtons.add(i);
+        this.actionMap.press(`Gamepad${i}`, time);
+      } else if (!pressed && this.pressedButtons.has(i)) {
+        this.pressedButtons.delete(i);
+        this.actionMap.release(`Gamepad${i}`);
+      }
+    });
+  }
+
+  private updateSticks(gamepad: Gamepad) {
+    const { deadzone, lookSensitivity, lookCurve, invertLook } = this.settings;
+
+    // Stick Y axes point down; moves use y forward and looks y up
+    const move = applyRadialDeadzone(gamepad.axes[LEFT_X] ?? 0, gamepad.axes[LEFT_Y] ?? 0, deadzone);
+    this.setAxis('move', this.move, move.x, -move.y);
+
+    const stick = applyRadialDeadzone(gamepad.axes[RIGHT_X] ?? 0, gamepad.axes[RIGHT_Y] ?? 0, deadzone);
+    const look = applyResponseCurve(stick.x, stick.y, lookCurve);
+    this.setAxis('look', this.look, look.x * lookSensitivity, (invertLook ? look.y : -look.y) * lookSensitivity);
+  }
+
+  // Send a stick's new value if it changed noticeably (returning to rest is always sent)
+  private setAxis(axis: 'move' | 'look', current: { x: number; y: number }, x: number, y: number) {
+    const atRest = x === 0 && y === 0;
+    const wasAtRest = current.x === 0 && current.y === 0;
+    const changed = Math.abs(x - current.x) > AXIS_EPSILON || Math.abs(y - current.y) > AXIS_EPSILON;
+    if (!changed && atRest === wasAtRest) return;
+
+    // `|| 0` turns the -0 of a flipped resting axis into 0
+    current.x = x || 0;
+    current.y = y || 0;
+    const input: SimulationInput = { type: 'axis', axis, x: current.x, y: current.y };
+    this.listeners.forEach(listener => listener(input));
+  }
+
+  private isPressed(button: GamepadButton, index: number): boolean {
+    return TRIGGER_BUTTONS.includes(index) ? button.value >= this.settings.triggerThreshold : button.pressed;
+  }
+
+  private isInUse(gamepad: Gamepad): boolean {
+    const { deadzone } = this.settings;
+    return gamepad.buttons.some((button, i) => this.isPressed(button, i)) ||
+      Math.hypot(gamepad.axes[LEFT_X] ?? 0, gamepad.axes[LEFT_Y] ?? 0) > deadzone ||
+      Math.hypot(gamepad.axes[RIGHT_X] ?? 0, gamepad.axes[RIGHT_Y] ?? 0) > deadzone;
+  }
+
+  // Let go of everything held on the active pad
+  private releaseActive() {
+    this.pressedButtons.forEach(i => this.actionMap.release(`Gamepad${i}`));
+    this.pressedButtons.clear();
+    this.setAxis('move', this.move, 0, 0);
+    this.setAxis('look', this.look, 0, 0);
+    this.activeIndex = null;
+  }
+}
@@ -1,24 +1,128 @@
+import { SimulationInput } from './SimulationInput';
+import { ActionMap, InputAction } from './ActionMap';
+import { GamepadInput } from './GamepadInput';
+import { TouchControls } from './TouchControls';
+import { MouseLook } from './MouseLook';
+
+// Actions handled outside the simulation, dispatched as document events when pressed
+const ACTION_EVENTS: Partial<Record<InputAction, string>> = {
+  pause: 'toggle-pause', // Open/close the pause menu
+  toggleDebug: 'toggle-debug', // Toggle debug visualization
+  nextLevel: 'next-level', // Switch to the next level
+  quickSave: 'quick-save', // Save the simulation state
+  quickLoad: 'quick-load', // Restore the last saved state
+  toggleRecording: 'toggle-recording', // Start/stop recording inputs
+  toggleReplay: 'toggle-replay', // Start/stop replaying the last recording
+  replayPause: 'replay-pause', // Pause/resume a replay
+  replaySlower: 'replay-slower', // Halve the replay speed
+  replayFaster: 'replay-faster', // Double the replay speed
+  replayBack: 'replay-back', // Seek a replay backwards
+  replayForward: 'replay-forward' // Seek a replay forwards
+};
+
 export class InputHandler {
-  private keys: Set<string> = new Set();
-  private debugTogglePressed: boolean = false;
-  
-  constructor() {
+  readonly gamepad: GamepadInput;
+  readonly mouseLook: MouseLook;
+  readonly touchControls: TouchControls | null = null;
+  private actionMap: ActionMap;
+  private pendingEvents: string[] = [];
+  private inputListeners: ((input: SimulationInput) => void)[] = [];
+  private liveInputEnabled: boolean = true;
+
+  constructor(actionMap: ActionMap) {
+    this.actionMap = actionMap;
+
+    // Gameplay actions go to the simulation, the rest become document events
+    actionMap.onAction(event => {
+      const eventName = ACTION_EVENTS[event.action];
+      if (!eventName) {
+        this.receive({ type: 'action', action: event.action, active: event.active });
+      } else if (event.active) {
+        this.pendingEvents.push(eventName);
+      }
+    });
+
+    // Gamepad buttons go through the action map, sticks straight to the simulation
+    this.gamepad = new GamepadInput(actionMap);
+    this.gamepad.onInput(input => this.receive(input));
+
+    // Mouse movement is turned into look angles with the user's mouse settings
+    this.mouseLook = new MouseLook();
+    this.mouseLook.onInput(input => this.receive(input));
+
+    // On-screen controls replace pointer lock on touch screens
+    if (TouchControls.isSupported()) {
+      this.touchControls = new TouchControls(actionMap);
+      this.touchControls.onInput(input => this.receive(input));
+    }
+
     window.addEventListener('keydown', (e) => {
-      this.keys.add(e.code);
+      this.actionMap.press(e.code, e.timeStamp);
     });
-    
+
     window.addEventListener('keyup', (e) => {
-      this.keys.delete(e.code);
+      this.actionMap.release(e.code);
+    });
+
+    // Don't leave actions held when the keys are released outside the window
+    window.addEventListener('blur', () => {
+      this.actionMap.releaseAll();
+    });
+
+    // Mouse input only counts while the pointer is locked to the game
+    document.addEventListener('mousemove', (e) => {
+      if (!document.pointerLockElement) return;
+      this.mouseLook.move(e.movementX || 0, e.movementY || 0, e.timeStamp);
+    });
+
+    document.addEventListener('mousedown', (e) => {
+      if (!document.pointerLockElement) return;
+      this.actionMap.press(`Mouse${e.button}`, e.timeStamp);
+    });
+
+    // Releases always count so buttons can't get stuck when the lock is lost
+    document.addEventListener('mouseup', (e) => {
+      this.actionMap.release(`Mouse${e.button}`);
     });
+
+    document.addEventListener('wheel', (e) => {
+      if (!document.pointerLockElement || e.deltaY === 0) return;
+      this.actionMap.tap(e.deltaY < 0 ? 'WheelUp' : 'WheelDown', e.timeStamp);
+    });
+  }
+
+  // Register a listener for gameplay input; returns a function that removes it
+  public onInput(listener: (input: SimulationInput) => void): () => void {
+    this.inputListeners.push(listener);
+    return () => {
+      this.inputListeners = this.inputListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Ignore live gameplay input, e.g. while a replay is driving the simulation
+  // (the document events above keep working)
+  public setLiveInputEnabled(enabled: boolean): void {
+    this.liveInputEnabled = enabled;
   }
-  
+
+  // Deliver an input to the listeners as if it came from the user
+  public dispatch(input: SimulationInput): void {
+    this.inputListeners.forEach(listener => listener(input));
+  }
+
   public update(): void {
-    // Check for debug toggle (V key)
-    if (this.keys.has('KeyV') && !this.debugTogglePressed) {
-      this.debugTogglePressed = true;
-      document.dispatchEvent(new CustomEvent('toggle-debug'));
-    } else if (!this.keys.has('KeyV') && this.debugTogglePressed) {
-      this.debugTogglePressed = false;
+    this.gamepad.poll(performance.now());
+    this.mouseLook.update();
+
+    // Dispatch the document events for actions pressed since the last frame
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach(eventName => document.dispatchEvent(new CustomEvent(eventName)));
+  }
+
+  private receive(input: SimulationInput): void {
+    if (this.liveInputEnabled) {
+      this.dispatch(input);
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,116 @@
+import { SimulationInput } from './SimulationInput';
+import { WorldSnapshot } from '../utils/Snapshot';
+
+const RECORDING_VERSION = 3;
+
+// Inputs that arrived before a given simulation tick
+export interface InputFrame {
+  tick: number; // Relative to the start of the recording
+  inputs: SimulationInput[];
+}
+
+// A recorded play session: the starting state plus every input, tick by tick
+export interface InputRecording {
+  version: number;
+  level: string; // Name of the level the session was recorded in
+  seed: number; // Seed of the shared random generator at the start
+  stepSize: number; // Fixed simulation step in seconds
+  snapshot: WorldSnapshot; // State before the first tick
+  frames: InputFrame[]; // Only ticks that received input
+  checksums: number[]; // World checksum after each tick, for desync detection
+}
+
+/**
+ * Records the inputs the simulation consumes, grouped by the tick they
+ * were applied before
+ */
+export class InputRecorder {
+  private recording: InputRecording | null = null;
+  private pending: SimulationInput[] = [];
+
+  public isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Start a new recording from a snapshot of the current state
+   */
+  public start(level: string, seed: number, stepSize: number, snapshot: WorldSnapshot): void {
+    this.recording = { version: RECORDING_VERSION, level, seed, stepSize, snapshot, frames: [], checksums: [] };
+    this.pending = [];
+  }
+
+  /**
+   * Record an input as it is applied
+   */
+  public record(input: SimulationInput): void {
+    if (this.recording) {
+      this.pending.push(input);
+    }
+  }
+
+  /**
+   * Call before each simulation tick: inputs recorded since the previous tick belong to this one
+   */
+  public beginTick(): void {
+    if (!this.recording || this.pending.length === 0) return;
+
+    this.recording.frames.push({ tick: this.recording.checksums.length, inputs: this.pending });
+    this.pending = [];
+  }
+
+  /**
+   * Call after each simulation tick with the resulting world checksum
+   */
+  public endTick(checksum: number): void {
+    this.recording?.checksums.push(checksum);
+  }
+
+  /**
+   * Finish recording; inputs after the last tick are dropped
+   */
+  public stop(): InputRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    this.pending = [];
+    return recording;
+  }
+}
+
+/**
+ * Serialize a recording to JSON (the Rapier world snapshot is stored as base64)
+ */
+export function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify({
+    ...recording,
+    snapshot: { ...recording.snapshot, world: toBase64(recording.snapshot.world) }
+  });
+}
+
+/**
+ * Parse a recording serialized with serializeRecording
+ */
+export function deserializeRecording(json: string): InputRecording {
+  const data = JSON.parse(json);
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${data.version}`);
+  }
+  return { ...data, snapshot: { ...data.snapshot, world: fromBase64(data.snapshot.world) } };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
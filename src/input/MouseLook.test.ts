@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_MOUSE_SETTINGS,
+  MouseLook,
+  cmPer360FromSensitivity,
+  fovSensitivityScale,
+  sensitivityFromCmPer360
+} from './MouseLook';
+import { SimulationInput } from './SimulationInput';
+import { createStorage } from '../test/storage';
+
+// Total turn sent as look input
+function totalTurn(inputs: SimulationInput[]): { x: number; y: number } {
+  return inputs.reduce(
+    (total, input) => input.type === 'look' ? { x: total.x + input.x, y: total.y + input.y } : total,
+    { x: 0, y: 0 }
+  );
+}
+
+describe('MouseLook', () => {
+  let inputs: SimulationInput[];
+  let mouseLook: MouseLook;
+
+  beforeEach(() => {
+    inputs = [];
+    mouseLook = new MouseLook(null);
+    mouseLook.onInput(input => inputs.push(input));
+  });
+
+  it('converts mouse counts to look angles', () => {
+    mouseLook.move(100, 50, 0);
+
+    // Moving the mouse down looks down
+    expect(inputs).toEqual([{ type: 'look', x: 0.2, y: -0.1 }]);
+  });
+
+  it('applies per-axis sensitivity and inverted Y', () => {
+    mouseLook.updateSettings({ sensitivityX: 2, sensitivityY: 0.5, invertY: true });
+    mouseLook.move(100, 100, 0);
+
+    expect(inputs[0].type === 'look' && inputs[0].x).toBeCloseTo(0.4);
+    expect(inputs[0].type === 'look' && inputs[0].y).toBeCloseTo(0.1);
+  });
+
+  it('converts between sensitivity and cm/360', () => {
+    const sensitivity = sensitivityFromCmPer360(30, 800);
+    expect(cmPer360FromSensitivity(sensitivity, 800)).toBeCloseTo(30);
+
+    // A full turn takes 30cm of mouse travel
+    mouseLook.setCmPer360(30, 800);
+    mouseLook.move(30 / 2.54 * 800, 0, 0);
+    expect(totalTurn(inputs).x).toBeCloseTo(2 * Math.PI);
+  });
+
+  it('turns faster for fast movements with acceleration', () => {
+    mouseLook.updateSettings({ acceleration: 1 });
+    mouseLook.move(10, 0, 0);
+    mouseLook.move(10, 0, 10); // 1 count/ms doubles the sensitivity
+    mouseLook.move(10, 0, 1010); // Slow movement is barely affected
+
+    const turns = inputs.map(input => input.type === 'look' ? input.x : 0);
+    expect(turns[0]).toBeCloseTo(0.02);
+    expect(turns[1]).toBeCloseTo(0.04);
+    expect(turns[2]).toBeCloseTo(0.0202);
+  });
+
+  it('spreads smoothed movement over frames without losing any of it', () => {
+    mouseLook.updateSettings({ smoothing: 0.5 });
+    mouseLook.move(50, 0, 0);
+    mouseLook.move(50, 0, 5);
+    expect(inputs).toEqual([]);
+
+    mouseLook.update();
+    expect(inputs[0].type === 'look' && inputs[0].x).toBeCloseTo(0.1);
+
+    for (let i = 0; i < 40; i++) {
+      mouseLook.update();
+    }
+    expect(totalTurn(inputs).x).toBeCloseTo(0.2);
+
+    // The tail of the movement ends
+    const count = inputs.length;
+    mouseLook.update();
+    expect(inputs.length).toBe(count);
+  });
+
+  it('scales sensitivity with the camera field of view', () => {
+    const camera = { fov: 90 };
+    mouseLook.setCamera(camera);
+    camera.fov = 2 * Math.atan(0.5) * 180 / Math.PI;
+    expect(fovSensitivityScale(camera.fov, 90)).toBeCloseTo(0.5);
+
+    mouseLook.move(100, 0, 0);
+    mouseLook.updateSettings({ fovScaling: false });
+    mouseLook.move(100, 0, 100);
+
+    expect(inputs[0].type === 'look' && inputs[0].x).toBeCloseTo(0.1);
+    expect(inputs[1].type === 'look' && inputs[1].x).toBeCloseTo(0.2);
+  });
+
+  it('persists only changed settings', () => {
+    const storage = createStorage();
+    const saved = new MouseLook(storage);
+    saved.updateSettings({ sensitivity: 0.003, invertY: true });
+
+    expect(JSON.parse(storage.items.get('rapiertest.mouse')!)).toEqual({ sensitivity: 0.003, invertY: true });
+    expect(new MouseLook(storage).settings).toEqual({ ...DEFAULT_MOUSE_SETTINGS, sensitivity: 0.003, invertY: true });
+
+    saved.resetSettings();
+    expect(storage.items.has('rapiertest.mouse')).toBe(false);
+  });
+
+  it('ignores invalid saved settings', () => {
+    const storage = createStorage();
+    storage.setItem('rapiertest.mouse', JSON.stringify({ sensitivity: 'fast', pitchLimit: 80, unknown: 1 }));
+
+    expect(new MouseLook(storage).settings).toEqual({ ...DEFAULT_MOUSE_SETTINGS, pitchLimit: 80 });
+  });
+
+  it('notifies listeners of settings changes', () => {
+    const limits: number[] = [];
+    mouseLook.onSettingsChange(settings => limits.push(settings.pitchLimit));
+    mouseLook.updateSettings({ pitchLimit: 70 });
+
+    expect(limits).toEqual([70]);
+  });
+});
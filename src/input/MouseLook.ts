@@ -0,0 +1,196 @@
+import { SimulationInput } from './SimulationInput';
+import { SettingRanges, SettingsStorage, SettingsStore } from '../utils/SettingsStore';
+
+export interface MouseSettings {
+  sensitivity: number; // Radians turned per count of mouse movement
+  sensitivityX: number; // Horizontal multiplier on top of the sensitivity
+  sensitivityY: number; // Vertical multiplier on top of the sensitivity
+  invertY: boolean; // Move the mouse up to look down
+  smoothing: number; // 0 sends movement as it arrives; up to 1, the share of the previous frame's turn carried over
+  acceleration: number; // Extra sensitivity per count/ms of mouse speed (0 keeps turning proportional to movement)
+  fovScaling: boolean; // Turn slower when the field of view is narrowed (e.g. aiming down sights)
+  pitchLimit: number; // Furthest the view can look up or down, in degrees
+  rawInput: boolean; // Ask for pointer lock without OS mouse acceleration where the browser supports it
+}
+
+export const DEFAULT_MOUSE_SETTINGS: MouseSettings = {
+  sensitivity: 0.002,
+  sensitivityX: 1,
+  sensitivityY: 1,
+  invertY: false,
+  smoothing: 0,
+  acceleration: 0,
+  fovScaling: true,
+  pitchLimit: 89,
+  rawInput: true
+};
+
+export const MOUSE_SETTING_RANGES: SettingRanges<MouseSettings> = {
+  sensitivity: { min: 0.0001, max: 0.1 },
+  sensitivityX: { min: 0.1, max: 10 },
+  sensitivityY: { min: 0.1, max: 10 },
+  smoothing: { min: 0, max: 1 },
+  acceleration: { min: 0, max: 10 },
+  pitchLimit: { min: 1, max: 89 }
+};
+
+// Smoothed turns smaller than this (radians) are dropped so the tail of a movement ends
+const SMOOTHING_EPSILON = 1e-6;
+
+const CM_PER_INCH = 2.54;
+
+/**
+ * Sensitivity that turns a full circle over the given mouse travel
+ * @param cmPer360 Centimeters of mouse movement per 360° turn
+ * @param dpi Counts the mouse reports per inch
+ */
+export function sensitivityFromCmPer360(cmPer360: number, dpi: number): number {
+  return 2 * Math.PI / (cmPer360 / CM_PER_INCH * dpi);
+}
+
+/**
+ * Centimeters of mouse movement a 360° turn takes at the given sensitivity
+ */
+export function cmPer360FromSensitivity(sensitivity: number, dpi: number): number {
+  return 2 * Math.PI / sensitivity / dpi * CM_PER_INCH;
+}
+
+/**
+ * Sensitivity multiplier for a zoomed field of view, so that the same mouse
+ * movement covers the same distance on screen as it does at the base FOV
+ * @param fov Current vertical field of view in degrees
+ * @param baseFov Field of view the sensitivity was set for, in degrees
+ */
+export function fovSensitivityScale(fov: number, baseFov: number): number {
+  const halfAngle = (degrees: number) => Math.tan(degrees * Math.PI / 360);
+  return halfAngle(fov) / halfAngle(baseFov);
+}
+
+/**
+ * Turns raw pointer-lock mouse movement into look input in radians, applying
+ * the user's sensitivity, inversion, acceleration, smoothing and FOV scaling.
+ * The simulation only sees the result, so replays don't depend on the
+ * settings they are watched with. Settings are persisted to storage
+ */
+export class MouseLook {
+  private store: SettingsStore<MouseSettings>;
+  private camera: { fov: number } | null = null;
+  private baseFov: number = 0;
+  private lastMoveTime: number | null = null;
+  private pending = { x: 0, y: 0 }; // Turn since the last frame, when smoothing
+  private smoothed = { x: 0, y: 0 }; // Turn sent last frame, when smoothing
+  private listeners: ((input: SimulationInput) => void)[] = [];
+
+  constructor(storage: SettingsStorage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.store = new SettingsStore('rapiertest.mouse', DEFAULT_MOUSE_SETTINGS, MOUSE_SETTING_RANGES, storage);
+  }
+
+  /**
+   * Current settings; change them through updateSettings so they are saved
+   */
+  public get settings(): Readonly<MouseSettings> {
+    return this.store.settings;
+  }
+
+  /**
+   * Register a listener for look input; returns a function that removes it
+   */
+  public onInput(listener: (input: SimulationInput) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Register a listener for settings changes; returns a function that removes it
+   */
+  public onSettingsChange(listener: (settings: MouseSettings) => void): () => void {
+    return this.store.onChange(listener);
+  }
+
+  /**
+   * Change some settings and persist them
+   */
+  public updateSettings(changes: Partial<MouseSettings>): void {
+    this.store.update(changes);
+  }
+
+  /**
+   * Restore the default settings
+   */
+  public resetSettings(): void {
+    this.store.reset();
+  }
+
+  /**
+   * Set the sensitivity from the mouse travel a full turn should take
+   */
+  public setCmPer360(cmPer360: number, dpi: number): void {
+    this.updateSettings({ sensitivity: sensitivityFromCmPer360(cmPer360, dpi) });
+  }
+
+  /**
+   * Camera whose field of view scales the sensitivity; its current FOV is the
+   * one the sensitivity applies to unchanged
+   */
+  public setCamera(camera: { fov: number }): void {
+    this.camera = camera;
+    this.baseFov = camera.fov;
+  }
+
+  /**
+   * The mouse moved while the pointer was locked
+   * @param movementX Counts moved right
+   * @param movementY Counts moved down
+   * @param time Timestamp in ms, used for acceleration
+   */
+  public move(movementX: number, movementY: number, time: number): void {
+    const { sensitivity, sensitivityX, sensitivityY, invertY, smoothing, acceleration, fovScaling } = this.settings;
+
+    let scale = sensitivity;
+    if (acceleration > 0 && this.lastMoveTime !== null) {
+      const speed = Math.hypot(movementX, movementY) / Math.max(time - this.lastMoveTime, 1);
+      scale *= 1 + acceleration * speed;
+    }
+    this.lastMoveTime = time;
+
+    if (fovScaling && this.camera) {
+      scale *= fovSensitivityScale(this.camera.fov, this.baseFov);
+    }
+
+    // Screen y points down, look input y up
+    const x = movementX * scale * sensitivityX;
+    const y = (invertY ? movementY : -movementY) * scale * sensitivityY;
+
+    if (smoothing > 0) {
+      this.pending.x += x;
+      this.pending.y += y;
+    } else {
+      this.emit(x, y);
+    }
+  }
+
+  /**
+   * Send the smoothed turn for this frame; call once per frame
+   */
+  public update(): void {
+    const smoothing = Math.min(this.settings.smoothing, 0.99);
+    if (smoothing <= 0 && this.smoothed.x === 0 && this.smoothed.y === 0) return;
+
+    this.smoothed.x = this.smoothed.x * smoothing + this.pending.x * (1 - smoothing);
+    this.smoothed.y = this.smoothed.y * smoothing + this.pending.y * (1 - smoothing);
+    this.pending = { x: 0, y: 0 };
+
+    if (Math.hypot(this.smoothed.x, this.smoothed.y) < SMOOTHING_EPSILON) {
+      this.smoothed = { x: 0, y: 0 };
+      return;
+    }
+    this.emit(this.smoothed.x, this.smoothed.y);
+  }
+
+  private emit(x: number, y: number) {
+    const input: SimulationInput = { type: 'look', x, y };
+    this.listeners.forEach(listener => listener(input));
+  }
+}
@@ -0,0 +1,137 @@
+import { SimulationInput } from './SimulationInput';
+import { InputRecording } from './InputRecorder';
+import { WorldSnapshot } from '../utils/Snapshot';
+
+// What a replay needs from the game to drive the simulation
+export interface ReplayTarget {
+  restore(snapshot: WorldSnapshot): void;
+  dispatch(input: SimulationInput): void;
+  step(stepSize: number): void; // Run one simulation tick
+  checksum(): number;
+}
+
+// Reported when the replayed world stops matching the recording
+export interface DesyncEvent {
+  tick: number;
+  expected: number;
+  actual: number;
+}
+
+const MIN_SPEED = 0.125;
+const MAX_SPEED = 8;
+
+/**
+ * Plays an input recording back through the simulation with pause, seek and
+ * speed control, comparing world checksums against the recording every tick
+ */
+export class ReplayPlayer {
+  readonly recording: InputRecording;
+  private target: ReplayTarget;
+  private framesByTick: Map<number, SimulationInput[]> = new Map();
+  private tick: number = 0; // Next tick to run
+  private paused: boolean = false;
+  private speed: number = 1;
+  private desynced: boolean = false;
+  private desyncListeners: ((event: DesyncEvent) => void)[] = [];
+
+  constructor(recording: InputRecording, target: ReplayTarget) {
+    this.recording = recording;
+    this.target = target;
+    recording.frames.forEach(frame => this.framesByTick.set(frame.tick, frame.inputs));
+  }
+
+  /**
+   * Register a listener for the first tick whose checksum differs from the
+   * recording; returns a function that removes it
+   */
+  public onDesync(listener: (event: DesyncEvent) => void): () => void {
+    this.desyncListeners.push(listener);
+    return () => {
+      this.desyncListeners = this.desyncListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Restore the recorded starting state and rewind to the first tick
+   */
+  public start(): void {
+    this.target.restore(this.recording.snapshot);
+    this.tick = 0;
+    this.desynced = false;
+  }
+
+  public getTick(): number {
+    return this.tick;
+  }
+
+  public getLength(): number {
+    return this.recording.checksums.length;
+  }
+
+  public isFinished(): boolean {
+    return this.tick >= this.getLength();
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Set the playback speed multiplier
+   */
+  public setSpeed(speed: number): void {
+    this.speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+  }
+
+  /**
+   * Scale to apply to elapsed frame time while replaying (0 when paused or finished)
+   */
+  public getTimeScale(): number {
+    return this.paused || this.isFinished() ? 0 : this.speed;
+  }
+
+  /**
+   * Call before each simulation tick to apply the recorded inputs
+   */
+  public beginTick(): void {
+    this.framesByTick.get(this.tick)?.forEach(input => this.target.dispatch(input));
+  }
+
+  /**
+   * Call after each simulation tick with the resulting world checksum
+   */
+  public endTick(checksum: number): void {
+    const expected = this.recording.checksums[this.tick];
+    if (!this.desynced && expected !== undefined && expected !== checksum) {
+      this.desynced = true;
+      const event = { tick: this.tick, expected, actual: checksum };
+      this.desyncListeners.forEach(listener => listener(event));
+    }
+    this.tick++;
+  }
+
+  /**
+   * Jump to a tick. Seeking backwards restarts from the recorded snapshot;
+   * either way the ticks in between are simulated without rendering
+   */
+  public seek(tick: number): void {
+    const target = Math.max(0, Math.min(this.getLength(), Math.round(tick)));
+    if (target < this.tick) {
+      this.start();
+    }
+
+    while (this.tick < target) {
+      this.beginTick();
+      this.target.step(this.recording.stepSize);
+      this.endTick(this.target.checksum());
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { InputAction } from './ActionMap';
+
+// A single input event as seen by the simulation. Live input and replays
+// both feed these to the controllers, so a recorded stream reproduces a session
+export type SimulationInput =
+  | { type: 'action'; action: InputAction; active: boolean }
+  // View rotation in radians (x right, y up), with the user's mouse/touch settings already applied
+  | { type: 'look'; x: number; y: number }
+  // Analog stick state: move in [-1, 1] (x right, y forward), look in radians per second (x right, y up)
+  | { type: 'axis'; axis: 'move' | 'look'; x: number; y: number }
+  // Furthest the view can look up or down in radians, from the user's mouse settings
+  | { type: 'pitchLimit'; radians: number };
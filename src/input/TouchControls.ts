@@ -0,0 +1,214 @@
+import { ActionMap } from './ActionMap';
+import { SimulationInput } from './SimulationInput';
+import { applyRadialDeadzone } from './GamepadInput';
+
+export interface TouchSettings {
+  joystickRadius: number; // Pixels the knob can travel from the joystick center
+  deadzone: number; // Radial deadzone of the joystick, as a fraction of its radius
+  lookSensitivity: number; // Radians turned per pixel dragged
+}
+
+export const DEFAULT_TOUCH_SETTINGS: TouchSettings = {
+  joystickRadius: 60,
+  deadzone: 0.1,
+  lookSensitivity: 0.003
+};
+
+// Touches that start in this fraction of the screen width control the joystick
+const JOYSTICK_AREA = 0.4;
+
+/**
+ * On-screen controls for touch screens: a floating joystick on the left for
+ * movement, dragging anywhere else to look, and fire/jump/pause buttons. The
+ * joystick produces the same analog move input as a gamepad stick, dragging
+ * the same look input as the mouse, and the buttons press TouchFire/TouchJump/
+ * TouchPause bindings in the action map
+ */
+export class TouchControls {
+  public settings: TouchSettings = { ...DEFAULT_TOUCH_SETTINGS };
+  private actionMap: ActionMap;
+  private overlay: HTMLDivElement;
+  private joystickBase: HTMLDivElement;
+  private joystickKnob: HTMLDivElement;
+  private joystickPointer: number | null = null;
+  private joystickCenter = { x: 0, y: 0 };
+  private lookPointers: Map<number, { x: number; y: number }> = new Map();
+  private listeners: ((input: SimulationInput) => void)[] = [];
+
+  /**
+   * Whether the primary pointing device is a touch screen
+   */
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches === true;
+  }
+
+  constructor(actionMap: ActionMap, container: HTMLElement = document.body) {
+    this.actionMap = actionMap;
+
+    // Full-screen layer that receives every touch and blocks scrolling and zooming
+    this.overlay = document.createElement('div');
+    Object.assign(this.overlay.style, {
+      position: 'fixed',
+      inset: '0',
+      touchAction: 'none',
+      userSelect: 'none',
+      webkitUserSelect: 'none'
+    });
+    container.appendChild(this.overlay);
+
+    this.joystickBase = createCircle(this.settings.joystickRadius * 2, 'rgba(255, 255, 255, 0.15)');
+    this.joystickKnob = createCircle(this.settings.joystickRadius, 'rgba(255, 255, 255, 0.4)');
+    this.joystickBase.style.display = 'none';
+    this.joystickKnob.style.display = 'none';
+    this.overlay.append(this.joystickBase, this.joystickKnob);
+
+    this.addButton('FIRE', 'TouchFire', { right: 20, bottom: 200 });
+    this.addButton('JUMP', 'TouchJump', { right: 120, bottom: 130 });
+    this.addButton('II', 'TouchPause', { right: 20, top: 20 }, 48);
+
+    this.overlay.addEventListener('pointerdown', (e) => this.onPointerDown(e));
+    this.overlay.addEventListener('pointermove', (e) => this.onPointerMove(e));
+    this.overlay.addEventListener('pointerup', (e) => this.onPointerUp(e));
+    this.overlay.addEventListener('pointercancel', (e) => this.onPointerUp(e));
+  }
+
+  /**
+   * Register a listener for joystick and look input; returns a function that removes it
+   */
+  public onInput(listener: (input: SimulationInput) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private onPointerDown(e: PointerEvent) {
+    this.overlay.setPointerCapture(e.pointerId);
+
+    // The joystick appears wherever the touch starts
+    if (this.joystickPointer === null && e.clientX < window.innerWidth * JOYSTICK_AREA) {
+      this.joystickPointer = e.pointerId;
+      this.joystickCenter = { x: e.clientX, y: e.clientY };
+      this.joystickBase.style.display = 'block';
+      this.joystickKnob.style.display = 'block';
+      placeCircle(this.joystickBase, e.clientX, e.clientY);
+      placeCircle(this.joystickKnob, e.clientX, e.clientY);
+      return;
+    }
+
+    this.lookPointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  }
+
+  private onPointerMove(e: PointerEvent) {
+    if (e.pointerId === this.joystickPointer) {
+      this.updateJoystick(e.clientX - this.joystickCenter.x, e.clientY - this.joystickCenter.y);
+      return;
+    }
+
+    const last = this.lookPointers.get(e.pointerId);
+    if (!last) return;
+
+    // Screen y points down, look input y up
+    const { lookSensitivity } = this.settings;
+    this.emit({
+      type: 'look',
+      x: (e.clientX - last.x) * lookSensitivity,
+      y: (last.y - e.clientY) * lookSensitivity
+    });
+    this.lookPointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  }
+
+  private onPointerUp(e: PointerEvent) {
+    if (e.pointerId === this.joystickPointer) {
+      this.joystickPointer = null;
+      this.joystickBase.style.display = 'none';
+      this.joystickKnob.style.display = 'none';
+      this.emit({ type: 'axis', axis: 'move', x: 0, y: 0 });
+      return;
+    }
+
+    this.lookPointers.delete(e.pointerId);
+  }
+
+  // Move the knob (clamped to the base) and send the proportional move input
+  private updateJoystick(dx: number, dy: number) {
+    const { joystickRadius, deadzone } = this.settings;
+    const distance = Math.hypot(dx, dy);
+    const scale = distance > joystickRadius ? joystickRadius / distance : 1;
+    placeCircle(this.joystickKnob, this.joystickCenter.x + dx * scale, this.joystickCenter.y + dy * scale);
+
+    // Screen y points down, move input y forward
+    const axis = applyRadialDeadzone(dx / joystickRadius, dy / joystickRadius, deadzone);
+    this.emit({ type: 'axis', axis: 'move', x: axis.x, y: axis.y === 0 ? 0 : -axis.y });
+  }
+
+  // Buttons hold their binding while touched; they handle their own touches so they
+  // don't start looking or the joystick
+  private addButton(
+    label: string,
+    binding: string,
+    position: { right: number; top?: number; bottom?: number },
+    size: number = 80
+  ) {
+    const button = createCircle(size, 'rgba(255, 255, 255, 0.25)');
+    Object.assign(button.style, {
+      right: `${position.right}px`,
+      ...(position.top !== undefined ? { top: `${position.top}px` } : {}),
+      ...(position.bottom !== undefined ? { bottom: `${position.bottom}px` } : {}),
+      color: 'white',
+      fontFamily: 'sans-serif',
+      fontSize: '14px',
+      fontWeight: 'bold',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      pointerEvents: 'auto'
+    });
+    button.textContent = label;
+
+    const pressed = new Set<number>();
+    button.addEventListener('pointerdown', (e) => {
+      e.stopPropagation();
+      button.setPointerCapture(e.pointerId);
+      pressed.add(e.pointerId);
+      this.actionMap.press(binding, e.timeStamp);
+      button.style.backgroundColor = 'rgba(255, 255, 255, 0.5)';
+    });
+
+    const release = (e: PointerEvent) => {
+      e.stopPropagation();
+      if (!pressed.delete(e.pointerId) || pressed.size > 0) return;
+      this.actionMap.release(binding);
+      button.style.backgroundColor = 'rgba(255, 255, 255, 0.25)';
+    };
+    button.addEventListener('pointerup', release);
+    button.addEventListener('pointercancel', release);
+
+    this.overlay.appendChild(button);
+  }
+
+  private emit(input: SimulationInput) {
+    this.listeners.forEach(listener => listener(input));
+  }
+}
+
+function createCircle(size: number, color: string): HTMLDivElement {
+  const circle = document.createElement('div');
+  Object.assign(circle.style, {
+    position: 'absolute',
+    width: `${size}px`,
+    height: `${size}px`,
+    borderRadius: '50%',
+    backgroundColor: color,
+    border: '2px solid rgba(255, 255, 255, 0.5)',
+    boxSizing: 'border-box',
+    pointerEvents: 'none'
+  });
+  return circle;
+}
+
+// Center a circle on a screen position
+function placeCircle(circle: HTMLDivElement, x: number, y: number) {
+  circle.style.left = `${x - circle.offsetWidth / 2}px`;
+  circle.style.top = `${y - circle.offsetHeight / 2}px`;
+}
@@ -0,0 +1,9 @@
+import defaultLevel from './default.json';
+import arenaLevel from './arena.json';
+import { LevelDefinition, validateLevel } from './LevelSchema';
+
+// Levels that can be switched between at runtime, validated at import so a broken level fails on startup
+export const LEVEL_DEFINITIONS: LevelDefinition[] = [
+  defaultLevel,
+  arenaLevel
+].map(validateLevel);
@@ -0,0 +1,285 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { createCube, createRandomCubes, createStackedCubes } from '../objects/Cube';
+import { createGround } from '../objects/Ground';
+import { loadModel } from '../objects/Model';
+import { DestructibleModel, loadDestructibleModel } from '../objects/DestructibleModel';
+import { createKillVolume } from '../objects/KillVolume';
+import { createTrigger } from '../objects/Trigger';
+import { createMovingPlatform } from '../objects/MovingPlatform';
+import { getGroupMask } from '../utils/CollisionGroups';
+import { setupLights } from '../utils/Lights';
+import {
+  ColorValue,
+  EntityDefinition,
+  LevelDefinition,
+  SpawnPointDefinition,
+  TransformDefinition,
+  validateLevel
+} from './LevelSchema';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+
+// Everything built for a loaded level
+export interface Level {
+  definition: LevelDefinition;
+  spawnPoints: SpawnPointDefinition[];
+  destructibles: DestructibleModel[];
+}
+
+// Builds levels from level data and tears them down again
+export class LevelLoader {
+  private scene: THREE.Scene;
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private currentLevel: Level | null = null;
+  // Root objects added to the scene by the current level
+  private objects: THREE.Object3D[] = [];
+  private previousBackground: THREE.Color | THREE.Texture | null = null;
+
+  constructor(
+    scene: THREE.Scene,
+    physics: { world: RAPIER.World; entities: EntityRegistry }
+  ) {
+    this.scene = scene;
+    this.physics = physics;
+  }
+
+  getCurrentLevel(): Level | null {
+    return this.currentLevel;
+  }
+
+  // Validate level data, unload the current level and build the new one
+  async load(data: unknown): Promise<Level> {
+    // Validate before touching the scene so a bad level leaves the current one intact
+    const definition = validateLevel(data);
+    this.unload();
+
+    const level: Level = {
+      definition,
+      spawnPoints: definition.spawnPoints,
+      destructibles: []
+    };
+    this.currentLevel = level;
+
+    // Lighting
+    const lighting = definition.lighting ?? {};
+    this.previousBackground = this.scene.background as THREE.Color | THREE.Texture | null;
+    if (lighting.background !== undefined) {
+      this.scene.background = new THREE.Color(lighting.background);
+    }
+    const lights = setupLights(this.scene, {
+      ambient: lighting.ambient && {
+        color: toHex(lighting.ambient.color),
+        intensity: lighting.ambient.intensity
+      },
+      directional: lighting.directional && {
+        color: toHex(lighting.directional.color),
+        intensity: lighting.directional.intensity,
+        position: lighting.directional.position
+      }
+    });
+    this.objects.push(...lights);
+
+    // Entities are built in order; a model that fails to load is skipped
+    for (let i = 0; i < definition.entities.length; i++) {
+      const entity = definition.entities[i];
+      try {
+        await this.createEntity(entity, entity.id ?? `entities[${i}]`, level);
+      } catch (error) {
+        console.error(`Failed to create entity "${entity.id ?? `entities[${i}]`}" in level "${definition.name}":`, error);
+      }
+    }
+
+    return level;
+  }
+
+  // Remove every object and entity created by the current level
+  unload() {
+    if (!this.currentLevel) return;
+
+    const entities: Entity[] = [];
+    this.objects.forEach(object => {
+      this.scene.remove(object);
+
+      object.traverse(child => {
+        const entity = this.physics.entities.getByObject(child);
+        if (entity) {
+          entities.push(entity);
+        }
+
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+          materials.forEach(material => disposeMaterial(material));
+        } else if (child instanceof THREE.Light) {
+          child.dispose();
+        }
+      });
+    });
+
+    // Despawned after the traversal, which detaching objects would disturb
+    entities.forEach(entity => this.physics.entities.despawn(this.physics.world, entity));
+
+    this.scene.background = this.previousBackground;
+    this.objects = [];
+    this.currentLevel = null;
+  }
+
+  // Objects are named after the entity so snapshots can find them again
+  private async createEntity(entity: EntityDefinition, name: string, level: Level) {
+    const position = entity.transform?.position ?? { x: 0, y: 0, z: 0 };
+
+    switch (entity.type) {
+      case 'ground': {
+        const ground = createGround(this.physics, {
+          size: entity.size,
+          color: toHex(entity.color),
+          position,
+          material: entity.material
+        });
+        ground.name = name;
+        this.add(ground);
+        break;
+      }
+      case 'cube': {
+        const bodyType = entity.bodyType ?? 'dynamic';
+        const cube = createCube(
+          this.physics,
+          position,
+          entity.size,
+          toHex(entity.color),
+          entity.material,
+          bodyType
+        );
+        applyRotation(cube.mesh, cube.rigidBody, entity.transform);
+        cube.mesh.name = name;
+        this.add(cube.mesh);
+        break;
+      }
+      case 'cubeStack': {
+        const cubes = createStackedCubes(this.physics, entity.width, entity.height, position, entity.size);
+        cubes.forEach((cube, i) => {
+          cube.mesh.name = `${name}[${i}]`;
+          this.add(cube.mesh);
+        });
+        break;
+      }
+      case 'randomCubes': {
+        const cubes = createRandomCubes(this.physics, entity.count, entity.area, entity.heightRange, position);
+        cubes.forEach((cube, i) => {
+          cube.mesh.name = `${name}[${i}]`;
+          this.add(cube.mesh);
+        });
+        break;
+      }
+      case 'model': {
+        const isStatic = (entity.bodyType ?? 'fixed') === 'fixed';
+        const { model, rigidBody, triggers } = await loadModel(
+          this.physics,
+          entity.model,
+          position,
+          entity.transform?.scale,
+          isStatic,
+          { colliderMode: entity.collider, ...entity.material }
+        );
+        applyRotation(model, rigidBody, entity.transform);
+        model.name = name;
+        this.add(model);
+        triggers.forEach(trigger => {
+          trigger.name = `${name}.${trigger.name}`;
+          this.add(trigger);
+        });
+        break;
+      }
+      case 'destructible': {
+        const destructible = await loadDestructibleModel(
+          this.physics,
+          entity.model,
+          position,
+          entity.transform?.scale,
+          entity.destructible
+        );
+        destructible.group.name = name;
+        this.add(destructible.group);
+        level.destructibles.push(destructible);
+        break;
+      }
+      case 'killVolume': {
+        const { object, rigidBody } = createKillVolume(this.physics, position, {
+          shape: entity.shape,
+          size: entity.size,
+          policies: entity.policies,
+          damage: entity.damage,
+          respawnArea: entity.respawnArea
+        });
+        applyRotation(object, rigidBody, entity.transform);
+        object.name = name;
+        this.add(object);
+        break;
+      }
+      case 'platform': {
+        // Platforms keep turning from their rotation at rest, so it's passed in rather than applied
+        const { mesh } = createMovingPlatform(this.physics, position, entity.motion, {
+          size: entity.size,
+          color: toHex(entity.color),
+          material: entity.material,
+          rotation: getRotation(entity.transform),
+          spin: entity.spin
+        });
+        mesh.name = name;
+        this.add(mesh);
+        break;
+      }
+      case 'trigger': {
+        const { object, rigidBody } = createTrigger(this.physics, position, {
+          name,
+          size: entity.size,
+          filter: entity.filter && getGroupMask(entity.filter),
+          once: entity.once,
+          action: entity.action
+        });
+        applyRotation(object, rigidBody, entity.transform);
+        object.name = name;
+        this.add(object);
+        break;
+      }
+    }
+  }
+
+  // Add an object to the current level, so it is removed along with it (e.g. things
+  // spawned during play)
+  add(object: THREE.Object3D) {
+    this.scene.add(object);
+    this.objects.push(object);
+  }
+}
+
+// Rotate an object and its body about the body origin
+function applyRotation(object: THREE.Object3D, rigidBody: RAPIER.RigidBody, transform?: TransformDefinition) {
+  if (!transform?.rotation) return;
+
+  object.quaternion.copy(getRotation(transform));
+  rigidBody.setRotation(object.quaternion, true);
+}
+
+function getRotation(transform?: TransformDefinition): THREE.Quaternion {
+  const { x, y, z } = transform?.rotation ?? { x: 0, y: 0, z: 0 };
+  return new THREE.Quaternion().setFromEuler(new THREE.Euler(
+    THREE.MathUtils.degToRad(x),
+    THREE.MathUtils.degToRad(y),
+    THREE.MathUtils.degToRad(z)
+  ));
+}
+
+function toHex(color?: ColorValue): number | undefined {
+  return color === undefined ? undefined : new THREE.Color(color).getHex();
+}
+
+// Dispose a material along with any textures it uses
+function disposeMaterial(material: THREE.Material) {
+  Object.values(material).forEach(value => {
+    if (value instanceof THREE.Texture) {
+      value.dispose();
+    }
+  });
+  material.dispose();
+}
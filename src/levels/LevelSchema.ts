@@ -0,0 +1,488 @@
+import { COLLIDER_MODES, ColliderMode } from '../objects/Model';
+import { DestructibleOptions } from '../objects/DestructibleModel';
+import { KillVolumePolicy, KillVolumeTarget } from '../objects/KillVolume';
+import { TriggerAction } from '../objects/Trigger';
+import { PlatformMotion } from '../objects/MovingPlatform';
+import { COLLISION_GROUP_NAMES, CollisionGroupName } from '../utils/CollisionGroups';
+import { BodyType, PhysicsMaterial } from '../utils/PhysicsMaterial';
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Colors are hex numbers or CSS color strings such as "#1a5f2a"
+export type ColorValue = number | string;
+
+export interface TransformDefinition {
+  position?: Vec3; // Defaults to the origin
+  rotation?: Vec3; // Euler angles in degrees
+  scale?: number; // Uniform scale
+}
+
+export interface LightingDefinition {
+  background?: ColorValue;
+  ambient?: { color?: ColorValue; intensity?: number };
+  directional?: { color?: ColorValue; intensity?: number; position?: Vec3 };
+}
+
+export interface SpawnPointDefinition {
+  name?: string;
+  position: Vec3;
+  yaw?: number; // Facing direction in degrees
+}
+
+interface EntityBase {
+  id?: string; // Used to name the entity in errors and logs
+  transform?: TransformDefinition;
+}
+
+export interface GroundEntity extends EntityBase {
+  type: 'ground';
+  size?: number;
+  color?: ColorValue;
+  material?: PhysicsMaterial;
+}
+
+export interface CubeEntity extends EntityBase {
+  type: 'cube';
+  size?: number | Vec3; // Edge length, or a size per axis for a box
+  color?: ColorValue;
+  bodyType?: BodyType;
+  material?: PhysicsMaterial;
+}
+
+export interface CubeStackEntity extends EntityBase {
+  type: 'cubeStack';
+  width: number; // Cubes per side of the bottom layer
+  height: number; // Number of layers
+  size?: number;
+}
+
+export interface RandomCubesEntity extends EntityBase {
+  type: 'randomCubes';
+  count: number;
+  area?: number;
+  heightRange?: number;
+}
+
+export interface ModelEntity extends EntityBase {
+  type: 'model';
+  model: string; // Path to a glTF/GLB file
+  bodyType?: 'fixed' | 'dynamic';
+  collider?: ColliderMode;
+  material?: PhysicsMaterial;
+}
+
+export interface DestructibleEntity extends EntityBase {
+  type: 'destructible';
+  model: string; // Path to a glTF/GLB file with one mesh node per piece
+  destructible?: DestructibleOptions;
+}
+
+// Invisible volume dealing with whatever enters it, e.g. a plane below the level
+export interface KillVolumeEntity extends EntityBase {
+  type: 'killVolume';
+  shape?: 'box' | 'plane'; // Planes catch everything below the position's height
+  size?: Vec3; // Box size
+  policies?: Partial<Record<KillVolumeTarget, KillVolumePolicy>>;
+  damage?: number;
+  respawnArea?: { min: Vec3; max: Vec3 };
+}
+
+// Invisible box reporting what enters it, with an optional built-in action
+export interface TriggerEntity extends EntityBase {
+  type: 'trigger';
+  size?: Vec3;
+  filter?: CollisionGroupName[]; // Defaults to the player only
+  once?: boolean;
+  action?: TriggerAction;
+}
+
+// Kinematic box that carries whatever stands on it
+export interface PlatformEntity extends EntityBase {
+  type: 'platform';
+  size?: Vec3;
+  color?: ColorValue;
+  material?: PhysicsMaterial;
+  motion: PlatformMotion; // Waypoints are relative to the platform's position
+  spin?: number; // Degrees per second about the vertical axis
+}
+
+export type EntityDefinition =
+  | GroundEntity
+  | CubeEntity
+  | CubeStackEntity
+  | RandomCubesEntity
+  | ModelEntity
+  | DestructibleEntity
+  | KillVolumeEntity
+  | TriggerEntity
+  | PlatformEntity;
+
+export interface LevelDefinition {
+  name: string;
+  lighting?: LightingDefinition;
+  spawnPoints: SpawnPointDefinition[];
+  entities: EntityDefinition[];
+}
+
+// Thrown when level data does not match the schema
+export class LevelValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LevelValidationError';
+  }
+}
+
+// Fields each entity type accepts, and which parts of the transform it supports
+const ENTITY_SCHEMAS: Record<EntityDefinition['type'], { fields: string[]; rotation: boolean; scale: boolean }> = {
+  ground: { fields: ['size', 'color', 'material'], rotation: false, scale: false },
+  cube: { fields: ['size', 'color', 'bodyType', 'material'], rotation: true, scale: false },
+  cubeStack: { fields: ['width', 'height', 'size'], rotation: false, scale: false },
+  randomCubes: { fields: ['count', 'area', 'heightRange'], rotation: false, scale: false },
+  model: { fields: ['model', 'bodyType', 'collider', 'material'], rotation: true, scale: true },
+  destructible: { fields: ['model', 'destructible'], rotation: false, scale: true },
+  killVolume: { fields: ['shape', 'size', 'policies', 'damage', 'respawnArea'], rotation: true, scale: false },
+  trigger: { fields: ['size', 'filter', 'once', 'action'], rotation: true, scale: false },
+  platform: { fields: ['size', 'color', 'material', 'motion', 'spin'], rotation: true, scale: false }
+};
+
+const BODY_TYPES: BodyType[] = ['dynamic', 'fixed', 'kinematic'];
+const KILL_VOLUME_TARGETS: KillVolumeTarget[] = ['player', 'projectile', 'dynamic'];
+const KILL_VOLUME_POLICIES: KillVolumePolicy[] = ['respawnAtOrigin', 'respawnInArea', 'destroy', 'damage'];
+const TRIGGER_ACTION_FIELDS: Record<TriggerAction['type'], string[]> = {
+  checkpoint: [],
+  teleport: ['position', 'yaw'],
+  spawnCubes: ['count', 'position', 'area'],
+  door: ['door', 'offset', 'speed']
+};
+
+/**
+ * Check that raw level data (e.g. parsed JSON) matches the level schema
+ * @param data Level data to check
+ * @returns The same data, typed as a level definition
+ * @throws LevelValidationError naming the offending entity and field
+ */
+export function validateLevel(data: unknown): LevelDefinition {
+  const level = expectObject(data, 'Level');
+  const name = expectString(level.name, 'Level "name"');
+  const context = `Level "${name}"`;
+  checkFields(level, ['name', 'lighting', 'spawnPoints', 'entities'], context);
+
+  if (level.lighting !== undefined) {
+    validateLighting(level.lighting, `${context} lighting`);
+  }
+
+  const spawnPoints = expectArray(level.spawnPoints, `${context} "spawnPoints"`);
+  if (spawnPoints.length === 0) {
+    throw new LevelValidationError(`${context}: "spawnPoints" needs at least one spawn point`);
+  }
+  spawnPoints.forEach((value, i) => {
+    const spawnContext = `${context} spawnPoints[${i}]`;
+    const spawn = expectObject(value, spawnContext);
+    checkFields(spawn, ['name', 'position', 'yaw'], spawnContext);
+    optional(spawn.name, `${spawnContext} "name"`, expectString);
+    expectVec3(spawn.position, `${spawnContext} "position"`);
+    optional(spawn.yaw, `${spawnContext} "yaw"`, expectNumber);
+  });
+
+  const ids = new Set<string>();
+  expectArray(level.entities, `${context} "entities"`).forEach((value, i) => {
+    const entity = expectObject(value, `${context} entities[${i}]`);
+    const id = optional(entity.id, `${context} entities[${i}] "id"`, expectString);
+    const entityContext = `${context} entity ${id !== undefined ? `"${id}"` : `entities[${i}]`}`;
+
+    if (id !== undefined) {
+      if (ids.has(id)) {
+        throw new LevelValidationError(`${entityContext}: duplicate entity id`);
+      }
+      ids.add(id);
+    }
+
+    validateEntity(entity, entityContext);
+  });
+
+  return data as LevelDefinition;
+}
+
+function validateEntity(entity: Record<string, unknown>, context: string) {
+  const type = expectString(entity.type, `${context} "type"`);
+  if (!(type in ENTITY_SCHEMAS)) {
+    throw new LevelValidationError(
+      `${context}: unknown type "${type}" (expected one of ${Object.keys(ENTITY_SCHEMAS).join(', ')})`
+    );
+  }
+
+  const schema = ENTITY_SCHEMAS[type as EntityDefinition['type']];
+  checkFields(entity, ['id', 'type', 'transform', ...schema.fields], context);
+
+  if (entity.transform !== undefined) {
+    const transformContext = `${context} "transform"`;
+    const transform = expectObject(entity.transform, transformContext);
+    checkFields(transform, ['position', 'rotation', 'scale'], transformContext);
+    optional(transform.position, `${transformContext}.position`, expectVec3);
+
+    if (transform.rotation !== undefined) {
+      if (!schema.rotation) {
+        throw new LevelValidationError(`${context}: "${type}" entities do not support rotation`);
+      }
+      expectVec3(transform.rotation, `${transformContext}.rotation`);
+    }
+    if (transform.scale !== undefined) {
+      if (!schema.scale) {
+        throw new LevelValidationError(`${context}: "${type}" entities do not support scale`);
+      }
+      expectPositive(transform.scale, `${transformContext}.scale`);
+    }
+  }
+
+  switch (type) {
+    case 'ground':
+    case 'cube':
+      optional(
+        entity.size,
+        `${context} "size"`,
+        (value, c) => typeof value === 'number' ? expectPositive(value, c) : expectSize(value, c)
+      );
+      optional(entity.color, `${context} "color"`, expectColor);
+      optional(entity.material, `${context} "material"`, expectMaterial);
+      optional(entity.bodyType, `${context} "bodyType"`, (value, c) => expectOneOf(value, BODY_TYPES, c));
+      break;
+    case 'cubeStack':
+      expectPositive(entity.width, `${context} "width"`);
+      expectPositive(entity.height, `${context} "height"`);
+      optional(entity.size, `${context} "size"`, expectPositive);
+      break;
+    case 'randomCubes':
+      expectPositive(entity.count, `${context} "count"`);
+      optional(entity.area, `${context} "area"`, expectPositive);
+      optional(entity.heightRange, `${context} "heightRange"`, expectNumber);
+      break;
+    case 'model':
+      expectString(entity.model, `${context} "model"`);
+      optional(entity.bodyType, `${context} "bodyType"`, (value, c) => expectOneOf(value, ['fixed', 'dynamic'], c));
+      optional(entity.collider, `${context} "collider"`, (value, c) => expectOneOf(value, COLLIDER_MODES, c));
+      optional(entity.material, `${context} "material"`, expectMaterial);
+      break;
+    case 'destructible': {
+      expectString(entity.model, `${context} "model"`);
+      if (entity.destructible !== undefined) {
+        const optionsContext = `${context} "destructible"`;
+        const options = expectObject(entity.destructible, optionsContext);
+        const fields = ['breakImpulse', 'groundTolerance', 'contactTolerance', 'restitution', 'friction'];
+        checkFields(options, fields, optionsContext);
+        fields.forEach(field => optional(options[field], `${optionsContext}.${field}`, expectNumber));
+      }
+      break;
+    }
+    case 'killVolume': {
+      optional(entity.shape, `${context} "shape"`, (value, c) => expectOneOf(value, ['box', 'plane'], c));
+      optional(entity.size, `${context} "size"`, expectSize);
+      if (entity.policies !== undefined) {
+        const policiesContext = `${context} "policies"`;
+        const policies = expectObject(entity.policies, policiesContext);
+        checkFields(policies, KILL_VOLUME_TARGETS, policiesContext);
+        KILL_VOLUME_TARGETS.forEach(target => optional(
+          policies[target],
+          `${policiesContext}.${target}`,
+          (value, c) => expectOneOf(value, KILL_VOLUME_POLICIES, c)
+        ));
+      }
+      optional(entity.damage, `${context} "damage"`, expectPositive);
+      if (entity.respawnArea !== undefined) {
+        const areaContext = `${context} "respawnArea"`;
+        const area = expectObject(entity.respawnArea, areaContext);
+        checkFields(area, ['min', 'max'], areaContext);
+        expectVec3(area.min, `${areaContext}.min`);
+        expectVec3(area.max, `${areaContext}.max`);
+      }
+      break;
+    }
+    case 'trigger':
+      optional(entity.size, `${context} "size"`, expectSize);
+      if (entity.filter !== undefined) {
+        expectArray(entity.filter, `${context} "filter"`).forEach((value, i) => {
+          expectOneOf(value, COLLISION_GROUP_NAMES, `${context} "filter"[${i}]`);
+        });
+      }
+      optional(entity.once, `${context} "once"`, expectBoolean);
+      optional(entity.action, `${context} "action"`, validateTriggerAction);
+      break;
+    case 'platform':
+      optional(entity.size, `${context} "size"`, expectSize);
+      optional(entity.color, `${context} "color"`, expectColor);
+      optional(entity.material, `${context} "material"`, expectMaterial);
+      validatePlatformMotion(entity.motion, `${context} "motion"`);
+      optional(entity.spin, `${context} "spin"`, expectNumber);
+      break;
+  }
+}
+
+function validatePlatformMotion(value: unknown, context: string) {
+  const motion = expectObject(value, context);
+  const type = expectOneOf(motion.type, ['waypoints', 'sine'], `${context}.type`);
+
+  if (type === 'waypoints') {
+    checkFields(motion, ['type', 'points', 'speed', 'spline', 'loop', 'wait'], context);
+    const points = expectArray(motion.points, `${context}.points`);
+    if (points.length < 2) {
+      throw new LevelValidationError(`${context}: "points" needs at least two waypoints`);
+    }
+    points.forEach((point, i) => expectVec3(point, `${context}.points[${i}]`));
+    expectPositive(motion.speed, `${context}.speed`);
+    optional(motion.spline, `${context}.spline`, expectBoolean);
+    optional(motion.loop, `${context}.loop`, expectBoolean);
+    optional(motion.wait, `${context}.wait`, expectNumber);
+  } else {
+    checkFields(motion, ['type', 'amplitude', 'period', 'phase'], context);
+    expectVec3(motion.amplitude, `${context}.amplitude`);
+    expectPositive(motion.period, `${context}.period`);
+    optional(motion.phase, `${context}.phase`, expectNumber);
+  }
+}
+
+function validateTriggerAction(value: unknown, context: string) {
+  const action = expectObject(value, context);
+  const type = expectOneOf(action.type, Object.keys(TRIGGER_ACTION_FIELDS) as TriggerAction['type'][], `${context}.type`);
+  checkFields(action, ['type', ...TRIGGER_ACTION_FIELDS[type]], context);
+
+  switch (type) {
+    case 'checkpoint':
+      break;
+    case 'teleport':
+      expectVec3(action.position, `${context}.position`);
+      optional(action.yaw, `${context}.yaw`, expectNumber);
+      break;
+    case 'spawnCubes':
+      expectPositive(action.count, `${context}.count`);
+      expectVec3(action.position, `${context}.position`);
+      optional(action.area, `${context}.area`, expectPositive);
+      break;
+    case 'door':
+      expectString(action.door, `${context}.door`);
+      expectVec3(action.offset, `${context}.offset`);
+      optional(action.speed, `${context}.speed`, expectPositive);
+      break;
+  }
+}
+
+function validateLighting(value: unknown, context: string) {
+  const lighting = expectObject(value, context);
+  checkFields(lighting, ['background', 'ambient', 'directional'], context);
+  optional(lighting.background, `${context} "background"`, expectColor);
+
+  if (lighting.ambient !== undefined) {
+    const ambient = expectObject(lighting.ambient, `${context} "ambient"`);
+    checkFields(ambient, ['color', 'intensity'], `${context} "ambient"`);
+    optional(ambient.color, `${context} "ambient.color"`, expectColor);
+    optional(ambient.intensity, `${context} "ambient.intensity"`, expectNumber);
+  }
+
+  if (lighting.directional !== undefined) {
+    const directional = expectObject(lighting.directional, `${context} "directional"`);
+    checkFields(directional, ['color', 'intensity', 'position'], `${context} "directional"`);
+    optional(directional.color, `${context} "directional.color"`, expectColor);
+    optional(directional.intensity, `${context} "directional.intensity"`, expectNumber);
+    optional(directional.position, `${context} "directional.position"`, expectVec3);
+  }
+}
+
+// Reject unknown fields so typos don't silently fall back to defaults
+function checkFields(object: Record<string, unknown>, allowed: string[], context: string) {
+  Object.keys(object).forEach(key => {
+    if (!allowed.includes(key)) {
+      throw new LevelValidationError(`${context}: unknown field "${key}"`);
+    }
+  });
+}
+
+function optional<T>(value: unknown, context: string, check: (value: unknown, context: string) => T): T | undefined {
+  return value === undefined ? undefined : check(value, context);
+}
+
+function expectObject(value: unknown, context: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new LevelValidationError(`${context} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, context: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new LevelValidationError(`${context} must be an array`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, context: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new LevelValidationError(`${context} must be a non-empty string`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, context: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new LevelValidationError(`${context} must be a number`);
+  }
+  return value;
+}
+
+function expectPositive(value: unknown, context: string): number {
+  if (expectNumber(value, context) <= 0) {
+    throw new LevelValidationError(`${context} must be greater than 0`);
+  }
+  return value as number;
+}
+
+function expectBoolean(value: unknown, context: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new LevelValidationError(`${context} must be true or false`);
+  }
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, options: readonly T[], context: string): T {
+  if (!options.includes(value as T)) {
+    throw new LevelValidationError(`${context} must be one of ${options.join(', ')}`);
+  }
+  return value as T;
+}
+
+function expectVec3(value: unknown, context: string): Vec3 {
+  const vector = expectObject(value, context);
+  checkFields(vector, ['x', 'y', 'z'], context);
+  expectNumber(vector.x, `${context}.x`);
+  expectNumber(vector.y, `${context}.y`);
+  expectNumber(vector.z, `${context}.z`);
+  return vector as unknown as Vec3;
+}
+
+function expectSize(value: unknown, context: string): Vec3 {
+  const size = expectVec3(value, context);
+  expectPositive(size.x, `${context}.x`);
+  expectPositive(size.y, `${context}.y`);
+  expectPositive(size.z, `${context}.z`);
+  return size;
+}
+
+function expectColor(value: unknown, context: string): ColorValue {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffff) {
+    return value;
+  }
+  if (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)) {
+    return value;
+  }
+  throw new LevelValidationError(`${context} must be a color such as "#1a5f2a"`);
+}
+
+function expectMaterial(value: unknown, context: string): PhysicsMaterial {
+  const material = expectObject(value, context);
+  checkFields(material, ['friction', 'restitution', 'density'], context);
+  optional(material.friction, `${context}.friction`, expectNumber);
+  optional(material.restitution, `${context}.restitution`, expectNumber);
+  optional(material.density, `${context}.density`, expectPositive);
+  return material as PhysicsMaterial;
+}
@@ -1,16 +1,45 @@
 import * as THREE from 'three';
-import { FPSController } from './controllers/FPSController';
-import { createGround } from './objects/Ground';
+import { FPSController, MovementSettings } from './controllers/FPSController';
+import movementSettings from './config/movement.json';
 import { createSky } from './objects/Sky';
-import { setupLights } from './utils/Lights';
-import { createCube, createRandomCubes } from './objects/Cube';
-import { loadModel } from './objects/Model';
+import { DestructibleModel } from './objects/DestructibleModel';
+import { LevelLoader } from './levels/LevelLoader';
+import { LEVEL_DEFINITIONS } from './levels/LevelDefinitions';
 import { InputHandler } from './input/InputHandler';
+import { ActionMap } from './input/ActionMap';
+import { TouchControls } from './input/TouchControls';
+import { MouseSettings } from './input/MouseLook';
+import { PauseMenu } from './ui/PauseMenu';
+import { Hud } from './ui/Hud';
+import { InputRecorder, InputRecording } from './input/InputRecorder';
+import { ReplayPlayer } from './input/ReplayPlayer';
 import { ProjectileManager } from './controllers/ProjectileManager';
+import { WeaponManager } from './controllers/WeaponManager';
+import { HitscanManager } from './controllers/HitscanManager';
+import { ExplosionManager } from './controllers/ExplosionManager';
+import { DamageManager } from './controllers/DamageManager';
+import { RespawnManager } from './controllers/RespawnManager';
+import { KillVolumeManager } from './controllers/KillVolumeManager';
+import { TriggerManager } from './controllers/TriggerManager';
+import { TriggerActions } from './controllers/TriggerActions';
+import { PlatformManager } from './controllers/PlatformManager';
+import { Health } from './components/Health';
+import { WEAPON_DEFINITIONS } from './weapons/WeaponDefinitions';
+import { FixedTimestep } from './utils/FixedTimestep';
+import { CollisionEvents } from './utils/CollisionEvents';
+import { SnapshotManager, WorldSnapshot, deserializeSnapshot, serializeSnapshot } from './utils/Snapshot';
+import { random } from './utils/Random';
+import { simulationClock } from './utils/SimulationClock';
+import { SettingsStore } from './utils/SettingsStore';
+import { DEFAULT_GAME_SETTINGS, GAME_SETTING_RANGES, GameSettings } from './utils/GameSettings';
 import Stats from 'stats.js';
 
 // Import Rapier directly - the plugins will handle the WASM loading
 import RAPIER from '@dimforge/rapier3d-compat';
+import { EntityRegistry } from './entities/EntityRegistry';
+
+// Display and audio settings from the pause menu
+const gameSettings = new SettingsStore('rapiertest.settings', DEFAULT_GAME_SETTINGS, GAME_SETTING_RANGES);
 
 // Initialize scene, camera, and renderer
 const scene = new THREE.Scene();
@@ -18,18 +47,22 @@ const scene = new THREE.Scene();
 scene.background = new THREE.Color(0x87CEEB);
 // No fog for now until we get the basic scene working
 // scene.fog = new THREE.FogExp2(0x88BBFF, 0.0025);
-const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
+const camera = new THREE.PerspectiveCamera(gameSettings.settings.fov, window.innerWidth / window.innerHeight, 0.1, 1000);
 const renderer = new THREE.WebGLRenderer({ 
-  antialias: true,
+  antialias: gameSettings.settings.antialias,
   alpha: false,
   powerPreference: 'high-performance' 
 });
 renderer.setClearColor(0x87CEEB, 1);
 renderer.setSize(window.innerWidth, window.innerHeight);
-renderer.setPixelRatio(window.devicePixelRatio);
-renderer.shadowMap.enabled = true;
+renderer.setPixelRatio(window.devicePixelRatio * gameSettings.settings.pixelRatio);
+renderer.shadowMap.enabled = gameSettings.settings.shadows;
 document.body.appendChild(renderer.domElement);
 
+// Sounds play through the camera's listener, which carries the master volume
+const audioListener = new THREE.AudioListener();
+camera.add(audioListener);
+
 // Initialize stats.js
 const stats = new Stats();
 stats.showPanel(0); // 0: fps, 1: ms, 2: mb, 3+: custom
@@ -38,14 +71,44 @@ document.body.appendChild(stats.dom);
 // Initialize Rapier physics
 let physics: {
   world: RAPIER.World;
-  rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody>;
+  entities: EntityRegistry;
 };
 
 let fpsController: FPSController;
 let inputHandler: InputHandler;
+let actionMap: ActionMap;
+let pauseMenu: PauseMenu;
+let hud: Hud;
+let paused = false;
 let projectileManager: ProjectileManager;
+let weaponManager: WeaponManager;
+let hitscanManager: HitscanManager;
+let collisionEvents: CollisionEvents;
+let explosionManager: ExplosionManager;
+let snapshotManager: SnapshotManager;
+let damageManager: DamageManager;
+let respawnManager: RespawnManager;
+let killVolumeManager: KillVolumeManager;
+let triggerManager: TriggerManager;
+let triggerActions: TriggerActions;
+let platformManager: PlatformManager;
+let checkpointReached = false;
+const playerHealth = new Health();
+const inputRecorder = new InputRecorder();
+let lastRecording: InputRecording | null = null;
+let replayPlayer: ReplayPlayer | null = null;
+let quickSave: WorldSnapshot | null = null;
+let levelLoader: LevelLoader;
+let currentLevelIndex = 0;
+let levelLoading = false;
+let destructibles: DestructibleModel[] = [];
 let lastTime = 0;
-let cubes: { mesh: THREE.Mesh, rigidBody: RAPIER.RigidBody }[] = [];
+
+// Physics runs at a fixed rate regardless of the display refresh rate
+const PHYSICS_STEP_RATE = 60; // steps per second
+const MAX_PHYSICS_SUBSTEPS = 5; // per rendered frame, prevents the spiral of death
+const REPLAY_SEEK_SECONDS = 5;
+const fixedTimestep = new FixedTimestep(PHYSICS_STEP_RATE, MAX_PHYSICS_SUBSTEPS);
 
 // Add debug stats display
 const statsContainer = document.createElement('div');
@@ -68,51 +131,26 @@ async function init() {
   // Create physics world with collision event handling
   physics = {
     world: new RAPIER.World({ x: 0, y: -9.81, z: 0 }),
-    rigidBodies: new Map()
+    entities: new EntityRegistry()
   };
-
-  // Create ground
-  const ground = createGround(physics);
-  scene.add(ground);
+  physics.world.timestep = fixedTimestep.stepSize;
+  collisionEvents = new CollisionEvents();
 
   // Create sky
   const sky = createSky();
   scene.add(sky);
 
-  // Setup lights
-  setupLights(scene);
-
   // Initialize projectile manager
-  projectileManager = new ProjectileManager(scene, physics);
+  projectileManager = new ProjectileManager(scene, physics, collisionEvents);
 
-  // Load the destructible house model
-  try {
-    const { model } = await loadModel(
-      physics,
-      '/destructiblehouse.glb',  // Path to the model
-      { x: 8, y: 0, z: 0 },      // Position
-      3,                         // Scale (3x original size)
-      true                       // Static/fixed (like cubes)
-    );
-    scene.add(model);
-    console.log('Destructible house model loaded successfully');
-  } catch (error) {
-    console.error('Failed to load house model:', error);
-  }
+  // Initialize explosions (used by explosive projectiles)
+  explosionManager = new ExplosionManager(scene, physics);
+  projectileManager.setExplosionManager(explosionManager);
 
-  // Create a stack of cubes in the center
-  const stackCubes = createStackedCubes(physics, 5, 5, { x: -8, y: 0, z: 0 });
-  cubes.push(...stackCubes);
-  stackCubes.forEach(cube => scene.add(cube.mesh));
-
-  // Create some random cubes around the scene
-  const randomCubes = createRandomCubes(physics, 20, 15, 8);
-  cubes.push(...randomCubes);
-  randomCubes.forEach(cube => scene.add(cube.mesh));
-
-  // Setup FPS controller
-  fpsController = new FPSController(camera, physics, renderer.domElement);
-  fpsController.position.set(0, 5, 10);
+  // Setup FPS controller (placed at the level's spawn point once it loads)
+  // Touch screens have no pointer lock; they use on-screen controls instead
+  fpsController = new FPSController(camera, physics, TouchControls.isSupported() ? null : renderer.domElement);
+  fpsController.applyMovementSettings(movementSettings as MovementSettings);
   scene.add(fpsController.object);
   
   // Set the scene reference in the controller
@@ -123,19 +161,113 @@ async function init() {
     projectileManager.setDebugVisualizer(fpsController.debugVisualizer);
   }
 
-  // Set up shooting callbacks
-  fpsController.setShootCallback((position, direction) => {
-    projectileManager.shoot(position, direction, {
-      speed: 40,
-      size: 0.1,
-      color: 0xff9900,
-      lifespan: 5000,
-      restitution: 0.6
-    });
+  // Initialize hitscan (ray-cast) shooting
+  hitscanManager = new HitscanManager(scene, physics);
+
+  // Set up weapons (fired through the projectile or hitscan manager)
+  weaponManager = new WeaponManager(fpsController, projectileManager, hitscanManager, WEAPON_DEFINITIONS);
+
+  // Break destructible pieces with projectile impacts, hitscan hits and explosions
+  const getDestructible = (collider: RAPIER.Collider) => physics.entities.getByCollider(collider)?.components.destructible;
+  projectileManager.onImpact(impact => {
+    const impulse = impact.relativeVelocity.clone().multiplyScalar(impact.projectile.rigidBody.mass());
+    getDestructible(impact.collider)?.handleImpulse(impact.collider, impulse, impact.point);
+  });
+  hitscanManager.onHit(hit => {
+    getDestructible(hit.collider)?.handleImpulse(hit.collider, hit.impulse, hit.point);
+  });
+  explosionManager.onExplosion(explosion => {
+    explosion.hits.forEach(hit => getDestructible(hit.collider)?.handleImpulse(hit.collider, hit.impulse));
   });
 
-  // Initialize input handler
-  inputHandler = new InputHandler();
+  // Projectiles, hitscan shots, explosions and falls hurt the player, who respawns after dying
+  damageManager = new DamageManager();
+  projectileManager.onImpact(impact => damageManager.handleImpact(impact));
+  hitscanManager.onHit(hit => damageManager.handleHit(hit));
+  explosionManager.onExplosion(explosion => damageManager.handleExplosion(explosion));
+  fpsController.setHealth(playerHealth);
+  damageManager.attach(fpsController.rigidBody, playerHealth);
+  respawnManager = new RespawnManager(fpsController, playerHealth);
+  playerHealth.onDeath(event => console.log(`Killed by ${event.type} damage`));
+  respawnManager.onRespawn(spawn => console.log(`Respawned at ${spawn.name ?? 'spawn point'}`));
+
+  // Whatever falls out of the world or into a hazard is dealt with by the level's kill volumes
+  killVolumeManager = new KillVolumeManager(physics, collisionEvents, fpsController, damageManager);
+
+  // Triggers report what enters them; those placed in levels can also run scripted events
+  triggerManager = new TriggerManager(physics, collisionEvents);
+
+  // Moving platforms and elevators, which carry the player
+  platformManager = new PlatformManager(physics);
+
+  // Crosshair, ammo and health; hit markers for the first thing a shot strikes, if it can
+  // move or be hurt
+  hud = new Hud(camera, fpsController.domElement);
+  hud.bindWeapons(weaponManager);
+  hud.bindPlayer(fpsController, playerHealth, respawnManager);
+  const showHitMarker = (body: RAPIER.RigidBody | null) => {
+    if (!body || body === fpsController.rigidBody) return;
+    const health = damageManager.getHealth(body);
+    if (health || body.isDynamic()) {
+      hud.showHitMarker(health?.isDead());
+    }
+  };
+  projectileManager.onImpact(impact => {
+    if (impact.projectile.bounces <= 1) showHitMarker(impact.body);
+  });
+  hitscanManager.onHit(hit => showHitMarker(hit.body));
+
+  // Save and restore the simulation state
+  snapshotManager = new SnapshotManager(physics, fpsController, projectileManager, weaponManager, damageManager);
+  snapshotManager.onRestore(() => {
+    destructibles.forEach(model => model.syncWithPhysics());
+    triggerManager.sync();
+    fixedTimestep.reset();
+  });
+
+  // Build the first level
+  levelLoader = new LevelLoader(scene, physics);
+  triggerActions = new TriggerActions(scene, physics, triggerManager, fpsController, levelLoader);
+  triggerActions.onCheckpoint(({ trigger, position }) => {
+    // Saved once the step is over, so the save holds a whole step
+    respawnManager.setSpawnPoints([{ name: trigger.name, position }]);
+    checkpointReached = true;
+    console.log(`Checkpoint "${trigger.name}" reached`);
+  });
+  await loadLevel(currentLevelIndex);
+
+  // Initialize input handler with the user's key bindings; gameplay input is recorded,
+  // then applied to the player and weapons
+  actionMap = new ActionMap();
+  inputHandler = new InputHandler(actionMap);
+  inputHandler.onInput(input => {
+    inputRecorder.record(input);
+    fpsController.handleInput(input);
+    weaponManager.handleInput(input);
+  });
+
+  // Mouse settings that belong to the player rather than the input
+  const applyMouseSettings = (settings: MouseSettings) => {
+    applyPitchLimit();
+    fpsController.rawMouseInput = settings.rawInput;
+  };
+  applyMouseSettings(inputHandler.mouseLook.settings);
+  inputHandler.mouseLook.onSettingsChange(applyMouseSettings);
+
+  // Settings changed in the pause menu take effect immediately
+  applyGameSettings(gameSettings.settings);
+  gameSettings.onChange(applyGameSettings);
+
+  // Pause whenever the pointer is released (Escape, switching windows, ...)
+  pauseMenu = new PauseMenu(actionMap, inputHandler.mouseLook, gameSettings);
+  pauseMenu.onResume(resumeGame);
+  pauseMenu.onRestart(restartLevel);
+  document.addEventListener('pointerlockchange', () => {
+    if (!document.pointerLockElement) {
+      pauseGame();
+    }
+  });
+  document.addEventListener('toggle-pause', () => paused ? resumeGame() : pauseGame());
   
   // Listen for debug toggle event
   document.addEventListener('toggle-debug', () => {
@@ -145,55 +277,262 @@ async function init() {
     }
   });
 
+  // Listen for quick save/load events
+  document.addEventListener('quick-save', quickSaveState);
+  document.addEventListener('quick-load', quickLoadState);
+
+  // Listen for recording and replay events
+  document.addEventListener('toggle-recording', toggleRecording);
+  document.addEventListener('toggle-replay', () => toggleReplay().catch(console.error));
+  document.addEventListener('replay-pause', () => replayPlayer?.setPaused(!replayPlayer.isPaused()));
+  document.addEventListener('replay-slower', () => replayPlayer?.setSpeed(replayPlayer.getSpeed() / 2));
+  document.addEventListener('replay-faster', () => replayPlayer?.setSpeed(replayPlayer.getSpeed() * 2));
+  document.addEventListener('replay-back', () => {
+    replayPlayer?.seek(replayPlayer.getTick() - REPLAY_SEEK_SECONDS * PHYSICS_STEP_RATE);
+  });
+  document.addEventListener('replay-forward', () => {
+    replayPlayer?.seek(replayPlayer.getTick() + REPLAY_SEEK_SECONDS * PHYSICS_STEP_RATE);
+  });
+
+  // Listen for level switch event
+  document.addEventListener('next-level', () => {
+    if (levelLoading || isSessionLocked()) return;
+    loadLevel((currentLevelIndex + 1) % LEVEL_DEFINITIONS.length).catch(console.error);
+  });
+
   // Add help message to console
   console.log("Controls:");
+  console.log("- Esc: Pause menu and settings");
   console.log("- WASD/Arrow Keys: Move");
   console.log("- Space: Jump");
+  console.log("- Shift: Sprint");
+  console.log("- C/Ctrl: Crouch (hold)");
+  console.log("- Z: Toggle prone");
   console.log("- Left Mouse Button: Shoot");
+  console.log("- 1-9/Mouse Wheel: Switch weapon");
+  console.log("- R: Reload");
+  console.log("- Gamepad: Left stick to move, right stick to look, A to jump, RT to shoot");
   console.log("- V: Toggle debug visualization");
+  console.log("- L: Next level");
+  console.log("- F8/F9: Quick save/load");
+  console.log("- F2: Start/stop recording");
+  console.log("- F4: Start/stop replay (P: pause, [/]: speed, ,/.: seek)");
 
   // Handle window resize
   window.addEventListener('resize', onWindowResize);
 
+  // With pointer lock, the game starts paused until the player clicks resume
+  if (fpsController.domElement) {
+    pauseGame();
+  }
+
   // Start animation loop
   requestAnimationFrame(animate);
 }
 
-// Create a stack of cubes
-function createStackedCubes(
-  physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> },
-  width: number,
-  height: number,
-  position: { x: number, y: number, z: number }
-) {
-  const cubes = [];
-  const cubeSize = 1;
-  
-  // Create a stack of cubes
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width - (y % 2); x++) {
-      for (let z = 0; z < width - (y % 2); z++) {
-        // Alternate layers for stability
-        const offsetX = y % 2 === 0 ? 0 : cubeSize / 2;
-        const offsetZ = y % 2 === 0 ? 0 : cubeSize / 2;
-        
-        const cubePos = {
-          x: position.x + x * cubeSize + offsetX,
-          y: position.y + y * cubeSize + cubeSize / 2,
-          z: position.z + z * cubeSize + offsetZ
-        };
-        
-        // Use a consistent color per layer for a nice visual effect
-        const hue = (y / height) * 0.8;
-        const color = new THREE.Color().setHSL(hue, 0.8, 0.5).getHex();
-        
-        const cube = createCube(physics, cubePos, cubeSize, color);
-        cubes.push(cube);
+// Tear down the current level and build another one from LEVEL_DEFINITIONS
+async function loadLevel(index: number) {
+  levelLoading = true;
+  try {
+    // Remove anything the previous level's gameplay spawned
+    projectileManager.cleanUp();
+    explosionManager.cleanUp();
+    killVolumeManager.clear();
+    triggerManager.clear();
+
+    const level = await levelLoader.load(LEVEL_DEFINITIONS[index]);
+    currentLevelIndex = index;
+    quickSave = null;
+    destructibles = level.destructibles;
+
+    const spawn = level.spawnPoints[0];
+    fpsController.teleport(spawn.position, THREE.MathUtils.degToRad(spawn.yaw ?? 0));
+    respawnManager.setSpawnPoints(level.spawnPoints);
+    playerHealth.revive();
+    console.log(`Level "${level.definition.name}" loaded`);
+  } finally {
+    // Don't try to catch up on the time spent loading
+    fixedTimestep.reset();
+    levelLoading = false;
+  }
+}
+
+// Keep a fast in-memory world snapshot, plus a portable one that survives reloads
+function quickSaveState() {
+  if (levelLoading) return;
+
+  quickSave = snapshotManager.takeWorldSnapshot();
+  localStorage.setItem(getQuickSaveKey(), serializeSnapshot(snapshotManager.capture()));
+  console.log('Quick saved');
+}
+
+function quickLoadState() {
+  if (levelLoading || isSessionLocked()) return;
+
+  try {
+    if (quickSave) {
+      snapshotManager.restoreWorldSnapshot(quickSave);
+    } else {
+      const saved = localStorage.getItem(getQuickSaveKey());
+      if (!saved) {
+        console.log('No quick save for this level');
+        return;
       }
+      snapshotManager.restore(deserializeSnapshot(saved));
     }
+    // The save has the pitch limit of its time, not the current setting
+    applyPitchLimit();
+    console.log('Quick loaded');
+  } catch (error) {
+    console.error('Failed to quick load:', error);
   }
-  
-  return cubes;
+}
+
+// Jumping around in time or switching levels would break a recording or replay
+function isSessionLocked() {
+  return inputRecorder.isRecording() || replayPlayer !== null;
+}
+
+function toggleRecording() {
+  if (levelLoading || replayPlayer) return;
+
+  if (inputRecorder.isRecording()) {
+    lastRecording = inputRecorder.stop();
+    console.log(`Recording stopped (${lastRecording?.checksums.length ?? 0} ticks)`);
+    return;
+  }
+
+  const seed = Math.floor(Math.random() * 0x100000000);
+  random.setSeed(seed);
+
+  // Continue from a restored snapshot so the live session starts from exactly the state replays will
+  const snapshot = snapshotManager.takeWorldSnapshot();
+  snapshotManager.restoreWorldSnapshot(snapshot);
+  inputRecorder.start(levelLoader.getCurrentLevel()!.definition.name, seed, fixedTimestep.stepSize, snapshot);
+  console.log('Recording started');
+}
+
+async function toggleReplay() {
+  if (replayPlayer) {
+    stopReplay();
+    return;
+  }
+  if (!lastRecording || levelLoading || inputRecorder.isRecording()) return;
+
+  // Replays need the level they were recorded in
+  const recording = lastRecording;
+  if (levelLoader.getCurrentLevel()?.definition.name !== recording.level) {
+    const index = LEVEL_DEFINITIONS.findIndex(level => level.name === recording.level);
+    if (index < 0) {
+      console.error(`Cannot replay: level "${recording.level}" not found`);
+      return;
+    }
+    await loadLevel(index);
+  }
+
+  replayPlayer = new ReplayPlayer(recording, {
+    restore: snapshot => snapshotManager.restoreWorldSnapshot(snapshot),
+    dispatch: input => inputHandler.dispatch(input),
+    step: simulateTick,
+    checksum: () => snapshotManager.checksum()
+  });
+  replayPlayer.onDesync(event => {
+    console.warn(`Replay desynced at tick ${event.tick} (expected ${event.expected}, got ${event.actual})`);
+  });
+
+  updateLiveInput();
+  fpsController.resetInput();
+  replayPlayer.start();
+  console.log(`Replaying ${replayPlayer.getLength()} ticks`);
+}
+
+function stopReplay() {
+  replayPlayer = null;
+  updateLiveInput();
+  fpsController.resetInput();
+  applyPitchLimit();
+  console.log('Replay stopped');
+}
+
+// The pitch limit changes how the player turns, so it reaches the player as (recorded) input;
+// replays keep the limit they were recorded with
+function applyPitchLimit() {
+  const radians = THREE.MathUtils.degToRad(inputHandler.mouseLook.settings.pitchLimit);
+  if (replayPlayer || radians === fpsController.maxPitch) return;
+  inputHandler.dispatch({ type: 'pitchLimit', radians });
+}
+
+// Live input drives the player unless a replay does or the game is paused
+function updateLiveInput() {
+  inputHandler.setLiveInputEnabled(!paused && !replayPlayer);
+}
+
+// Halt the simulation and show the pause menu
+function pauseGame() {
+  if (paused) return;
+
+  // Let go of held actions while they still reach the player
+  actionMap.releaseAll();
+  paused = true;
+  updateLiveInput();
+  hud.setVisible(false);
+  pauseMenu.show(!levelLoading && !isSessionLocked());
+
+  if (document.pointerLockElement) {
+    document.exitPointerLock();
+  }
+}
+
+function resumeGame() {
+  if (!paused) return;
+
+  paused = false;
+  updateLiveInput();
+  pauseMenu.hide();
+  hud.setVisible(true);
+
+  // Only works from a click; otherwise the game runs unlocked until the canvas is clicked
+  if (fpsController.domElement && !document.pointerLockElement) {
+    fpsController.requestPointerLock(fpsController.domElement);
+  }
+  // Browsers keep audio suspended until the user interacts with the page
+  if (audioListener.context.state === 'suspended') {
+    audioListener.context.resume().catch(console.error);
+  }
+}
+
+function restartLevel() {
+  if (levelLoading || isSessionLocked()) return;
+
+  // Resume first, while still handling the click, so the pointer can be locked
+  resumeGame();
+  loadLevel(currentLevelIndex).catch(console.error);
+}
+
+// Apply display and audio settings (antialiasing can't change on a live renderer)
+function applyGameSettings(settings: GameSettings) {
+  camera.fov = settings.fov;
+  camera.updateProjectionMatrix();
+  // The chosen FOV is the one the mouse sensitivity is set for; only zooming scales it
+  inputHandler.mouseLook.setCamera(camera);
+
+  renderer.setPixelRatio(window.devicePixelRatio * settings.pixelRatio);
+  if (renderer.shadowMap.enabled !== settings.shadows) {
+    renderer.shadowMap.enabled = settings.shadows;
+
+    // Materials have to be recompiled to add or drop their shadow code
+    scene.traverse(object => {
+      if (object instanceof THREE.Mesh) {
+        [object.material].flat().forEach(material => { material.needsUpdate = true; });
+      }
+    });
+  }
+
+  audioListener.setMasterVolume(settings.volume);
+}
+
+function getQuickSaveKey() {
+  return `rapiertest.quicksave.${levelLoader.getCurrentLevel()?.definition.name}`;
 }
 
 function animate(time: number) {
@@ -203,42 +542,33 @@ function animate(time: number) {
   const deltaTime = (time - lastTime) / 1000;
   lastTime = time;
 
-  // Step physics world
-  physics.world.step();
-
   // Update input handler
   inputHandler.update();
 
-  // Update controller
-  fpsController.update(deltaTime);
+  // Run as many fixed physics steps as the elapsed time requires (none while a level loads
+  // or the game is paused, which also keeps the interpolation where it was)
+  const timeScale = replayPlayer ? replayPlayer.getTimeScale() : 1;
+  const frameTime = paused ? 0 : deltaTime * timeScale;
+  const alpha = levelLoading ? 0 : fixedTimestep.advance(frameTime, stepSimulation);
+  if (replayPlayer?.isFinished()) {
+    stopReplay();
+  }
 
-  // Update projectiles
-  projectileManager.update();
+  // Interpolate rendered transforms between the last two physics states
+  fpsController.interpolate(alpha);
+  physics.entities.interpolate(alpha);
+  // Effects freeze with the simulation
+  const effectTime = paused ? 0 : deltaTime;
+  hitscanManager.update(effectTime);
+  explosionManager.update(effectTime);
+  hud.update(effectTime);
 
-  // Update cube positions based on physics
-  cubes.forEach(({ mesh, rigidBody }) => {
-    const position = rigidBody.translation();
-    mesh.position.set(position.x, position.y, position.z);
-    
-    const rotation = rigidBody.rotation();
-    mesh.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
-
-    // Check if cube fell out of bounds and reset it
-    if (position.y < -20) {
-      rigidBody.setTranslation(
-        { x: (Math.random() - 0.5) * 20, y: 20, z: (Math.random() - 0.5) * 20 },
-        true
-      );
-      rigidBody.setLinvel({ x: 0, y: 0, z: 0 }, true);
-      rigidBody.setAngvel({ x: 0, y: 0, z: 0 }, true);
-    }
-  });
-
-  // Update stats display
+  // Update debug stats display
   statsContainer.innerHTML = 
     `FPS: ${Math.round(1 / deltaTime)}<br>` +
     `Active Projectiles: ${projectileManager.getProjectileCount()}<br>` +
-    `Physics Bodies: ${physics.rigidBodies.size}`;
+    `Entities: ${physics.entities.size}` +
+    getSessionStatus();
 
   // Render scene
   renderer.render(scene, camera);
@@ -249,6 +579,69 @@ function animate(time: number) {
   requestAnimationFrame(animate);
 }
 
+// Recording/replay progress for the stats display
+function getSessionStatus() {
+  if (replayPlayer) {
+    const paused = replayPlayer.isPaused() ? ' (paused)' : '';
+    return `<br>Replay: ${replayPlayer.getTick()}/${replayPlayer.getLength()} x${replayPlayer.getSpeed()}${paused}`;
+  }
+  if (inputRecorder.isRecording()) {
+    return `<br>Recording: tick ${simulationClock.getTick()}`;
+  }
+  return '';
+}
+
+// Advance the simulation by one fixed step, recording or replaying its inputs
+function stepSimulation(stepSize: number) {
+  if (replayPlayer) {
+    replayPlayer.beginTick();
+  } else {
+    inputRecorder.beginTick();
+  }
+
+  simulateTick(stepSize);
+
+  if (replayPlayer) {
+    replayPlayer.endTick(snapshotManager.checksum());
+  } else if (inputRecorder.isRecording()) {
+    inputRecorder.endTick(snapshotManager.checksum());
+  }
+
+  // Replays reach the same checkpoints, but shouldn't overwrite the player's save
+  if (checkpointReached) {
+    checkpointReached = false;
+    if (!replayPlayer) quickSaveState();
+  }
+}
+
+// Run one fixed simulation step
+function simulateTick(stepSize: number) {
+  // Bring the player back once they have been dead long enough
+  respawnManager.update();
+
+  // Update weapons (may spawn projectiles)
+  weaponManager.update(stepSize);
+
+  // Queue platform and door movement first: the player rides along with what moves underfoot
+  platformManager.update(stepSize);
+  triggerActions.update(stepSize);
+
+  // Update controller (queues the player's next kinematic position)
+  fpsController.update(stepSize);
+
+  // Step physics world and dispatch collision events
+  collisionEvents.step(physics.world);
+
+  // Record post-step states
+  fpsController.postPhysicsUpdate();
+  physics.entities.capture();
+  killVolumeManager.update();
+  triggerManager.update();
+  projectileManager.update();
+
+  simulationClock.advance(stepSize);
+}
+
 function onWindowResize() {
   camera.aspect = window.innerWidth / window.innerHeight;
   camera.updateProjectionMatrix();
@@ -1,72 +1,119 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { BodyType, PhysicsMaterial, applyPhysicsMaterial, createBodyDesc } from '../utils/PhysicsMaterial';
+import { random } from '../utils/Random';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+import { EntityRegistry } from '../entities/EntityRegistry';
 
-// Create a single physics-enabled cube
+// Create a single physics-enabled cube, or a box when given a size per axis (e.g. a door)
 export function createCube(
-  physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> },
+  physics: { world: RAPIER.World; entities: EntityRegistry },
   position: { x: number; y: number; z: number },
-  size: number = 1,
-  color: number = Math.random() * 0xffffff
+  size: number | { x: number; y: number; z: number } = 1,
+  color: number = random.next() * 0xffffff,
+  material: PhysicsMaterial = {},
+  bodyType: BodyType = 'dynamic'
 ) {
   // Create cube geometry and material
-  const geometry = new THREE.BoxGeometry(size, size, size);
-  const material = new THREE.MeshStandardMaterial({
+  const { x: width, y: height, z: depth } = typeof size === 'number' ? { x: size, y: size, z: size } : size;
+  const geometry = new THREE.BoxGeometry(width, height, depth);
+  const meshMaterial = new THREE.MeshStandardMaterial({
     color,
     roughness: 0.7,
     metalness: 0.3
   });
 
   // Create mesh
-  const mesh = new THREE.Mesh(geometry, material);
+  const mesh = new THREE.Mesh(geometry, meshMaterial);
   mesh.castShadow = true;
   mesh.receiveShadow = true;
   mesh.position.set(position.x, position.y, position.z);
 
   // Create rigid body
-  const rigidBodyDesc = RAPIER.RigidBodyDesc.dynamic()
+  const rigidBodyDesc = createBodyDesc(bodyType)
     .setTranslation(position.x, position.y, position.z);
   
   const rigidBody = physics.world.createRigidBody(rigidBodyDesc);
 
   // Create collider (slightly smaller than the visual cube to avoid clipping)
-  const colliderDesc = RAPIER.ColliderDesc.cuboid(size/2 * 0.98, size/2 * 0.98, size/2 * 0.98)
+  const colliderDesc = RAPIER.ColliderDesc.cuboid(width/2 * 0.98, height/2 * 0.98, depth/2 * 0.98)
     .setRestitution(0.4)  // Bounciness
-    .setFriction(0.5);    // Friction
+    .setFriction(0.5)     // Friction
+    .setCollisionGroups(interactionGroups(bodyType === 'fixed' ? CollisionGroup.WORLD : CollisionGroup.PROP));
+  applyPhysicsMaterial(colliderDesc, material);
 
   physics.world.createCollider(colliderDesc, rigidBody);
   
-  // Add to physics tracking
-  physics.rigidBodies.set(mesh, rigidBody);
+  // Register the entity so the mesh follows its body
+  physics.entities.spawn(mesh, rigidBody);
 
   return { mesh, rigidBody };
 }
 
 // Create multiple random cubes
 export function createRandomCubes(
-  physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> },
+  physics: { world: RAPIER.World; entities: EntityRegistry },
   count: number = 20,
   area: number = 20,
-  heightRange: number = 10
+  heightRange: number = 10,
+  center: { x: number; y: number; z: number } = { x: 0, y: 0, z: 0 }
 ) {
   const cubes = [];
   
   for (let i = 0; i < count; i++) {
     // Random position within area
     const position = {
-      x: (Math.random() - 0.5) * area,
-      y: 2 + Math.random() * heightRange,
-      z: (Math.random() - 0.5) * area
+      x: center.x + (random.next() - 0.5) * area,
+      y: center.y + 2 + random.next() * heightRange,
+      z: center.z + (random.next() - 0.5) * area
     };
     
     // Random size between 0.5 and 2
-    const size = 0.5 + Math.random() * 1.5;
+    const size = 0.5 + random.next() * 1.5;
     
     // Random color
-    const color = Math.random() * 0xffffff;
+    const color = random.next() * 0xffffff;
     
     const cube = createCube(physics, position, size, color);
     cubes.push(cube);
   }
   
   return cubes;
-} 
\ No newline at end of file
+}
+
+// Create a stack of cubes
+export function createStackedCubes(
+  physics: { world: RAPIER.World; entities: EntityRegistry },
+  width: number,
+  height: number,
+  position: { x: number, y: number, z: number },
+  cubeSize: number = 1
+) {
+  const cubes = [];
+  
+  // Create a stack of cubes
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - (y % 2); x++) {
+      for (let z = 0; z < width - (y % 2); z++) {
+        // Alternate layers for stability
+        const offsetX = y % 2 === 0 ? 0 : cubeSize / 2;
+        const offsetZ = y % 2 === 0 ? 0 : cubeSize / 2;
+        
+        const cubePos = {
+          x: position.x + x * cubeSize + offsetX,
+          y: position.y + y * cubeSize + cubeSize / 2,
+          z: position.z + z * cubeSize + offsetZ
+        };
+        
+        // Use a consistent color per layer for a nice visual effect
+        const hue = (y / height) * 0.8;
+        const color = new THREE.Color().setHSL(hue, 0.8, 0.5).getHex();
+        
+        const cube = createCube(physics, cubePos, cubeSize, color);
+        cubes.push(cube);
+      }
+    }
+  }
+  
+  return cubes;
+}
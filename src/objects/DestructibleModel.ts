@@ -0,0 +1,251 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { createConvexHullDesc, getTransformedVertices } from '../utils/MeshColliders';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+import { createNodeTriggers } from './Trigger';
+
+export interface DestructibleOptions {
+  breakImpulse?: number; // Impulse magnitude needed to knock a piece loose
+  groundTolerance?: number; // Pieces whose bottom is this close to the model's base are anchored
+  contactTolerance?: number; // Pieces whose bounds are this close are considered to support each other
+  restitution?: number;
+  friction?: number;
+}
+
+// A single breakable piece of a destructible model; its entity holds the current body,
+// which changes when the world is restored from a snapshot
+export interface DestructiblePiece {
+  mesh: THREE.Mesh;
+  entity: Entity;
+  bounds: THREE.Box3;
+  neighbors: Set<DestructiblePiece>;
+  anchored: boolean; // Rests directly on the ground
+  broken: boolean;
+}
+
+// A model split into fixed pieces that turn dynamic when hit hard enough
+export class DestructibleModel {
+  group: THREE.Group;
+  pieces: DestructiblePiece[] = [];
+  breakImpulse: number;
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private piecesByCollider: Map<RAPIER.ColliderHandle, DestructiblePiece> = new Map();
+  private breakListeners: ((piece: DestructiblePiece) => void)[] = [];
+  
+  constructor(
+    physics: { world: RAPIER.World; entities: EntityRegistry },
+    breakImpulse: number
+  ) {
+    this.physics = physics;
+    this.breakImpulse = breakImpulse;
+    this.group = new THREE.Group();
+  }
+  
+  // Register a listener for broken pieces; returns a function that removes it
+  onBreak(listener: (piece: DestructiblePiece) => void): () => void {
+    this.breakListeners.push(listener);
+    return () => {
+      this.breakListeners = this.breakListeners.filter(l => l !== listener);
+    };
+  }
+  
+  // Add a piece whose mesh geometry is already expressed relative to its body
+  addPiece(mesh: THREE.Mesh, rigidBody: RAPIER.RigidBody, collider: RAPIER.Collider, bounds: THREE.Box3) {
+    this.group.add(mesh);
+    const piece: DestructiblePiece = {
+      mesh,
+      entity: this.physics.entities.spawn(mesh, rigidBody, { destructible: this }),
+      bounds,
+      neighbors: new Set(),
+      anchored: false,
+      broken: false
+    };
+    
+    this.pieces.push(piece);
+    this.piecesByCollider.set(collider.handle, piece);
+    return piece;
+  }
+  
+  // Work out which pieces rest on the ground and which pieces touch each other
+  buildSupportGraph(groundTolerance: number, contactTolerance: number) {
+    const baseY = Math.min(...this.pieces.map(piece => piece.bounds.min.y));
+    
+    this.pieces.forEach(piece => {
+      piece.anchored = piece.bounds.min.y - baseY <= groundTolerance;
+    });
+    
+    for (let i = 0; i < this.pieces.length; i++) {
+      const expanded = this.pieces[i].bounds.clone().expandByScalar(contactTolerance);
+      for (let j = i + 1; j < this.pieces.length; j++) {
+        if (expanded.intersectsBox(this.pieces[j].bounds)) {
+          this.pieces[i].neighbors.add(this.pieces[j]);
+          this.pieces[j].neighbors.add(this.pieces[i]);
+        }
+      }
+    }
+  }
+  
+  // Get the piece owning a collider, if any
+  getPiece(collider: RAPIER.Collider): DestructiblePiece | undefined {
+    return this.piecesByCollider.get(collider.handle);
+  }
+  
+  /**
+   * Apply an impulse from a projectile, hitscan shot or explosion to a collider
+   * Returns true if the collider belongs to this model and the piece broke
+   */
+  handleImpulse(collider: RAPIER.Collider, impulse: THREE.Vector3, point?: THREE.Vector3): boolean {
+    const piece = this.getPiece(collider);
+    if (!piece || piece.broken || impulse.length() < this.breakImpulse) return false;
+    
+    this.breakPiece(piece, impulse, point);
+    return true;
+  }
+  
+  // Turn a piece into a dynamic body, then let unsupported pieces collapse too
+  breakPiece(piece: DestructiblePiece, impulse?: THREE.Vector3, point?: THREE.Vector3) {
+    this.release(piece);
+    
+    if (impulse) {
+      if (point) {
+        piece.entity.rigidBody.applyImpulseAtPoint(impulse, point, true);
+      } else {
+        piece.entity.rigidBody.applyImpulse(impulse, true);
+      }
+    }
+    
+    this.collapseUnsupported();
+  }
+  
+  // Remove a piece from the model and the world (e.g. once it fell out of the world)
+  removePiece(piece: DestructiblePiece) {
+    this.pieces = this.pieces.filter(p => p !== piece);
+    piece.entity.colliders.forEach(collider => this.piecesByCollider.delete(collider.handle));
+    piece.neighbors.forEach(neighbor => neighbor.neighbors.delete(piece));
+    this.physics.entities.despawn(this.physics.world, piece.entity);
+  }
+  
+  // Re-read which pieces are broken after the physics state was restored from a snapshot
+  // (the entity registry has already rebound and moved the pieces)
+  syncWithPhysics() {
+    this.pieces.forEach(piece => {
+      piece.broken = piece.entity.rigidBody.isDynamic();
+    });
+  }
+
+  private release(piece: DestructiblePiece) {
+    piece.broken = true;
+    piece.entity.rigidBody.setBodyType(RAPIER.RigidBodyType.Dynamic, true);
+    piece.entity.interpolator.reset();
+    this.breakListeners.forEach(listener => listener(piece));
+  }
+  
+  // Break every intact piece that is no longer connected to an anchored piece
+  private collapseUnsupported() {
+    const supported = new Set<DestructiblePiece>();
+    const queue = this.pieces.filter(piece => piece.anchored && !piece.broken);
+    queue.forEach(piece => supported.add(piece));
+    
+    while (queue.length > 0) {
+      const piece = queue.shift()!;
+      piece.neighbors.forEach(neighbor => {
+        if (!neighbor.broken && !supported.has(neighbor)) {
+          supported.add(neighbor);
+          queue.push(neighbor);
+        }
+      });
+    }
+    
+    this.pieces.forEach(piece => {
+      if (!piece.broken && !supported.has(piece)) {
+        this.release(piece);
+      }
+    });
+  }
+}
+
+// Load a GLTF model where every mesh node becomes a separate breakable piece
+export async function loadDestructibleModel(
+  physics: { world: RAPIER.World; entities: EntityRegistry },
+  modelPath: string,
+  position: { x: number; y: number; z: number },
+  scale: number = 1,
+  options: DestructibleOptions = {}
+) {
+  const breakImpulse = options.breakImpulse ?? 8;
+  const groundTolerance = options.groundTolerance ?? 0.25;
+  const contactTolerance = options.contactTolerance ?? 0.05;
+  const restitution = options.restitution ?? 0.2;
+  const friction = options.friction ?? 0.7;
+  
+  return new Promise<DestructibleModel>((resolve, reject) => {
+    const loader = new GLTFLoader();
+    
+    loader.load(
+      modelPath,
+      (gltf) => {
+        const model = gltf.scene;
+        model.scale.set(scale, scale, scale);
+        model.position.set(position.x, position.y, position.z);
+        model.updateMatrixWorld(true);
+        
+        // Trigger nodes mark out volumes rather than pieces
+        const triggers = createNodeTriggers(physics, model);
+        
+        // Collect meshes first since we re-parent them below
+        const meshes: THREE.Mesh[] = [];
+        model.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            meshes.push(child);
+          }
+        });
+        
+        const destructible = new DestructibleModel(physics, breakImpulse);
+        triggers.forEach(trigger => destructible.group.add(trigger));
+        
+        meshes.forEach((mesh) => {
+          // Bake the node's world transform into the geometry
+          const geometry = mesh.geometry.clone();
+          geometry.applyMatrix4(mesh.matrixWorld);
+          geometry.computeBoundingBox();
+          const bounds = geometry.boundingBox!.clone();
+          
+          // Each piece's body sits at the center of its bounds
+          const center = new THREE.Vector3();
+          bounds.getCenter(center);
+          geometry.translate(-center.x, -center.y, -center.z);
+          
+          const pieceMesh = new THREE.Mesh(geometry, mesh.material);
+          pieceMesh.name = mesh.name;
+          pieceMesh.position.copy(center);
+          pieceMesh.castShadow = true;
+          pieceMesh.receiveShadow = true;
+          
+          // Pieces stay fixed until they are broken off
+          const rigidBody = physics.world.createRigidBody(
+            RAPIER.RigidBodyDesc.fixed().setTranslation(center.x, center.y, center.z)
+          );
+          
+          const vertices = getTransformedVertices(geometry, new THREE.Matrix4());
+          const colliderDesc = createConvexHullDesc(vertices)
+            .setRestitution(restitution)
+            .setFriction(friction)
+            .setCollisionGroups(interactionGroups(CollisionGroup.PROP));
+          const collider = physics.world.createCollider(colliderDesc, rigidBody);
+          
+          destructible.addPiece(pieceMesh, rigidBody, collider, bounds);
+        });
+        
+        destructible.buildSupportGraph(groundTolerance, contactTolerance);
+        resolve(destructible);
+      },
+      undefined, // onProgress callback not needed
+      (error) => {
+        console.error('Error loading destructible model:', error);
+        reject(error);
+      }
+    );
+  });
+}
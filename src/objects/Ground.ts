@@ -1,35 +1,55 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { PhysicsMaterial, applyPhysicsMaterial } from '../utils/PhysicsMaterial';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+import { EntityRegistry } from '../entities/EntityRegistry';
+
+export interface GroundOptions {
+  size?: number; // Width and depth of the ground
+  color?: number;
+  position?: { x: number; y: number; z: number };
+  material?: PhysicsMaterial;
+}
 
 // Create a ground plane with physics
-export function createGround(physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> }) {
+export function createGround(
+  physics: { world: RAPIER.World; entities: EntityRegistry },
+  options: GroundOptions = {}
+) {
+  const size = options.size ?? 100;
+  const position = options.position ?? { x: 0, y: 0, z: 0 };
+  
   // Create a large flat plane for the ground
-  const groundGeometry = new THREE.PlaneGeometry(100, 100);
+  const groundGeometry = new THREE.PlaneGeometry(size, size);
   
   // Rotate it to be horizontal (by default PlaneGeometry is vertical)
   groundGeometry.rotateX(-Math.PI / 2);
   
   // Create a material for the ground
   const groundMaterial = new THREE.MeshStandardMaterial({
-    color: 0x1a5f2a,  // Green color
+    color: options.color ?? 0x1a5f2a,  // Green color
     roughness: 0.8,
     metalness: 0.2,
   });
   
   // Create the mesh
   const groundMesh = new THREE.Mesh(groundGeometry, groundMaterial);
+  groundMesh.position.set(position.x, position.y, position.z);
   groundMesh.receiveShadow = true;
   
   // Create a rigid body for the ground
-  const groundBodyDesc = RAPIER.RigidBodyDesc.fixed();
+  const groundBodyDesc = RAPIER.RigidBodyDesc.fixed()
+    .setTranslation(position.x, position.y, position.z);
   const groundBody = physics.world.createRigidBody(groundBodyDesc);
   
   // Create a collider for the ground
-  const groundColliderDesc = RAPIER.ColliderDesc.cuboid(50, 0.1, 50);
+  const groundColliderDesc = RAPIER.ColliderDesc.cuboid(size / 2, 0.1, size / 2)
+    .setCollisionGroups(interactionGroups(CollisionGroup.WORLD));
+  applyPhysicsMaterial(groundColliderDesc, options.material ?? {});
   physics.world.createCollider(groundColliderDesc, groundBody);
   
-  // Add the rigid body to our collection, linked to the mesh
-  physics.rigidBodies.set(groundMesh, groundBody);
+  // Register the ground as an entity, linked to the mesh
+  physics.entities.spawn(groundMesh, groundBody);
   
   return groundMesh;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,83 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { EntityRegistry } from '../entities/EntityRegistry';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+
+// What entered a kill volume
+export type KillVolumeTarget = 'player' | 'projectile' | 'dynamic';
+
+// What happens to it:
+// - respawnAtOrigin: back to where it was spawned (the player: where they last stood on stable ground)
+// - respawnInArea: to a random point in the volume's respawn area
+// - destroy: removed from the world (the player: killed)
+// - damage: loses the volume's damage in health (if it has any), then respawns at its origin
+export type KillVolumePolicy = 'respawnAtOrigin' | 'respawnInArea' | 'destroy' | 'damage';
+
+export interface KillVolumeOptions {
+  shape?: 'box' | 'plane'; // A plane catches everything below its height
+  size?: { x: number; y: number; z: number }; // Box size
+  policies?: Partial<Record<KillVolumeTarget, KillVolumePolicy>>;
+  damage?: number; // Health lost through the damage policy
+  respawnArea?: { min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number } };
+}
+
+// Settings a kill volume entity carries as its component
+export interface KillVolume {
+  policies: Record<KillVolumeTarget, KillVolumePolicy>;
+  damage: number;
+  respawnArea: { min: THREE.Vector3; max: THREE.Vector3 };
+}
+
+export const DEFAULT_KILL_VOLUME_POLICIES: Record<KillVolumeTarget, KillVolumePolicy> = {
+  player: 'respawnAtOrigin',
+  projectile: 'destroy',
+  dynamic: 'respawnInArea'
+};
+
+// Planes are really boxes this large, with their top face at the plane's height
+const PLANE_HALF_SIZE = 1000;
+const PLANE_HALF_DEPTH = 50;
+
+// Create an invisible sensor that applies its policies to whatever enters it
+// (see KillVolumeManager). Boxes are centered on the position
+export function createKillVolume(
+  physics: { world: RAPIER.World; entities: EntityRegistry },
+  position: { x: number; y: number; z: number },
+  options: KillVolumeOptions = {}
+) {
+  const isPlane = options.shape === 'plane';
+  const center = isPlane ? { x: position.x, y: position.y - PLANE_HALF_DEPTH, z: position.z } : position;
+  const size = options.size ?? { x: 1, y: 1, z: 1 };
+  const halfExtents = isPlane
+    ? { x: PLANE_HALF_SIZE, y: PLANE_HALF_DEPTH, z: PLANE_HALF_SIZE }
+    : { x: size.x / 2, y: size.y / 2, z: size.z / 2 };
+
+  const object = new THREE.Object3D();
+  object.position.set(center.x, center.y, center.z);
+
+  const rigidBody = physics.world.createRigidBody(
+    RAPIER.RigidBodyDesc.fixed().setTranslation(center.x, center.y, center.z)
+  );
+
+  // The player's body is kinematic, which sensors ignore unless asked to
+  const colliderDesc = RAPIER.ColliderDesc.cuboid(halfExtents.x, halfExtents.y, halfExtents.z)
+    .setSensor(true)
+    .setCollisionGroups(interactionGroups(CollisionGroup.SENSOR))
+    .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS)
+    .setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.DEFAULT | RAPIER.ActiveCollisionTypes.KINEMATIC_FIXED);
+  physics.world.createCollider(colliderDesc, rigidBody);
+
+  // By default things land back in the middle of the world, like the cubes always did
+  const area = options.respawnArea ?? { min: { x: -10, y: 20, z: -10 }, max: { x: 10, y: 20, z: 10 } };
+  const killVolume: KillVolume = {
+    policies: { ...DEFAULT_KILL_VOLUME_POLICIES, ...options.policies },
+    damage: options.damage ?? 25,
+    respawnArea: {
+      min: new THREE.Vector3(area.min.x, area.min.y, area.min.z),
+      max: new THREE.Vector3(area.max.x, area.max.y, area.max.z)
+    }
+  };
+  physics.entities.spawn(object, rigidBody, { killVolume });
+
+  return { object, rigidBody };
+}
@@ -1,16 +1,57 @@
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import RAPIER from '@dimforge/rapier3d-compat';
+import {
+  createConvexDecompositionDescs,
+  createConvexHullDesc,
+  createTrimeshDesc,
+  getTransformedVertices
+} from '../utils/MeshColliders';
+import { PhysicsMaterial, applyPhysicsMaterial } from '../utils/PhysicsMaterial';
+import { EntityRegistry } from '../entities/EntityRegistry';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+import { createNodeTriggers } from './Trigger';
+
+// How colliders are generated for a model
+// - box: one cuboid around the whole model
+// - trimesh: exact triangle mesh per mesh node (static models only)
+// - convexHull: one convex hull per mesh node
+// - convexDecomposition: several convex hulls per mesh node, for concave dynamic models
+// - none: no colliders
+export type ColliderMode = 'box' | 'trimesh' | 'convexHull' | 'convexDecomposition' | 'none';
+
+export const COLLIDER_MODES: ColliderMode[] = ['box', 'trimesh', 'convexHull', 'convexDecomposition', 'none'];
+
+export interface LoadModelOptions extends PhysicsMaterial {
+  colliderMode?: ColliderMode;
+  decompositionResolution?: number; // Grid cells per axis for convexDecomposition
+}
+
+// Per-node overrides, set in the modelling tool:
+// - a name ending in `_nocol` gets no collider
+// - a name ending in `_col` is an invisible collision-only mesh; if any exist, only they get colliders
+// - a glTF `extras.collider` value (one of the collider modes) picks the mode for that node
+// - a name starting with `trigger_` is replaced by a trigger (see createNodeTriggers)
+const NO_COLLIDER_SUFFIX = /_nocol\d*$/i;
+const COLLIDER_ONLY_SUFFIX = /_col\d*$/i;
 
 // Load a GLTF model with physics collider
 export async function loadModel(
-  physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> },
+  physics: { world: RAPIER.World; entities: EntityRegistry },
   modelPath: string,
   position: { x: number; y: number; z: number },
   scale: number = 1,
-  isStatic: boolean = true
+  isStatic: boolean = true,
+  options: LoadModelOptions = {}
 ) {
-  return new Promise<{ model: THREE.Group, rigidBody: RAPIER.RigidBody }>((resolve, reject) => {
+  const colliderMode = options.colliderMode ?? 'box';
+  
+  return new Promise<{
+    model: THREE.Group,
+    rigidBody: RAPIER.RigidBody,
+    colliders: RAPIER.Collider[],
+    triggers: THREE.Object3D[]
+  }>((resolve, reject) => {
     const loader = new GLTFLoader();
     
     loader.load(
@@ -23,6 +64,10 @@ export async function loadModel(
         
         // Set position
         model.position.set(position.x, position.y, position.z);
+        model.updateMatrixWorld(true);
+        
+        // Trigger nodes don't move with the model, so they are returned for the caller to add
+        const triggers = createNodeTriggers(physics, model);
         
         // Enable shadows
         model.traverse((child) => {
@@ -40,35 +85,21 @@ export async function loadModel(
         rigidBodyDesc.setTranslation(position.x, position.y, position.z);
         const rigidBody = physics.world.createRigidBody(rigidBodyDesc);
         
-        // Create a simplified box collider based on model's bounding box
-        const bbox = new THREE.Box3().setFromObject(model);
-        const size = new THREE.Vector3();
-        bbox.getSize(size);
-        
-        // Scale the dimensions to match the model's scale
-        const sizeX = size.x * 0.95; // Slightly smaller to avoid clipping
-        const sizeY = size.y * 0.95;
-        const sizeZ = size.z * 0.95;
+        const colliderDescs = colliderMode === 'box'
+          ? [createBoundingBoxDesc(model, position)]
+          : createMeshColliderDescs(model, position, colliderMode, isStatic, options.decompositionResolution);
         
-        // Calculate the collider offset relative to the model position
-        const center = new THREE.Vector3();
-        bbox.getCenter(center);
-        const offsetX = center.x - position.x;
-        const offsetY = center.y - position.y;
-        const offsetZ = center.z - position.z;
-        
-        // Create a box collider with proper size and offset
-        const colliderDesc = RAPIER.ColliderDesc.cuboid(sizeX/2, sizeY/2, sizeZ/2)
-          .setTranslation(offsetX, offsetY, offsetZ)
-          .setRestitution(0.4)
-          .setFriction(0.5);
-        
-        physics.world.createCollider(colliderDesc, rigidBody);
+        const colliders = colliderDescs.map(desc => {
+          desc.setRestitution(0.4).setFriction(0.5)
+            .setCollisionGroups(interactionGroups(isStatic ? CollisionGroup.WORLD : CollisionGroup.PROP));
+          applyPhysicsMaterial(desc, options);
+          return physics.world.createCollider(desc, rigidBody);
+        });
         
-        // For tracking physics
-        physics.rigidBodies.set(model, rigidBody);
+        // Register the entity so the model follows its body
+        physics.entities.spawn(model, rigidBody);
         
-        resolve({ model, rigidBody });
+        resolve({ model, rigidBody, colliders, triggers });
       },
       undefined, // onProgress callback not needed
       (error) => {
@@ -77,4 +108,119 @@ export async function loadModel(
       }
     );
   });
-} 
\ No newline at end of file
+}
+
+// Create a simplified box collider based on model's bounding box
+function createBoundingBoxDesc(model: THREE.Object3D, position: { x: number; y: number; z: number }) {
+  const bbox = new THREE.Box3().setFromObject(model);
+  const size = new THREE.Vector3();
+  bbox.getSize(size);
+  
+  // Scale the dimensions to match the model's scale
+  const sizeX = size.x * 0.95; // Slightly smaller to avoid clipping
+  const sizeY = size.y * 0.95;
+  const sizeZ = size.z * 0.95;
+  
+  // Calculate the collider offset relative to the model position
+  const center = new THREE.Vector3();
+  bbox.getCenter(center);
+  const offsetX = center.x - position.x;
+  const offsetY = center.y - position.y;
+  const offsetZ = center.z - position.z;
+  
+  // Create a box collider with proper size and offset
+  return RAPIER.ColliderDesc.cuboid(sizeX/2, sizeY/2, sizeZ/2)
+    .setTranslation(offsetX, offsetY, offsetZ);
+}
+
+// Create colliders for each mesh node, honoring per-node overrides
+function createMeshColliderDescs(
+  model: THREE.Object3D,
+  position: { x: number; y: number; z: number },
+  defaultMode: ColliderMode,
+  isStatic: boolean,
+  decompositionResolution?: number
+) {
+  const meshes: THREE.Mesh[] = [];
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      meshes.push(child);
+    }
+  });
+  
+  // Dedicated collision meshes replace the visual meshes as collision geometry
+  const collisionMeshes = meshes.filter(mesh => hasNameSuffix(mesh, model, COLLIDER_ONLY_SUFFIX));
+  collisionMeshes.forEach(mesh => {
+    mesh.visible = false;
+    mesh.castShadow = false;
+  });
+  const sourceMeshes = collisionMeshes.length > 0 ? collisionMeshes : meshes;
+  
+  // Transform from each mesh's space into the body's space (the body sits at `position`, unrotated)
+  const bodyInverse = new THREE.Matrix4().makeTranslation(-position.x, -position.y, -position.z);
+  
+  const descs: RAPIER.ColliderDesc[] = [];
+  sourceMeshes.forEach(mesh => {
+    if (hasNameSuffix(mesh, model, NO_COLLIDER_SUFFIX)) return;
+    
+    let mode = getNodeColliderMode(mesh, model) ?? defaultMode;
+    if (mode === 'trimesh' && !isStatic) {
+      // Triangle meshes have no volume, so they make poor dynamic colliders
+      console.warn(`Trimesh collider requested for dynamic node "${mesh.name}", using convex decomposition`);
+      mode = 'convexDecomposition';
+    }
+    
+    const matrix = new THREE.Matrix4().multiplyMatrices(bodyInverse, mesh.matrixWorld);
+    
+    switch (mode) {
+      case 'box': {
+        const bounds = new THREE.Box3().setFromArray(getTransformedVertices(mesh.geometry, matrix));
+        const size = new THREE.Vector3();
+        const center = new THREE.Vector3();
+        bounds.getSize(size);
+        bounds.getCenter(center);
+        descs.push(
+          RAPIER.ColliderDesc.cuboid(size.x / 2, size.y / 2, size.z / 2)
+            .setTranslation(center.x, center.y, center.z)
+        );
+        break;
+      }
+      case 'trimesh':
+        descs.push(createTrimeshDesc(mesh.geometry, matrix));
+        break;
+      case 'convexHull':
+        descs.push(createConvexHullDesc(getTransformedVertices(mesh.geometry, matrix)));
+        break;
+      case 'convexDecomposition':
+        descs.push(...createConvexDecompositionDescs(mesh.geometry, matrix, decompositionResolution));
+        break;
+      case 'none':
+        break;
+    }
+  });
+  
+  return descs;
+}
+
+// Check the node and its ancestors (up to the model root) for a name suffix;
+// glTF nodes with several primitives are loaded as a group of meshes
+function hasNameSuffix(object: THREE.Object3D, root: THREE.Object3D, suffix: RegExp): boolean {
+  for (let node: THREE.Object3D | null = object; node && node !== root; node = node.parent) {
+    if (suffix.test(node.name)) return true;
+  }
+  return false;
+}
+
+// Read a collider mode from glTF extras (exposed as userData) on the node or its ancestors
+function getNodeColliderMode(object: THREE.Object3D, root: THREE.Object3D): ColliderMode | undefined {
+  for (let node: THREE.Object3D | null = object; node && node !== root; node = node.parent) {
+    const mode = node.userData.collider;
+    if (mode === undefined) continue;
+    
+    if (COLLIDER_MODES.includes(mode)) {
+      return mode;
+    }
+    console.warn(`Unknown collider mode "${mode}" on node "${node.name}"`);
+  }
+  return undefined;
+}
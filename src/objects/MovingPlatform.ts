@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { EntityRegistry } from '../entities/EntityRegistry';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+import { PhysicsMaterial, applyPhysicsMaterial } from '../utils/PhysicsMaterial';
+
+type Vec3 = { x: number; y: number; z: number };
+
+// How a platform moves, relative to where it was placed
+// - waypoints: along the points at `speed` m/s, straight from point to point or on a smooth
+//   spline through them; back and forth (waiting `wait` seconds at either end), or round
+//   in a loop when `loop` is set (waiting at the first point)
+// - sine: back and forth by `amplitude` around its position, taking `period` seconds
+export type PlatformMotion =
+  | { type: 'waypoints'; points: Vec3[]; speed: number; spline?: boolean; loop?: boolean; wait?: number }
+  | { type: 'sine'; amplitude: Vec3; period: number; phase?: number };
+
+export interface MovingPlatformOptions {
+  size?: Vec3;
+  color?: number;
+  material?: PhysicsMaterial;
+  rotation?: THREE.Quaternion; // Rotation at rest
+  spin?: number; // Turning speed about the vertical axis, in degrees per second
+}
+
+// A kinematic platform whose pose only depends on the simulation time, so it needs no
+// state of its own in snapshots or replays
+export class MovingPlatform {
+  readonly position: THREE.Vector3; // Where it was placed
+  readonly rotation: THREE.Quaternion;
+  readonly motion: PlatformMotion;
+  readonly spin: number; // Radians per second
+  private path: THREE.Curve<THREE.Vector3> | null = null;
+  private travelTime: number = 0; // Seconds from one end of the path to the other
+
+  constructor(position: Vec3, motion: PlatformMotion, rotation: THREE.Quaternion, spin: number) {
+    this.position = new THREE.Vector3(position.x, position.y, position.z);
+    this.rotation = rotation.clone();
+    this.motion = motion;
+    this.spin = spin;
+
+    if (motion.type === 'waypoints' && motion.points.length > 1) {
+      this.path = createPath(motion.points.map(point => new THREE.Vector3(point.x, point.y, point.z)), motion);
+      this.travelTime = this.path.getLength() / motion.speed;
+    }
+  }
+
+  // Pose at a simulation time in seconds
+  getPose(time: number, position: THREE.Vector3, rotation: THREE.Quaternion) {
+    position.copy(this.position);
+    if (this.motion.type === 'sine') {
+      const angle = (time / this.motion.period) * Math.PI * 2 + (this.motion.phase ?? 0);
+      const { x, y, z } = this.motion.amplitude;
+      position.add(new THREE.Vector3(x, y, z).multiplyScalar(Math.sin(angle)));
+    } else if (this.path && this.travelTime > 0) {
+      position.add(this.path.getPointAt(this.getPathProgress(time)));
+    }
+
+    rotation.setFromAxisAngle(new THREE.Vector3(0, 1, 0), this.spin * time).multiply(this.rotation);
+  }
+
+  // How far along the path (0 to 1) the platform is at a time
+  private getPathProgress(time: number): number {
+    const motion = this.motion as Extract<PlatformMotion, { type: 'waypoints' }>;
+    const wait = motion.wait ?? 0;
+    const travel = this.travelTime;
+    const leg = wait + travel;
+    const cycle = motion.loop ? leg : leg * 2;
+    const t = ((time % cycle) + cycle) % cycle;
+
+    if (t < wait) return 0;
+    if (t < leg) return (t - wait) / travel;
+    if (t < leg + wait) return 1;
+    return 1 - (t - leg - wait) / travel;
+  }
+}
+
+// Build the path through two or more waypoints (closed when looping)
+function createPath(points: THREE.Vector3[], motion: { spline?: boolean; loop?: boolean }): THREE.Curve<THREE.Vector3> {
+  if (motion.spline) {
+    return new THREE.CatmullRomCurve3(points, motion.loop ?? false, 'centripetal');
+  }
+
+  const path = new THREE.CurvePath<THREE.Vector3>();
+  const corners = motion.loop ? [...points, points[0]] : points;
+  for (let i = 1; i < corners.length; i++) {
+    path.add(new THREE.LineCurve3(corners[i - 1], corners[i]));
+  }
+  return path;
+}
+
+// Create a box platform moved by the PlatformManager
+export function createMovingPlatform(
+  physics: { world: RAPIER.World; entities: EntityRegistry },
+  position: Vec3,
+  motion: PlatformMotion,
+  options: MovingPlatformOptions = {}
+) {
+  const size = options.size ?? { x: 4, y: 0.5, z: 4 };
+  const rotation = options.rotation ?? new THREE.Quaternion();
+
+  const mesh = new THREE.Mesh(
+    new THREE.BoxGeometry(size.x, size.y, size.z),
+    new THREE.MeshStandardMaterial({ color: options.color ?? 0x8a7f6a, roughness: 0.8, metalness: 0.2 })
+  );
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  mesh.position.set(position.x, position.y, position.z);
+  mesh.quaternion.copy(rotation);
+
+  const rigidBody = physics.world.createRigidBody(
+    RAPIER.RigidBodyDesc.kinematicPositionBased()
+      .setTranslation(position.x, position.y, position.z)
+      .setRotation(rotation)
+  );
+
+  const colliderDesc = RAPIER.ColliderDesc.cuboid(size.x / 2, size.y / 2, size.z / 2)
+    .setFriction(0.8)
+    .setCollisionGroups(interactionGroups(CollisionGroup.WORLD));
+  applyPhysicsMaterial(colliderDesc, options.material ?? {});
+  physics.world.createCollider(colliderDesc, rigidBody);
+
+  const platform = new MovingPlatform(position, motion, rotation, THREE.MathUtils.degToRad(options.spin ?? 0));
+  physics.entities.spawn(mesh, rigidBody, { platform });
+
+  return { mesh, rigidBody, platform };
+}
@@ -1,5 +1,16 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { BodyInterpolator } from '../utils/Interpolation';
+import { simulationClock } from '../utils/SimulationClock';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+import { ExplosionOptions } from '../controllers/ExplosionManager';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+
+// Explosive projectiles detonate on impact, when their fuse runs out, or at the end of their lifespan
+export interface ExplosiveOptions extends ExplosionOptions {
+  fuseTime?: number; // ms after firing
+  detonateOnImpact?: boolean;
+}
 
 export interface ProjectileOptions {
   speed?: number;
@@ -8,22 +19,38 @@ export interface ProjectileOptions {
   lifespan?: number;
   mass?: number;
   restitution?: number;
+  destroyOnImpact?: boolean; // Remove the projectile on its first (non-pierced) impact
+  maxBounces?: number; // Remove the projectile after this many impacts
+  pierceCount?: number; // Number of colliders the projectile passes through before it collides
+  explosive?: ExplosiveOptions;
 }
 
 export class Projectile {
   mesh: THREE.Mesh;
   rigidBody: RAPIER.RigidBody;
   collider: RAPIER.Collider;
+  entity: Entity;
   creationTime: number;
   lifespan: number;
   trajectoryPoints: THREE.Vector3[] = [];
+  interpolator: BodyInterpolator;
+  options: ProjectileOptions;
+  velocity: THREE.Vector3 = new THREE.Vector3(); // Linear velocity after the last physics step
+  bounces: number = 0;
+  piercesRemaining: number;
+  piercedColliders: Set<RAPIER.ColliderHandle> = new Set();
+  destroyed: boolean = false;
+  impacted: boolean = false; // Hit something it did not pierce
   
   constructor(
-    physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> },
+    physics: { world: RAPIER.World; entities: EntityRegistry },
     position: THREE.Vector3,
     direction: THREE.Vector3,
     options: ProjectileOptions = {}
   ) {
+    this.options = options;
+    this.piercesRemaining = options.pierceCount || 0;
+    
     // Default options
     const size = options.size || 0.1;
     const color = options.color || 0xffff00;
@@ -60,28 +87,32 @@ export class Projectile {
     const colliderDesc = RAPIER.ColliderDesc.ball(size)
       .setRestitution(restitution)
       .setFriction(0.1)
-      .setDensity(2.0);
+      .setDensity(2.0)
+      .setCollisionGroups(interactionGroups(CollisionGroup.PROJECTILE))
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
 
     this.collider = physics.world.createCollider(colliderDesc, this.rigidBody);
+    this.velocity.set(direction.x * speed, direction.y * speed, direction.z * speed);
     
-    // Add to physics tracking
-    physics.rigidBodies.set(this.mesh, this.rigidBody);
+    // The entity registry keeps the mesh in sync with the body
+    this.entity = physics.entities.spawn(this.mesh, this.rigidBody, { projectile: this });
+    this.interpolator = this.entity.interpolator;
     
     // Record creation time
-    this.creationTime = Date.now();
+    this.creationTime = simulationClock.now();
     
     // Record initial position in trajectory
     this.trajectoryPoints.push(position.clone());
   }
   
-  // Update bullet position from physics
+  // Record bullet state after a physics step (once the entity registry has captured its transform)
   update() {
     if (this.rigidBody) {
-      const position = this.rigidBody.translation();
-      this.mesh.position.set(position.x, position.y, position.z);
+      const linvel = this.rigidBody.linvel();
+      this.velocity.set(linvel.x, linvel.y, linvel.z);
       
       // Add current position to trajectory
-      this.trajectoryPoints.push(new THREE.Vector3(position.x, position.y, position.z));
+      this.trajectoryPoints.push(this.interpolator.currentPosition.clone());
     }
   }
   
@@ -90,26 +121,32 @@ export class Projectile {
     return this.trajectoryPoints;
   }
   
+  // Check if an explosive projectile should go off now
+  shouldDetonate(): boolean {
+    const explosive = this.options.explosive;
+    if (!explosive) return false;
+    
+    const age = simulationClock.now() - this.creationTime;
+    return (explosive.detonateOnImpact === true && this.impacted) ||
+           (explosive.fuseTime !== undefined && age >= explosive.fuseTime) ||
+           age > this.lifespan;
+  }
+  
   // Check if the bullet should be removed
   shouldRemove(): boolean {
-    return Date.now() - this.creationTime > this.lifespan || 
-           this.mesh.position.y < -20; // Remove if fallen off the world
+    return this.destroyed ||
+           simulationClock.now() - this.creationTime > this.lifespan;
   }
   
   // Remove the bullet from the scene and physics world
-  remove(
-    scene: THREE.Scene,
-    physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> }
-  ) {
-    scene.remove(this.mesh);
-    physics.world.removeRigidBody(this.rigidBody);
-    physics.rigidBodies.delete(this.mesh);
+  remove(physics: { world: RAPIER.World; entities: EntityRegistry }) {
+    physics.entities.despawn(physics.world, this.entity);
   }
 }
 
 // Create a projectile from a given position and direction
 export function createProjectile(
-  physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> },
+  physics: { world: RAPIER.World; entities: EntityRegistry },
   position: THREE.Vector3,
   direction: THREE.Vector3,
   options: ProjectileOptions = {}
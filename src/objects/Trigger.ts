@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+import { CollisionGroup, interactionGroups } from '../utils/CollisionGroups';
+
+type Vec3 = { x: number; y: number; z: number };
+
+// Something that touched a trigger
+export interface TriggerEvent {
+  trigger: Trigger;
+  entity: Entity; // The trigger's own entity
+  collider: RAPIER.Collider; // What touched it
+  body: RAPIER.RigidBody | null;
+}
+
+export type TriggerListener = (event: TriggerEvent) => void;
+
+// Built-in scripted events for triggers placed in levels
+// - checkpoint: save the game and respawn the player here
+// - teleport: move whatever entered to a position (players also turn to face `yaw` degrees)
+// - spawnCubes: drop a wave of random cubes around a position
+// - door: slide a kinematic level entity by an offset while anything is inside, and back once it's empty
+export type TriggerAction =
+  | { type: 'checkpoint' }
+  | { type: 'teleport'; position: Vec3; yaw?: number }
+  | { type: 'spawnCubes'; count: number; position: Vec3; area?: number }
+  | { type: 'door'; door: string; offset: Vec3; speed?: number };
+
+export interface TriggerOptions {
+  name?: string; // Used to tell triggers apart in listeners
+  size?: Vec3;
+  filter?: number; // Collision groups that set the trigger off (defaults to the player only)
+  once?: boolean; // Stop reporting new arrivals after the first one
+  action?: TriggerAction;
+  onEnter?: TriggerListener;
+  onStay?: TriggerListener; // Called every step while something is inside
+  onExit?: TriggerListener;
+}
+
+// Settings a trigger entity carries as its component
+export interface Trigger {
+  name: string;
+  once: boolean;
+  enabled: boolean; // Cleared once a `once` trigger has gone off
+  action?: TriggerAction;
+  onEnter?: TriggerListener;
+  onStay?: TriggerListener;
+  onExit?: TriggerListener;
+}
+
+// glTF nodes named e.g. `trigger_houseDoor` become triggers named "houseDoor"
+const TRIGGER_NODE_PREFIX = /^trigger[_.](.+)$/i;
+
+// Create an invisible box sensor, centered on the position, whose events are
+// reported by the TriggerManager
+export function createTrigger(
+  physics: { world: RAPIER.World; entities: EntityRegistry },
+  position: Vec3,
+  options: TriggerOptions = {}
+) {
+  const size = options.size ?? { x: 1, y: 1, z: 1 };
+
+  const object = new THREE.Object3D();
+  object.position.set(position.x, position.y, position.z);
+
+  const rigidBody = physics.world.createRigidBody(
+    RAPIER.RigidBodyDesc.fixed().setTranslation(position.x, position.y, position.z)
+  );
+
+  // Only the filtered groups are reported, so e.g. the player doesn't trip a trigger meant for props
+  const colliderDesc = RAPIER.ColliderDesc.cuboid(size.x / 2, size.y / 2, size.z / 2)
+    .setSensor(true)
+    .setCollisionGroups(interactionGroups(CollisionGroup.SENSOR, options.filter ?? CollisionGroup.PLAYER))
+    .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS)
+    .setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.DEFAULT | RAPIER.ActiveCollisionTypes.KINEMATIC_FIXED);
+  physics.world.createCollider(colliderDesc, rigidBody);
+
+  const trigger: Trigger = {
+    name: options.name ?? 'trigger',
+    once: options.once ?? false,
+    enabled: true,
+    action: options.action,
+    onEnter: options.onEnter,
+    onStay: options.onStay,
+    onExit: options.onExit
+  };
+  object.name = trigger.name;
+  physics.entities.spawn(object, rigidBody, { trigger });
+
+  return { object, rigidBody, trigger };
+}
+
+// Replace the trigger nodes in a loaded model with triggers around their world-space
+// bounds. The trigger objects are returned rather than parented to the model, since
+// they don't move with it; add them to the scene
+export function createNodeTriggers(
+  physics: { world: RAPIER.World; entities: EntityRegistry },
+  model: THREE.Object3D,
+  options: Omit<TriggerOptions, 'name' | 'size'> = {}
+) {
+  const nodes: THREE.Object3D[] = [];
+  model.traverse(child => {
+    if (child !== model && TRIGGER_NODE_PREFIX.test(child.name)) {
+      nodes.push(child);
+    }
+  });
+
+  model.updateMatrixWorld(true);
+  const objects: THREE.Object3D[] = [];
+  nodes.forEach(node => {
+    const bounds = new THREE.Box3().setFromObject(node);
+    node.removeFromParent();
+    disposeNode(node);
+
+    if (bounds.isEmpty()) {
+      console.warn(`Trigger node "${node.name}" has no geometry to size it`);
+      return;
+    }
+
+    const center = new THREE.Vector3();
+    const size = new THREE.Vector3();
+    bounds.getCenter(center);
+    bounds.getSize(size);
+    const name = node.name.match(TRIGGER_NODE_PREFIX)![1];
+    objects.push(createTrigger(physics, center, { ...options, name, size }).object);
+  });
+
+  return objects;
+}
+
+// Trigger nodes only mark out a volume, so their meshes are never rendered
+function disposeNode(node: THREE.Object3D) {
+  node.traverse(child => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+    }
+  });
+}
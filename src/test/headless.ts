@@ -0,0 +1,21 @@
+import { afterEach } from 'vitest';
+import { HeadlessSimulation, HeadlessSimulationOptions } from '../headless/HeadlessSimulation';
+
+/**
+ * Returns a function that creates headless simulations which are disposed of
+ * after each test. Call at the top level of a test file
+ */
+export function useHeadlessSimulation(): (options?: HeadlessSimulationOptions) => Promise<HeadlessSimulation> {
+  let simulations: HeadlessSimulation[] = [];
+
+  afterEach(() => {
+    simulations.forEach(sim => sim.dispose());
+    simulations = [];
+  });
+
+  return async options => {
+    const sim = await HeadlessSimulation.create(options);
+    simulations.push(sim);
+    return sim;
+  };
+}
@@ -0,0 +1,15 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+
+// Initialize Rapier once per test file, before any simulation is created. The compat build
+// hands its inlined WASM to wasm-bindgen in a form wasm-bindgen has deprecated, which logs a
+// warning on the first init that no caller can avoid; keep it out of the test output
+const warn = console.warn;
+console.warn = (...args: unknown[]) => {
+  if (typeof args[0] === 'string' && args[0].startsWith('using deprecated parameters')) return;
+  warn(...args);
+};
+try {
+  await RAPIER.init();
+} finally {
+  console.warn = warn;
+}
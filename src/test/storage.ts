@@ -0,0 +1,10 @@
+// In-memory stand-in for localStorage, exposing what was saved
+export function createStorage(): Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); }
+  };
+}
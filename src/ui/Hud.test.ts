@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DAMAGE_INDICATOR_TIME,
+  HIT_MARKER_TIME,
+  decayBloom,
+  getCrosshairGap,
+  getDamageIndicatorAngle,
+  getDamageIndicatorOpacity,
+  getHitMarkerOpacity,
+  getMovementSpread,
+  getShotBloom
+} from './Hud';
+
+describe('Hud', () => {
+  it('opens the crosshair up with movement speed and in the air', () => {
+    expect(getMovementSpread(0, false)).toBe(0);
+    expect(getMovementSpread(0.5, false)).toBeCloseTo(getMovementSpread(1, false) / 2);
+
+    // Sprinting doesn't open it further than full speed does
+    expect(getMovementSpread(1.5, false)).toBe(getMovementSpread(1, false));
+    expect(getMovementSpread(0, true)).toBeGreaterThan(0);
+    expect(getMovementSpread(1, true)).toBeCloseTo(getMovementSpread(1, false) + getMovementSpread(0, true));
+  });
+
+  it('places the crosshair lines where the spread angle appears on screen', () => {
+    // At a 90° FOV, 45° from the view direction is the top edge of the screen
+    expect(getCrosshairGap(Math.PI / 4, 90, 1000) - getCrosshairGap(0, 90, 1000)).toBe(500);
+
+    // Zooming in (narrower FOV) spreads the same angle over more pixels
+    expect(getCrosshairGap(0.05, 40, 1000)).toBeGreaterThan(getCrosshairGap(0.05, 90, 1000));
+  });
+
+  it('blooms with every shot and settles back over time', () => {
+    expect(getShotBloom(0.1)).toBeCloseTo(0.05);
+    expect(getShotBloom(0)).toBeGreaterThan(0);
+
+    expect(decayBloom(0.1, 0)).toBe(0.1);
+    expect(decayBloom(0.1, 0.1)).toBeLessThan(0.1);
+    expect(decayBloom(decayBloom(0.1, 0.1), 0.1)).toBeCloseTo(decayBloom(0.1, 0.2));
+    expect(decayBloom(0.1, 2)).toBeLessThan(1e-6);
+  });
+
+  it('fades the hit marker out over its display time', () => {
+    expect(getHitMarkerOpacity(HIT_MARKER_TIME)).toBe(1);
+    expect(getHitMarkerOpacity(HIT_MARKER_TIME / 2)).toBeCloseTo(0.5);
+    expect(getHitMarkerOpacity(0)).toBe(0);
+    expect(getHitMarkerOpacity(-10)).toBe(0);
+  });
+
+  it('fades damage indicators out as they age', () => {
+    expect(getDamageIndicatorOpacity(0)).toBe(1);
+    expect(getDamageIndicatorOpacity(DAMAGE_INDICATOR_TIME / 4)).toBeCloseTo(0.75);
+    expect(getDamageIndicatorOpacity(DAMAGE_INDICATOR_TIME)).toBe(0);
+    expect(getDamageIndicatorOpacity(DAMAGE_INDICATOR_TIME * 2)).toBe(0);
+  });
+
+  it('points damage indicators towards the source as the player turns', () => {
+    const origin = { x: 0, z: 0 };
+
+    // Facing -Z: ahead is up, +X is to the right (clockwise)
+    expect(getDamageIndicatorAngle(origin, 0, { x: 0, z: -10 })).toBeCloseTo(0);
+    expect(getDamageIndicatorAngle(origin, 0, { x: 10, z: 0 })).toBeCloseTo(Math.PI / 2);
+
+    // After turning left by 90° the same source is behind
+    expect(Math.abs(getDamageIndicatorAngle(origin, Math.PI / 2, { x: 10, z: 0 }))).toBeCloseTo(Math.PI);
+
+    // Only the direction to the source matters, not the player's absolute position
+    expect(getDamageIndicatorAngle({ x: 5, z: 5 }, 0, { x: 5, z: -5 })).toBeCloseTo(0);
+  });
+});
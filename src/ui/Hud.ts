@@ -0,0 +1,386 @@
+import * as THREE from 'three';
+import { FPSController, MovementState } from '../controllers/FPSController';
+import { WeaponManager } from '../controllers/WeaponManager';
+import { RespawnManager } from '../controllers/RespawnManager';
+import { Health, DamageEvent } from '../components/Health';
+import { Weapon } from '../weapons/Weapon';
+
+// Crosshair line length and gap (px) with no spread at all
+const CROSSHAIR_LENGTH = 8;
+const CROSSHAIR_GAP = 4;
+
+// Extra crosshair spread (radians) for moving at full speed and for being airborne
+const MOVE_SPREAD = 0.03;
+const AIR_SPREAD = 0.04;
+
+// Spread added per shot as a fraction of the weapon's spread (plus a minimum), and how fast it settles
+const SHOT_BLOOM = 0.5;
+const MIN_SHOT_BLOOM = 0.01;
+const BLOOM_DECAY = 8; // per second
+
+export const HIT_MARKER_TIME = 250; // ms
+export const DAMAGE_INDICATOR_TIME = 1000; // ms
+const DAMAGE_INDICATOR_RADIUS = 90; // px from the screen center
+
+const LOW_HEALTH = 0.25; // Fraction of the maximum below which health is shown in red
+const LOW_HEALTH_COLOR = '#ff5050';
+
+interface DamageIndicator {
+  element: HTMLDivElement;
+  source: THREE.Vector3;
+  age: number; // ms
+}
+
+/**
+ * Heads-up display: a crosshair that opens up with weapon spread, recent shots
+ * and movement, hit markers, ammo and health readouts, indicators pointing
+ * towards where damage came from, and a prompt to click while the pointer is
+ * not locked. Readouts change in response to game events; update only moves
+ * and fades what is already on screen
+ */
+export class Hud {
+  private camera: THREE.PerspectiveCamera;
+  private pointerLockElement: HTMLElement | null;
+  private root: HTMLDivElement;
+  private crosshair: HTMLDivElement;
+  private crosshairLines: HTMLDivElement[] = [];
+  private hitMarker: HTMLDivElement;
+  private indicatorLayer: HTMLDivElement;
+  private weaponName: HTMLDivElement;
+  private ammo: HTMLDivElement;
+  private healthValue: HTMLDivElement;
+  private healthBar: HTMLDivElement;
+  private status: HTMLDivElement;
+  private prompt: HTMLDivElement;
+
+  private controller: FPSController | null = null;
+  private respawnManager: RespawnManager | null = null;
+  private weaponSpread: number = 0;
+  private bloom: number = 0;
+  private crosshairGap: number = -1;
+  private hitMarkerTime: number = 0;
+  private indicators: DamageIndicator[] = [];
+  private respawnSeconds: number | null = null;
+
+  /**
+   * @param camera Camera the crosshair spread is drawn for
+   * @param pointerLockElement Element that captures the pointer, or null when there is no pointer lock (touch)
+   */
+  constructor(
+    camera: THREE.PerspectiveCamera,
+    pointerLockElement: HTMLElement | null,
+    container: HTMLElement = document.body
+  ) {
+    this.camera = camera;
+    this.pointerLockElement = pointerLockElement;
+
+    // Above the game, below the pause menu; never in the way of clicks or touches
+    this.root = document.createElement('div');
+    Object.assign(this.root.style, {
+      position: 'fixed',
+      inset: '0',
+      zIndex: '10',
+      pointerEvents: 'none',
+      color: 'white',
+      fontFamily: 'sans-serif',
+      textShadow: '0 0 3px rgba(0, 0, 0, 0.8)',
+      userSelect: 'none'
+    });
+    container.appendChild(this.root);
+
+    this.indicatorLayer = createCentered(this.root);
+
+    this.crosshair = createCentered(this.root);
+    this.crosshairLines = [0, 1, 2, 3].map(() => createLine(this.crosshair));
+
+    // An X around the crosshair
+    this.hitMarker = createCentered(this.root);
+    this.hitMarker.style.transform = 'rotate(45deg)';
+    this.hitMarker.style.opacity = '0';
+    [0, 1, 2, 3].forEach(i => {
+      const line = createLine(this.hitMarker);
+      positionLine(line, i, 6, 7);
+    });
+
+    this.status = document.createElement('div');
+    Object.assign(this.status.style, {
+      position: 'absolute',
+      top: '60%',
+      width: '100%',
+      textAlign: 'center',
+      fontSize: '24px'
+    });
+    this.root.appendChild(this.status);
+
+    this.prompt = document.createElement('div');
+    this.prompt.textContent = 'Click to play';
+    Object.assign(this.prompt.style, {
+      position: 'absolute',
+      top: '40%',
+      width: '100%',
+      textAlign: 'center',
+      fontSize: '28px',
+      display: 'none'
+    });
+    this.root.appendChild(this.prompt);
+
+    const ammoPanel = document.createElement('div');
+    Object.assign(ammoPanel.style, { position: 'absolute', right: '20px', bottom: '60px', textAlign: 'right' });
+    this.weaponName = document.createElement('div');
+    this.weaponName.style.fontSize = '14px';
+    this.ammo = document.createElement('div');
+    this.ammo.style.fontSize = '32px';
+    ammoPanel.append(this.weaponName, this.ammo);
+    this.root.appendChild(ammoPanel);
+
+    const healthPanel = document.createElement('div');
+    Object.assign(healthPanel.style, { position: 'absolute', left: '20px', bottom: '20px' });
+    this.healthValue = document.createElement('div');
+    this.healthValue.style.fontSize = '32px';
+    const healthTrack = document.createElement('div');
+    Object.assign(healthTrack.style, {
+      width: '160px',
+      height: '6px',
+      backgroundColor: 'rgba(255, 255, 255, 0.25)'
+    });
+    this.healthBar = document.createElement('div');
+    Object.assign(this.healthBar.style, { height: '100%', backgroundColor: 'white' });
+    healthTrack.appendChild(this.healthBar);
+    healthPanel.append(this.healthValue, healthTrack);
+    this.root.appendChild(healthPanel);
+
+    if (pointerLockElement) {
+      document.addEventListener('pointerlockchange', () => this.updatePrompt());
+      this.updatePrompt();
+    }
+  }
+
+  /**
+   * Follow the equipped weapon's ammo and the shots it fires
+   */
+  public bindWeapons(weaponManager: WeaponManager): void {
+    weaponManager.onChange(weapon => this.showWeapon(weapon));
+    weaponManager.onFire(weapon => {
+      this.bloom += getShotBloom(weapon.definition.spread);
+    });
+    this.showWeapon(weaponManager.getCurrentWeapon());
+  }
+
+  /**
+   * Follow the player's health, movement and respawns
+   */
+  public bindPlayer(controller: FPSController, health: Health, respawnManager: RespawnManager): void {
+    this.controller = controller;
+    this.respawnManager = respawnManager;
+    health.onChange(() => this.showHealth(health));
+    health.onDamage(event => this.addDamageIndicator(event));
+    this.showHealth(health);
+  }
+
+  /**
+   * Flash the hit marker for a shot that connected
+   * @param kill Whether the shot was a killing blow
+   */
+  public showHitMarker(kill: boolean = false): void {
+    this.hitMarkerTime = HIT_MARKER_TIME;
+    const color = kill ? LOW_HEALTH_COLOR : 'white';
+    this.hitMarker.childNodes.forEach(line => { (line as HTMLElement).style.backgroundColor = color; });
+  }
+
+  /**
+   * Show or hide the whole HUD (e.g. behind the pause menu)
+   */
+  public setVisible(visible: boolean): void {
+    this.root.style.display = visible ? '' : 'none';
+  }
+
+  /**
+   * Animate the crosshair, hit marker, damage indicators and respawn countdown
+   * @param deltaTime Elapsed time in seconds (0 while paused)
+   */
+  public update(deltaTime: number): void {
+    const deltaMs = deltaTime * 1000;
+
+    this.bloom = decayBloom(this.bloom, deltaTime);
+    const spread = this.weaponSpread + this.bloom + this.getMovementSpread();
+    const gap = getCrosshairGap(spread, this.camera.fov, window.innerHeight);
+    if (gap !== this.crosshairGap) {
+      this.crosshairGap = gap;
+      this.crosshairLines.forEach((line, i) => positionLine(line, i, gap, CROSSHAIR_LENGTH));
+    }
+
+    if (this.hitMarkerTime > 0) {
+      this.hitMarkerTime = Math.max(0, this.hitMarkerTime - deltaMs);
+      this.hitMarker.style.opacity = String(getHitMarkerOpacity(this.hitMarkerTime));
+    }
+
+    this.updateDamageIndicators(deltaMs);
+    this.updateRespawnCountdown();
+  }
+
+  private showWeapon(weapon: Weapon) {
+    this.weaponSpread = weapon.definition.spread;
+    this.weaponName.textContent = weapon.definition.name;
+    this.ammo.textContent = weapon.isReloading ? 'Reloading…' : `${weapon.ammoInMagazine} / ${weapon.reserveAmmo}`;
+    this.ammo.style.color = !weapon.isReloading && weapon.ammoInMagazine === 0 ? LOW_HEALTH_COLOR : 'white';
+  }
+
+  private showHealth(health: Health) {
+    const fraction = health.current / health.max;
+    const color = fraction <= LOW_HEALTH ? LOW_HEALTH_COLOR : 'white';
+    this.healthValue.textContent = String(Math.ceil(health.current));
+    this.healthValue.style.color = color;
+    this.healthBar.style.width = `${fraction * 100}%`;
+    this.healthBar.style.backgroundColor = color;
+    this.crosshair.style.display = health.isDead() ? 'none' : '';
+  }
+
+  // Damage from somewhere in particular (not falls) points towards its source
+  private addDamageIndicator(event: DamageEvent) {
+    if (!event.point || event.type === 'fall') return;
+
+    const element = createCentered(this.indicatorLayer);
+    const arc = document.createElement('div');
+    Object.assign(arc.style, {
+      position: 'absolute',
+      width: '60px',
+      height: '6px',
+      borderRadius: '3px',
+      backgroundColor: LOW_HEALTH_COLOR,
+      transform: `translate(-30px, ${-DAMAGE_INDICATOR_RADIUS}px)`
+    });
+    element.appendChild(arc);
+
+    this.indicators.push({ element, source: event.point.clone(), age: 0 });
+  }
+
+  // Indicators keep pointing at their source as the player turns, fading out as they age
+  private updateDamageIndicators(deltaMs: number) {
+    if (this.indicators.length === 0 || !this.controller) return;
+
+    const position = this.controller.object.position;
+    const yaw = this.controller.yawObject.rotation.y;
+    this.indicators = this.indicators.filter(indicator => {
+      indicator.age += deltaMs;
+      if (indicator.age >= DAMAGE_INDICATOR_TIME) {
+        indicator.element.remove();
+        return false;
+      }
+
+      const angle = getDamageIndicatorAngle(position, yaw, indicator.source);
+      indicator.element.style.transform = `rotate(${angle}rad)`;
+      indicator.element.style.opacity = String(getDamageIndicatorOpacity(indicator.age));
+      return true;
+    });
+  }
+
+  private updateRespawnCountdown() {
+    const timeUntilRespawn = this.respawnManager?.getTimeUntilRespawn() ?? null;
+    const seconds = timeUntilRespawn === null ? null : Math.ceil(timeUntilRespawn / 1000);
+    if (seconds === this.respawnSeconds) return;
+
+    this.respawnSeconds = seconds;
+    this.status.textContent = seconds === null ? '' : `Respawning in ${seconds}`;
+  }
+
+  private updatePrompt() {
+    this.prompt.style.display = document.pointerLockElement === this.pointerLockElement ? 'none' : '';
+  }
+
+  // Movement and jumping make the crosshair open up (it doesn't change where shots go)
+  private getMovementSpread(): number {
+    if (!this.controller) return 0;
+
+    const speed = this.controller.horizontalVelocity.length() / this.controller.moveSpeed;
+    const state = this.controller.movementState;
+    return getMovementSpread(speed, state === MovementState.JUMPING || state === MovementState.FALLING);
+  }
+}
+
+/**
+ * Crosshair spread (radians) for moving and being airborne
+ * @param speed Horizontal speed as a fraction of the move speed
+ */
+export function getMovementSpread(speed: number, airborne: boolean): number {
+  return Math.min(1, speed) * MOVE_SPREAD + (airborne ? AIR_SPREAD : 0);
+}
+
+/**
+ * Crosshair spread (radians) added by a shot from a weapon with the given spread
+ */
+export function getShotBloom(weaponSpread: number): number {
+  return Math.max(weaponSpread * SHOT_BLOOM, MIN_SHOT_BLOOM);
+}
+
+/**
+ * Shot bloom left after the given time in seconds
+ */
+export function decayBloom(bloom: number, deltaTime: number): number {
+  return bloom * Math.exp(-BLOOM_DECAY * deltaTime);
+}
+
+/**
+ * Gap (px) between the screen center and the crosshair lines, so that the lines sit
+ * where a direction at the spread angle from the view direction appears on screen
+ * @param fov Vertical field of view in degrees
+ * @param viewportHeight Height of the screen in px
+ */
+export function getCrosshairGap(spread: number, fov: number, viewportHeight: number): number {
+  const pixels = Math.tan(spread) / Math.tan(THREE.MathUtils.degToRad(fov) / 2) * viewportHeight / 2;
+  return Math.round(CROSSHAIR_GAP + pixels);
+}
+
+/**
+ * Opacity of the hit marker with the given time (ms) left to show
+ */
+export function getHitMarkerOpacity(timeLeft: number): number {
+  return Math.max(0, timeLeft) / HIT_MARKER_TIME;
+}
+
+/**
+ * Opacity of a damage indicator of the given age in ms (0 once it has expired)
+ */
+export function getDamageIndicatorOpacity(age: number): number {
+  return Math.max(0, 1 - age / DAMAGE_INDICATOR_TIME);
+}
+
+/**
+ * Clockwise rotation (radians) that points a damage indicator at the top of the screen
+ * towards the damage source. Yaw 0 faces -Z and positive yaw turns left
+ */
+export function getDamageIndicatorAngle(
+  position: { x: number; z: number },
+  yaw: number,
+  source: { x: number; z: number }
+): number {
+  const heading = Math.atan2(position.x - source.x, position.z - source.z);
+  return yaw - heading;
+}
+
+// A zero-size element at the screen center for others to be positioned around
+function createCentered(parent: HTMLElement): HTMLDivElement {
+  const element = document.createElement('div');
+  Object.assign(element.style, { position: 'absolute', left: '50%', top: '50%', width: '0', height: '0' });
+  parent.appendChild(element);
+  return element;
+}
+
+function createLine(parent: HTMLElement): HTMLDivElement {
+  const line = document.createElement('div');
+  Object.assign(line.style, {
+    position: 'absolute',
+    backgroundColor: 'white',
+    boxShadow: '0 0 2px rgba(0, 0, 0, 0.8)'
+  });
+  parent.appendChild(line);
+  return line;
+}
+
+// Place one of four 2 px wide lines (up, down, left, right) a gap away from the center
+function positionLine(line: HTMLDivElement, index: number, gap: number, length: number) {
+  const vertical = index < 2;
+  const offset = index % 2 === 0 ? -(gap + length) : gap;
+  line.style.width = `${vertical ? 2 : length}px`;
+  line.style.height = `${vertical ? length : 2}px`;
+  line.style.transform = vertical ? `translate(-1px, ${offset}px)` : `translate(${offset}px, -1px)`;
+}
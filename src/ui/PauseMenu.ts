@@ -0,0 +1,310 @@
+import { ActionMap, DEFAULT_ACTIONS, InputAction } from '../input/ActionMap';
+import { MouseLook, cmPer360FromSensitivity } from '../input/MouseLook';
+import { SettingsStore } from '../utils/SettingsStore';
+import { GAME_SETTING_RANGES, GameSettings } from '../utils/GameSettings';
+
+// Gamepad and touch bindings can't be captured from the menu, so rebinding keeps them
+const FIXED_BINDING_PREFIXES = ['Gamepad', 'Touch'];
+
+// Mouse DPI the sensitivity is shown for as cm/360°
+const REFERENCE_DPI = 800;
+
+/**
+ * Overlay shown while the game is paused, with resume and restart buttons and
+ * settings for the mouse, display, audio and key bindings. Changes are saved
+ * as they are made; applying them is up to whoever owns the settings
+ */
+export class PauseMenu {
+  private actionMap: ActionMap;
+  private mouseLook: MouseLook;
+  private gameSettings: SettingsStore<GameSettings>;
+  private overlay: HTMLDivElement;
+  private restartButton: HTMLButtonElement;
+  private bindingButtons: Map<InputAction, HTMLButtonElement> = new Map();
+  private cancelCapture: (() => void) | null = null;
+  private resumeListeners: (() => void)[] = [];
+  private restartListeners: (() => void)[] = [];
+
+  constructor(
+    actionMap: ActionMap,
+    mouseLook: MouseLook,
+    gameSettings: SettingsStore<GameSettings>,
+    container: HTMLElement = document.body
+  ) {
+    this.actionMap = actionMap;
+    this.mouseLook = mouseLook;
+    this.gameSettings = gameSettings;
+
+    // Above the game and the touch controls
+    this.overlay = document.createElement('div');
+    Object.assign(this.overlay.style, {
+      position: 'fixed',
+      inset: '0',
+      zIndex: '100',
+      display: 'none',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      color: 'white',
+      fontFamily: 'sans-serif',
+      fontSize: '14px'
+    });
+    container.appendChild(this.overlay);
+
+    const panel = document.createElement('div');
+    Object.assign(panel.style, {
+      width: '420px',
+      maxWidth: '90vw',
+      maxHeight: '90vh',
+      overflowY: 'auto',
+      padding: '20px',
+      borderRadius: '6px',
+      backgroundColor: 'rgba(20, 20, 20, 0.9)'
+    });
+    this.overlay.appendChild(panel);
+
+    const title = document.createElement('h2');
+    title.textContent = 'Paused';
+    title.style.margin = '0 0 12px';
+    panel.appendChild(title);
+
+    const buttons = document.createElement('div');
+    Object.assign(buttons.style, { display: 'flex', gap: '8px' });
+    buttons.appendChild(createButton('Resume', () => this.resumeListeners.forEach(listener => listener())));
+    this.restartButton = createButton('Restart level', () => this.restartListeners.forEach(listener => listener()));
+    buttons.appendChild(this.restartButton);
+    panel.appendChild(buttons);
+
+    this.addMouseSettings(panel);
+    this.addDisplaySettings(panel);
+    this.addAudioSettings(panel);
+    this.addBindings(panel);
+  }
+
+  /**
+   * Register a listener for the resume button; returns a function that removes it
+   */
+  public onResume(listener: () => void): () => void {
+    this.resumeListeners.push(listener);
+    return () => {
+      this.resumeListeners = this.resumeListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Register a listener for the restart button; returns a function that removes it
+   */
+  public onRestart(listener: () => void): () => void {
+    this.restartListeners.push(listener);
+    return () => {
+      this.restartListeners = this.restartListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Show the menu
+   * @param canRestart Whether restarting the level is currently allowed
+   */
+  public show(canRestart: boolean): void {
+    this.restartButton.disabled = !canRestart;
+    this.refreshBindings();
+    this.overlay.style.display = 'flex';
+  }
+
+  public hide(): void {
+    this.cancelCapture?.();
+    this.overlay.style.display = 'none';
+  }
+
+  public isVisible(): boolean {
+    return this.overlay.style.display !== 'none';
+  }
+
+  private addMouseSettings(panel: HTMLElement) {
+    const section = addSection(panel, 'Mouse');
+    const settings = this.mouseLook.settings;
+
+    addSlider(section, 'Sensitivity', settings.sensitivity, { min: 0.0005, max: 0.006, step: 0.0001 },
+      value => `${cmPer360FromSensitivity(value, REFERENCE_DPI).toFixed(1)} cm/360° at ${REFERENCE_DPI} DPI`,
+      value => this.mouseLook.updateSettings({ sensitivity: value }));
+    addCheckbox(section, 'Invert Y', settings.invertY, checked => this.mouseLook.updateSettings({ invertY: checked }));
+  }
+
+  private addDisplaySettings(panel: HTMLElement) {
+    const section = addSection(panel, 'Display');
+    const settings = this.gameSettings.settings;
+
+    addSlider(section, 'Field of view', settings.fov, { ...GAME_SETTING_RANGES.fov!, step: 1 },
+      value => `${value}°`,
+      value => this.gameSettings.update({ fov: value }));
+    addSlider(section, 'Resolution', settings.pixelRatio, { ...GAME_SETTING_RANGES.pixelRatio!, step: 0.25 },
+      value => `${Math.round(value * 100)}%`,
+      value => this.gameSettings.update({ pixelRatio: value }));
+    addCheckbox(section, 'Shadows', settings.shadows, checked => this.gameSettings.update({ shadows: checked }));
+    addCheckbox(section, 'Antialiasing (after reload)', settings.antialias,
+      checked => this.gameSettings.update({ antialias: checked }));
+  }
+
+  private addAudioSettings(panel: HTMLElement) {
+    const section = addSection(panel, 'Audio');
+
+    addSlider(section, 'Volume', this.gameSettings.settings.volume, { ...GAME_SETTING_RANGES.volume!, step: 0.05 },
+      value => `${Math.round(value * 100)}%`,
+      value => this.gameSettings.update({ volume: value }));
+  }
+
+  // One row per action; clicking its bindings waits for the key or mouse button to use instead
+  private addBindings(panel: HTMLElement) {
+    const section = addSection(panel, 'Controls');
+
+    (Object.keys(DEFAULT_ACTIONS) as InputAction[]).forEach(action => {
+      const button = createButton('', () => this.captureBinding(action));
+      button.style.minWidth = '140px';
+      this.bindingButtons.set(action, button);
+      addRow(section, formatAction(action), button);
+    });
+
+    const reset = createButton('Reset all bindings', () => {
+      this.cancelCapture?.();
+      this.actionMap.resetBindings();
+      this.refreshBindings();
+    });
+    reset.style.marginTop = '8px';
+    section.appendChild(reset);
+  }
+
+  // Replace the action's keyboard and mouse bindings with the next key or button pressed
+  // (Escape cancels). Listening in the capture phase keeps the press from triggering actions
+  private captureBinding(action: InputAction) {
+    this.cancelCapture?.();
+    this.bindingButtons.get(action)!.textContent = 'Press a key…';
+
+    const finish = (binding: string | null) => {
+      window.removeEventListener('keydown', onKeyDown, true);
+      window.removeEventListener('mousedown', onMouseDown, true);
+      this.cancelCapture = null;
+
+      if (binding) {
+        const fixed = this.actionMap.getBindings(action)
+          .filter(b => FIXED_BINDING_PREFIXES.some(prefix => b.startsWith(prefix)));
+        this.actionMap.setBindings(action, [binding, ...fixed]);
+      }
+      this.refreshBindings();
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      finish(e.code === 'Escape' ? null : e.code);
+    };
+    const onMouseDown = (e: MouseEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      finish(`Mouse${e.button}`);
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    window.addEventListener('mousedown', onMouseDown, true);
+    this.cancelCapture = () => finish(null);
+  }
+
+  private refreshBindings() {
+    this.bindingButtons.forEach((button, action) => {
+      const bindings = this.actionMap.getBindings(action);
+      button.textContent = bindings.length > 0 ? bindings.map(formatBinding).join(', ') : '(none)';
+    });
+  }
+}
+
+function addSection(panel: HTMLElement, title: string): HTMLDivElement {
+  const heading = document.createElement('h3');
+  heading.textContent = title;
+  heading.style.margin = '16px 0 8px';
+  panel.appendChild(heading);
+
+  const section = document.createElement('div');
+  panel.appendChild(section);
+  return section;
+}
+
+// A label on the left and a control on the right
+function addRow(section: HTMLElement, label: string, ...controls: HTMLElement[]) {
+  const row = document.createElement('label');
+  Object.assign(row.style, {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+    margin: '4px 0'
+  });
+  const text = document.createElement('span');
+  text.textContent = label;
+  row.append(text, ...controls);
+  section.appendChild(row);
+}
+
+function addSlider(
+  section: HTMLElement,
+  label: string,
+  value: number,
+  range: { min: number; max: number; step: number },
+  format: (value: number) => string,
+  onChange: (value: number) => void
+) {
+  const input = document.createElement('input');
+  input.type = 'range';
+  input.min = String(range.min);
+  input.max = String(range.max);
+  input.step = String(range.step);
+  input.value = String(value);
+
+  const readout = document.createElement('span');
+  readout.textContent = format(value);
+  Object.assign(readout.style, { minWidth: '60px', textAlign: 'right', fontSize: '12px' });
+
+  input.addEventListener('input', () => {
+    readout.textContent = format(input.valueAsNumber);
+    onChange(input.valueAsNumber);
+  });
+
+  const control = document.createElement('span');
+  Object.assign(control.style, { display: 'flex', alignItems: 'center', gap: '8px' });
+  control.append(input, readout);
+  addRow(section, label, control);
+}
+
+function addCheckbox(section: HTMLElement, label: string, checked: boolean, onChange: (checked: boolean) => void) {
+  const input = document.createElement('input');
+  input.type = 'checkbox';
+  input.checked = checked;
+  input.addEventListener('change', () => onChange(input.checked));
+  addRow(section, label, input);
+}
+
+function createButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  Object.assign(button.style, {
+    padding: '6px 12px',
+    border: '1px solid rgba(255, 255, 255, 0.4)',
+    borderRadius: '4px',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    color: 'white',
+    cursor: 'pointer'
+  });
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+// moveForward -> Move forward
+function formatAction(action: InputAction): string {
+  const words = action.replace(/([A-Z0-9])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// KeyW -> W, Digit1 -> 1, Mouse0 -> Mouse 1, Gamepad7 -> Pad 7
+function formatBinding(binding: string): string {
+  const mouse = binding.match(/^Mouse(\d+)$/);
+  if (mouse) return `Mouse ${Number(mouse[1]) + 1}`;
+  return binding.replace(/^(Key|Digit)/, '').replace(/^Gamepad/, 'Pad ');
+}
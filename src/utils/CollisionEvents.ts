@@ -0,0 +1,70 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+
+/**
+ * Handler for collision start/stop events involving a registered collider
+ */
+export type CollisionHandler = (other: RAPIER.Collider, started: boolean) => void;
+
+/**
+ * Owns the Rapier event queue and routes collision events to per-collider
+ * handlers after each world step
+ */
+export class CollisionEvents {
+  readonly eventQueue: RAPIER.EventQueue;
+  private handlers: Map<RAPIER.ColliderHandle, CollisionHandler> = new Map();
+  
+  constructor() {
+    this.eventQueue = new RAPIER.EventQueue(true);
+  }
+  
+  /**
+   * Receive collision events for a collider
+   * The collider also needs `ActiveEvents.COLLISION_EVENTS` enabled
+   * @param collider Collider to listen to
+   * @param handler Called with the other collider when contact starts or stops
+   */
+  public register(collider: RAPIER.Collider, handler: CollisionHandler): void {
+    this.handlers.set(collider.handle, handler);
+  }
+  
+  /**
+   * Stop routing events for a collider
+   */
+  public unregister(collider: RAPIER.Collider): void {
+    this.handlers.delete(collider.handle);
+  }
+  
+  /**
+   * Step the world with this event queue, then dispatch the collected events
+   */
+  public step(world: RAPIER.World): void {
+    world.step(this.eventQueue);
+    this.drain(world);
+  }
+  
+  /**
+   * Dispatch pending collision events to the registered handlers
+   */
+  public drain(world: RAPIER.World): void {
+    this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      this.dispatch(world, handle1, handle2, started);
+      this.dispatch(world, handle2, handle1, started);
+    });
+  }
+  
+  private dispatch(
+    world: RAPIER.World,
+    handle: RAPIER.ColliderHandle,
+    otherHandle: RAPIER.ColliderHandle,
+    started: boolean
+  ): void {
+    const handler = this.handlers.get(handle);
+    if (!handler) return;
+    
+    // The other collider may already have been removed from the world
+    const other = world.getCollider(otherHandle);
+    if (other) {
+      handler(other, started);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+
+// What a collider is, as a bit in its collision group memberships
+export const CollisionGroup = {
+  WORLD: 1 << 0, // Level geometry, including moving platforms
+  PROP: 1 << 1, // Cubes, models and pieces that can move
+  PLAYER: 1 << 2,
+  PROJECTILE: 1 << 3,
+  SENSOR: 1 << 4, // Kill volumes and triggers
+  ALL: 0xffff
+} as const;
+
+// Names for the groups in level data
+export type CollisionGroupName = 'world' | 'prop' | 'player' | 'projectile';
+
+const GROUPS_BY_NAME: Record<CollisionGroupName, number> = {
+  world: CollisionGroup.WORLD,
+  prop: CollisionGroup.PROP,
+  player: CollisionGroup.PLAYER,
+  projectile: CollisionGroup.PROJECTILE
+};
+
+export const COLLISION_GROUP_NAMES = Object.keys(GROUPS_BY_NAME) as CollisionGroupName[];
+
+/**
+ * Pack memberships and a filter into Rapier interaction groups. Two colliders
+ * only interact if each is a member of a group the other's filter includes
+ * @param memberships Groups the collider belongs to
+ * @param filter Groups the collider interacts with
+ */
+export function interactionGroups(memberships: number, filter: number = CollisionGroup.ALL): RAPIER.InteractionGroups {
+  return ((memberships & 0xffff) << 16) | (filter & 0xffff);
+}
+
+/**
+ * Combine group names into a group mask
+ */
+export function getGroupMask(names: CollisionGroupName[]): number {
+  return names.reduce((mask, name) => mask | GROUPS_BY_NAME[name], 0);
+}
@@ -0,0 +1,60 @@
+/**
+ * Accumulator-based fixed timestep for stepping the physics simulation
+ * independently of the display refresh rate
+ */
+export class FixedTimestep {
+  // Length of a single simulation step in seconds
+  stepSize: number;
+  // Maximum number of simulation steps performed per rendered frame
+  maxSubSteps: number;
+  // Frame deltas above this (in seconds) are clamped, e.g. after a tab switch
+  maxFrameTime: number;
+  private accumulator: number = 0;
+
+  constructor(stepRate: number = 60, maxSubSteps: number = 5, maxFrameTime: number = 0.25) {
+    this.stepSize = 1 / stepRate;
+    this.maxSubSteps = maxSubSteps;
+    this.maxFrameTime = maxFrameTime;
+  }
+
+  /**
+   * Change the simulation rate (steps per second)
+   * @param stepRate New number of simulation steps per second
+   */
+  public setStepRate(stepRate: number): void {
+    this.stepSize = 1 / stepRate;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Advance the accumulator by the elapsed frame time and run as many fixed steps as fit
+   * @param frameTime Elapsed real time since the last frame, in seconds
+   * @param step Callback performing a single simulation step of `stepSize` seconds
+   * @returns Interpolation factor (0..1) between the previous and current physics states
+   */
+  public advance(frameTime: number, step: (stepSize: number) => void): number {
+    // Clamp huge deltas so we never try to catch up on seconds of simulation at once
+    this.accumulator += Math.min(Math.max(frameTime, 0), this.maxFrameTime);
+
+    let subSteps = 0;
+    while (this.accumulator >= this.stepSize && subSteps < this.maxSubSteps) {
+      step(this.stepSize);
+      this.accumulator -= this.stepSize;
+      subSteps++;
+    }
+
+    // Avoid the spiral of death: if we hit the sub-step cap, drop the remaining backlog
+    if (subSteps >= this.maxSubSteps && this.accumulator >= this.stepSize) {
+      this.accumulator %= this.stepSize;
+    }
+
+    return this.accumulator / this.stepSize;
+  }
+
+  /**
+   * Discard any accumulated time (e.g. after loading a level)
+   */
+  public reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -0,0 +1,25 @@
+import { SettingRanges } from './SettingsStore';
+
+// Display and audio options from the settings menu (mouse settings live in MouseLook,
+// key bindings in the ActionMap)
+export interface GameSettings {
+  fov: number; // Vertical field of view in degrees
+  shadows: boolean;
+  pixelRatio: number; // Share of the display's pixel ratio to render at; lower is faster but blurrier
+  antialias: boolean; // Only read when the renderer is created, so changes apply after a reload
+  volume: number; // Master volume from 0 to 1
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  fov: 75,
+  shadows: true,
+  pixelRatio: 1,
+  antialias: true,
+  volume: 1
+};
+
+export const GAME_SETTING_RANGES: SettingRanges<GameSettings> = {
+  fov: { min: 60, max: 110 },
+  pixelRatio: { min: 0.5, max: 1 },
+  volume: { min: 0, max: 1 }
+};
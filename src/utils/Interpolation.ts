@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+
+/**
+ * Keeps the previous and current physics transforms of a rigid body so the
+ * rendered object can be interpolated between fixed simulation steps
+ */
+export class BodyInterpolator {
+  readonly previousPosition = new THREE.Vector3();
+  readonly currentPosition = new THREE.Vector3();
+  readonly previousRotation = new THREE.Quaternion();
+  readonly currentRotation = new THREE.Quaternion();
+  private rigidBody: RAPIER.RigidBody;
+
+  constructor(rigidBody: RAPIER.RigidBody) {
+    this.rigidBody = rigidBody;
+    this.reset();
+  }
+
+  /**
+   * Record the body's transform after a physics step, keeping the last one as previous state
+   */
+  public capture(): void {
+    this.previousPosition.copy(this.currentPosition);
+    this.previousRotation.copy(this.currentRotation);
+
+    const position = this.rigidBody.translation();
+    const rotation = this.rigidBody.rotation();
+    this.currentPosition.set(position.x, position.y, position.z);
+    this.currentRotation.set(rotation.x, rotation.y, rotation.z, rotation.w);
+  }
+
+  /**
+   * Snap both states to the body's current transform (e.g. after teleporting it)
+   */
+  public reset(): void {
+    this.capture();
+    this.previousPosition.copy(this.currentPosition);
+    this.previousRotation.copy(this.currentRotation);
+  }
+
+  /**
+   * Write the interpolated transform into a Three.js object
+   * @param object Object to update
+   * @param alpha Interpolation factor between previous (0) and current (1) state
+   * @param includeRotation Whether to interpolate rotation as well as position
+   */
+  public apply(object: THREE.Object3D, alpha: number, includeRotation: boolean = true): void {
+    object.position.lerpVectors(this.previousPosition, this.currentPosition, alpha);
+
+    if (includeRotation) {
+      object.quaternion.slerpQuaternions(this.previousRotation, this.currentRotation, alpha);
+    }
+  }
+}
@@ -1,13 +1,32 @@
 import * as THREE from 'three';
 
+export interface LightingOptions {
+  ambient?: { color?: number; intensity?: number };
+  directional?: {
+    color?: number;
+    intensity?: number;
+    position?: { x: number; y: number; z: number };
+  };
+}
+
 // Setup scene lighting - simplified version
-export function setupLights(scene: THREE.Scene) {
+// Returns the created lights so they can be removed again
+export function setupLights(scene: THREE.Scene, options: LightingOptions = {}) {
   // Add a very strong ambient light for overall scene brightness
-  const ambientLight = new THREE.AmbientLight(0xFFFFFF, 1.0);
+  const ambientLight = new THREE.AmbientLight(
+    options.ambient?.color ?? 0xFFFFFF,
+    options.ambient?.intensity ?? 1.0
+  );
   scene.add(ambientLight);
   
   // Simple directional light for shadows
-  const dirLight = new THREE.DirectionalLight(0xFFFFFF, 1.0);
-  dirLight.position.set(5, 10, 7.5);
+  const dirLight = new THREE.DirectionalLight(
+    options.directional?.color ?? 0xFFFFFF,
+    options.directional?.intensity ?? 1.0
+  );
+  const lightPosition = options.directional?.position ?? { x: 5, y: 10, z: 7.5 };
+  dirLight.position.set(lightPosition.x, lightPosition.y, lightPosition.z);
   scene.add(dirLight);
-} 
\ No newline at end of file
+  
+  return [ambientLight, dirLight];
+}
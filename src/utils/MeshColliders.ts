@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+
+/**
+ * Read the vertex positions of a geometry, transformed by a matrix
+ * @param geometry Geometry to read
+ * @param matrix Transform applied to each vertex (e.g. from mesh space to body space)
+ */
+export function getTransformedVertices(geometry: THREE.BufferGeometry, matrix: THREE.Matrix4): Float32Array {
+  const positions = geometry.getAttribute('position');
+  const vertices = new Float32Array(positions.count * 3);
+  const vertex = new THREE.Vector3();
+  
+  for (let i = 0; i < positions.count; i++) {
+    vertex.fromBufferAttribute(positions, i).applyMatrix4(matrix);
+    vertices[i * 3] = vertex.x;
+    vertices[i * 3 + 1] = vertex.y;
+    vertices[i * 3 + 2] = vertex.z;
+  }
+  
+  return vertices;
+}
+
+/**
+ * Create a convex hull collider around a set of points
+ * Falls back to a box around the points when the hull is degenerate (e.g. a flat plane)
+ * @param vertices Flat array of xyz positions in body space
+ * @param minHalfExtent Minimum half size of the fallback box on each axis
+ */
+export function createConvexHullDesc(vertices: Float32Array, minHalfExtent: number = 0.01): RAPIER.ColliderDesc {
+  const hull = vertices.length >= 12 ? RAPIER.ColliderDesc.convexHull(vertices) : null;
+  if (hull) return hull;
+  
+  const box = new THREE.Box3().setFromArray(vertices);
+  const center = new THREE.Vector3();
+  const size = new THREE.Vector3();
+  box.getCenter(center);
+  box.getSize(size);
+  
+  return RAPIER.ColliderDesc.cuboid(
+    Math.max(size.x / 2, minHalfExtent),
+    Math.max(size.y / 2, minHalfExtent),
+    Math.max(size.z / 2, minHalfExtent)
+  ).setTranslation(center.x, center.y, center.z);
+}
+
+/**
+ * Get the triangle indices of a geometry (sequential for non-indexed geometry)
+ */
+export function getTriangleIndices(geometry: THREE.BufferGeometry): Uint32Array {
+  if (geometry.index) {
+    return new Uint32Array(geometry.index.array);
+  }
+  
+  const count = geometry.getAttribute('position').count;
+  const indices = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    indices[i] = i;
+  }
+  return indices;
+}
+
+/**
+ * Create an exact triangle mesh collider (best suited to static geometry)
+ * @param geometry Geometry to convert
+ * @param matrix Transform from mesh space to body space
+ */
+export function createTrimeshDesc(geometry: THREE.BufferGeometry, matrix: THREE.Matrix4): RAPIER.ColliderDesc {
+  return RAPIER.ColliderDesc.trimesh(getTransformedVertices(geometry, matrix), getTriangleIndices(geometry));
+}
+
+/**
+ * Approximate a concave mesh with several convex hulls for use on dynamic bodies.
+ * Triangles are grouped into a grid of cells over the mesh bounds and each
+ * non-empty cell becomes one convex hull.
+ * @param geometry Geometry to convert
+ * @param matrix Transform from mesh space to body space
+ * @param resolution Number of grid cells along each axis
+ */
+export function createConvexDecompositionDescs(
+  geometry: THREE.BufferGeometry,
+  matrix: THREE.Matrix4,
+  resolution: number = 3
+): RAPIER.ColliderDesc[] {
+  const vertices = getTransformedVertices(geometry, matrix);
+  const indices = getTriangleIndices(geometry);
+  const bounds = new THREE.Box3().setFromArray(vertices);
+  const size = new THREE.Vector3();
+  bounds.getSize(size);
+  
+  // Assign each triangle to the cell containing its centroid
+  const cells = new Map<number, number[]>();
+  const centroid = new THREE.Vector3();
+  for (let t = 0; t < indices.length; t += 3) {
+    centroid.set(0, 0, 0);
+    for (let k = 0; k < 3; k++) {
+      const i = indices[t + k] * 3;
+      centroid.x += vertices[i] / 3;
+      centroid.y += vertices[i + 1] / 3;
+      centroid.z += vertices[i + 2] / 3;
+    }
+    
+    const cellX = cellIndex(centroid.x, bounds.min.x, size.x, resolution);
+    const cellY = cellIndex(centroid.y, bounds.min.y, size.y, resolution);
+    const cellZ = cellIndex(centroid.z, bounds.min.z, size.z, resolution);
+    const key = (cellX * resolution + cellY) * resolution + cellZ;
+    
+    if (!cells.has(key)) {
+      cells.set(key, []);
+    }
+    const cell = cells.get(key)!;
+    for (let k = 0; k < 3; k++) {
+      const i = indices[t + k] * 3;
+      cell.push(vertices[i], vertices[i + 1], vertices[i + 2]);
+    }
+  }
+  
+  const descs: RAPIER.ColliderDesc[] = [];
+  cells.forEach(points => {
+    descs.push(createConvexHullDesc(new Float32Array(points)));
+  });
+  return descs;
+}
+
+function cellIndex(value: number, min: number, size: number, resolution: number): number {
+  if (size <= 0) return 0;
+  return Math.min(resolution - 1, Math.floor(((value - min) / size) * resolution));
+}
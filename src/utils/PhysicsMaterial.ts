@@ -0,0 +1,37 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+
+// Surface and mass properties of a collider (unset values keep the caller's defaults)
+export interface PhysicsMaterial {
+  friction?: number;
+  restitution?: number;
+  density?: number;
+}
+
+export type BodyType = 'dynamic' | 'fixed' | 'kinematic';
+
+/**
+ * Create a rigid body description for a body type
+ * @param bodyType How the body is simulated
+ */
+export function createBodyDesc(bodyType: BodyType): RAPIER.RigidBodyDesc {
+  switch (bodyType) {
+    case 'fixed':
+      return RAPIER.RigidBodyDesc.fixed();
+    case 'kinematic':
+      return RAPIER.RigidBodyDesc.kinematicPositionBased();
+    default:
+      return RAPIER.RigidBodyDesc.dynamic();
+  }
+}
+
+/**
+ * Apply the values set in a physics material to a collider description
+ * @param desc Collider description to modify
+ * @param material Material values to apply
+ */
+export function applyPhysicsMaterial(desc: RAPIER.ColliderDesc, material: PhysicsMaterial): RAPIER.ColliderDesc {
+  if (material.friction !== undefined) desc.setFriction(material.friction);
+  if (material.restitution !== undefined) desc.setRestitution(material.restitution);
+  if (material.density !== undefined) desc.setDensity(material.density);
+  return desc;
+}
@@ -0,0 +1,54 @@
+/**
+ * Small seeded pseudo-random number generator (mulberry32) so that simulation
+ * randomness can be reproduced, e.g. when replaying a recorded session
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number = Date.now()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Restart the sequence from a seed
+   */
+  public setSeed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Get the internal state, which fully determines the rest of the sequence
+   */
+  public getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Continue the sequence from a state returned by getState
+   */
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1), a drop-in replacement for Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next number in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+}
+
+// Shared generator for everything that affects the simulation
+// (purely cosmetic effects may keep using Math.random)
+export const random = new SeededRandom();
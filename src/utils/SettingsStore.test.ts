@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SettingRanges, SettingsStore } from './SettingsStore';
+import { DEFAULT_GAME_SETTINGS, GAME_SETTING_RANGES } from './GameSettings';
+import { createStorage } from '../test/storage';
+
+interface TestSettings {
+  speed: number;
+  enabled: boolean;
+  name: string;
+}
+
+const DEFAULTS: TestSettings = { speed: 1, enabled: true, name: 'default' };
+const RANGES: SettingRanges<TestSettings> = { speed: { min: 0, max: 10 } };
+
+describe('SettingsStore', () => {
+  it('starts from the defaults without saved settings or storage', () => {
+    expect(new SettingsStore('test', DEFAULTS, RANGES, createStorage()).settings).toEqual(DEFAULTS);
+    expect(new SettingsStore('test', DEFAULTS, RANGES, null).settings).toEqual(DEFAULTS);
+  });
+
+  it('loads saved settings over the defaults', () => {
+    const storage = createStorage();
+    storage.setItem('test', JSON.stringify({ speed: 5, name: 'saved' }));
+
+    const store = new SettingsStore('test', DEFAULTS, RANGES, storage);
+    expect(store.settings).toEqual({ speed: 5, enabled: true, name: 'saved' });
+  });
+
+  it('keeps the default for unknown settings and values of the wrong type', () => {
+    const storage = createStorage();
+    storage.setItem('test', '{ "speed": 1e999, "enabled": "yes", "name": "saved", "unknown": 1 }');
+
+    const store = new SettingsStore('test', DEFAULTS, RANGES, storage);
+    expect(store.settings).toEqual({ ...DEFAULTS, name: 'saved' });
+  });
+
+  it('ignores saved settings that are not JSON', () => {
+    const storage = createStorage();
+    storage.setItem('test', 'not json');
+
+    expect(new SettingsStore('test', DEFAULTS, RANGES, storage).settings).toEqual(DEFAULTS);
+  });
+
+  it('clamps saved and changed numbers to their range', () => {
+    const storage = createStorage();
+    storage.setItem('test', JSON.stringify({ speed: 50 }));
+    const store = new SettingsStore('test', DEFAULTS, RANGES, storage);
+    expect(store.settings.speed).toBe(10);
+
+    store.update({ speed: -3 });
+    expect(store.settings.speed).toBe(0);
+    expect(JSON.parse(storage.items.get('test')!)).toEqual({ speed: 0 });
+
+    const game = new SettingsStore('game', DEFAULT_GAME_SETTINGS, GAME_SETTING_RANGES, null);
+    game.update({ fov: 170, volume: 2 });
+    expect(game.settings.fov).toBe(110);
+    expect(game.settings.volume).toBe(1);
+  });
+
+  it('saves only the settings that differ from the defaults', () => {
+    const storage = createStorage();
+    const store = new SettingsStore('test', DEFAULTS, RANGES, storage);
+
+    store.update({ speed: 2, enabled: true });
+    expect(JSON.parse(storage.items.get('test')!)).toEqual({ speed: 2 });
+
+    store.update({ speed: 1 });
+    expect(storage.items.has('test')).toBe(false);
+
+    store.update({ name: 'changed' });
+    store.reset();
+    expect(storage.items.has('test')).toBe(false);
+    expect(store.settings).toEqual(DEFAULTS);
+  });
+
+  it('notifies listeners of changes until they are removed', () => {
+    const store = new SettingsStore('test', DEFAULTS, RANGES, null);
+    const changes: TestSettings[] = [];
+    const remove = store.onChange(settings => changes.push(settings));
+
+    store.update({ speed: 20 });
+    remove();
+    store.update({ speed: 3 });
+
+    expect(changes).toEqual([{ ...DEFAULTS, speed: 10 }]);
+  });
+});
@@ -0,0 +1,125 @@
+// Minimal storage interface so settings can be persisted without a browser
+export type SettingsStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Allowed range of each numeric setting that has one
+export type SettingRanges<T> = { [K in keyof T]?: T[K] extends number ? { min: number; max: number } : never };
+
+/**
+ * A flat settings object persisted to storage under one key. Only values
+ * that differ from the defaults are stored, so changed defaults still reach
+ * users who never touched a setting. Numbers are clamped to their range,
+ * whether saved or changed
+ */
+export class SettingsStore<T extends object> {
+  private key: string;
+  private defaults: T;
+  private ranges: SettingRanges<T>;
+  private storage: SettingsStorage | null;
+  private values: T;
+  private listeners: ((settings: T) => void)[] = [];
+
+  /**
+   * @param key Storage key, e.g. rapiertest.mouse
+   * @param defaults Value of every setting; also used to check the types of saved values
+   * @param ranges Limits for numeric settings
+   */
+  constructor(
+    key: string,
+    defaults: T,
+    ranges: SettingRanges<T> = {},
+    storage: SettingsStorage | null = typeof localStorage !== 'undefined' ? localStorage : null
+  ) {
+    this.key = key;
+    this.defaults = defaults;
+    this.ranges = ranges;
+    this.storage = storage;
+    this.values = this.load();
+  }
+
+  /**
+   * Current settings; change them through update so they are saved
+   */
+  public get settings(): Readonly<T> {
+    return this.values;
+  }
+
+  /**
+   * Register a listener for settings changes; returns a function that removes it
+   */
+  public onChange(listener: (settings: T) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Change some settings and persist them
+   */
+  public update(changes: Partial<T>): void {
+    this.values = this.clamp({ ...this.values, ...changes });
+    this.save();
+    this.listeners.forEach(listener => listener(this.values));
+  }
+
+  /**
+   * Restore the defaults
+   */
+  public reset(): void {
+    this.update(this.defaults);
+  }
+
+  // Read the saved settings, keeping the default for anything missing or of the wrong type
+  // (1e999 parses as Infinity, so numbers must be finite too)
+  private load(): T {
+    const settings = { ...this.defaults };
+
+    const saved = this.storage?.getItem(this.key);
+    if (saved) {
+      try {
+        const data = JSON.parse(saved);
+        Object.entries(data).forEach(([name, value]) => {
+          if (!(name in this.defaults)) {
+            console.warn(`Ignoring unknown setting "${name}" in ${this.key}`);
+          } else if (
+            typeof value !== typeof this.defaults[name as keyof T] ||
+            (typeof value === 'number' && !Number.isFinite(value))
+          ) {
+            console.warn(`Ignoring invalid value for setting "${name}" in ${this.key}`);
+          } else {
+            Object.assign(settings, { [name]: value });
+          }
+        });
+      } catch (error) {
+        console.error(`Failed to load ${this.key}:`, error);
+      }
+    }
+
+    return this.clamp(settings);
+  }
+
+  private clamp(settings: T): T {
+    const clamped = { ...settings };
+    Object.entries(this.ranges).forEach(([name, range]) => {
+      const value = clamped[name as keyof T];
+      if (range && typeof value === 'number') {
+        const { min, max } = range as { min: number; max: number };
+        Object.assign(clamped, { [name]: Math.min(max, Math.max(min, value)) });
+      }
+    });
+    return clamped;
+  }
+
+  private save() {
+    if (!this.storage) return;
+
+    const changed = Object.fromEntries(
+      Object.entries(this.values).filter(([name, value]) => this.defaults[name as keyof T] !== value)
+    );
+    if (Object.keys(changed).length === 0) {
+      this.storage.removeItem(this.key);
+    } else {
+      this.storage.setItem(this.key, JSON.stringify(changed));
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Time that only advances with simulation steps, used instead of Date.now()
+ * for gameplay timers so they behave the same when a session is replayed
+ */
+export class SimulationClock {
+  // Simulation time in milliseconds
+  private time: number = 0;
+  // Number of steps taken
+  private tick: number = 0;
+
+  /**
+   * Current simulation time in milliseconds (constant between steps)
+   */
+  public now(): number {
+    return this.time;
+  }
+
+  /**
+   * Number of simulation steps taken so far
+   */
+  public getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Advance the clock by one simulation step
+   * @param stepSize Step length in seconds
+   */
+  public advance(stepSize: number): void {
+    this.time += stepSize * 1000;
+    this.tick++;
+  }
+
+  /**
+   * Jump to a point in simulation time (e.g. when restoring a snapshot)
+   */
+  public set(time: number, tick: number): void {
+    this.time = time;
+    this.tick = tick;
+  }
+}
+
+// Shared clock advanced once per fixed physics step
+export const simulationClock = new SimulationClock();
@@ -0,0 +1,572 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { FPSController, PlayerState } from '../controllers/FPSController';
+import { ProjectileManager, ProjectileState } from '../controllers/ProjectileManager';
+import { WeaponManager, WeaponManagerState } from '../controllers/WeaponManager';
+import { BodyHealthState, DamageManager } from '../controllers/DamageManager';
+import { random } from './Random';
+import { simulationClock } from './SimulationClock';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+
+const SNAPSHOT_VERSION = 9;
+const BINARY_MAGIC = 0x52505353; // "RPSS"
+
+/**
+ * Physics state of a single tracked rigid body
+ */
+export interface BodyState {
+  id: string; // Path of object names from the scene root (see getEntityIds)
+  handle: RAPIER.RigidBodyHandle; // Body handle at capture time (used by world snapshots)
+  bodyType: RAPIER.RigidBodyType;
+  translation: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number; w: number };
+  linvel: { x: number; y: number; z: number };
+  angvel: { x: number; y: number; z: number };
+  sleeping: boolean;
+}
+
+/**
+ * Whether a trigger still reports new arrivals (`once` triggers turn themselves off)
+ */
+export interface TriggerState {
+  id: string; // Path of object names from the scene root (see getEntityIds)
+  enabled: boolean;
+}
+
+/**
+ * Portable snapshot of the simulation that can be saved as JSON or binary
+ */
+export interface SceneSnapshot {
+  version: number;
+  time: number; // Simulation clock in ms
+  tick: number;
+  randomState: number; // State of the shared seeded random generator
+  bodies: BodyState[];
+  projectiles: ProjectileState[];
+  player: PlayerState;
+  weapons: WeaponManagerState;
+  healths: BodyHealthState[];
+  triggers: TriggerState[];
+}
+
+/**
+ * Snapshot that also contains the whole Rapier world (fast path). The body
+ * ids and handles bind the restored bodies back to their Three.js objects
+ */
+export interface WorldSnapshot extends SceneSnapshot {
+  world: Uint8Array;
+}
+
+/**
+ * Captures and restores the state of every entity's body in `physics.entities`,
+ * the projectiles in flight, the player and their weapons, the health of
+ * every body that has some and which triggers are enabled, along with the
+ * simulation clock and random generator
+ */
+export class SnapshotManager {
+  private physics: { world: RAPIER.World; entities: EntityRegistry };
+  private fpsController: FPSController;
+  private projectileManager: ProjectileManager;
+  private weaponManager: WeaponManager;
+  private damageManager: DamageManager;
+  private restoreListeners: (() => void)[] = [];
+
+  constructor(
+    physics: { world: RAPIER.World; entities: EntityRegistry },
+    fpsController: FPSController,
+    projectileManager: ProjectileManager,
+    weaponManager: WeaponManager,
+    damageManager: DamageManager
+  ) {
+    this.physics = physics;
+    this.fpsController = fpsController;
+    this.projectileManager = projectileManager;
+    this.weaponManager = weaponManager;
+    this.damageManager = damageManager;
+  }
+
+  /**
+   * Register a listener called after a snapshot was restored. Anything holding
+   * RigidBody or Collider references should look them up again here, since
+   * the fast path replaces the world. Returns a function that removes it
+   */
+  public onRestore(listener: () => void): () => void {
+    this.restoreListeners.push(listener);
+    return () => {
+      this.restoreListeners = this.restoreListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Capture the current simulation state
+   */
+  public capture(): SceneSnapshot {
+    const bodies: BodyState[] = [];
+    const triggers: TriggerState[] = [];
+    this.getEntityIds().forEach((entity, id) => {
+      const trigger = entity.components.trigger;
+      if (trigger) {
+        triggers.push({ id, enabled: trigger.enabled });
+      }
+
+      const body = entity.rigidBody;
+      const translation = body.translation();
+      const rotation = body.rotation();
+      const linvel = body.linvel();
+      const angvel = body.angvel();
+
+      bodies.push({
+        id,
+        handle: body.handle,
+        bodyType: body.bodyType(),
+        translation: { x: translation.x, y: translation.y, z: translation.z },
+        rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+        linvel: { x: linvel.x, y: linvel.y, z: linvel.z },
+        angvel: { x: angvel.x, y: angvel.y, z: angvel.z },
+        sleeping: body.isSleeping()
+      });
+    });
+
+    return {
+      version: SNAPSHOT_VERSION,
+      time: simulationClock.now(),
+      tick: simulationClock.getTick(),
+      randomState: random.getState(),
+      bodies,
+      projectiles: this.projectileManager.captureState(),
+      player: this.fpsController.getState(),
+      weapons: this.weaponManager.getState(),
+      healths: this.damageManager.getState(),
+      triggers
+    };
+  }
+
+  /**
+   * Restore a captured state into the current world. Bodies are matched by id;
+   * ids missing from the scene are skipped with a warning
+   */
+  public restore(snapshot: SceneSnapshot): void {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version}`);
+    }
+
+    const entities = this.getEntityIds();
+    snapshot.bodies.forEach(state => {
+      const entity = entities.get(state.id);
+      if (!entity) {
+        console.warn(`Snapshot body "${state.id}" does not exist in the scene`);
+        return;
+      }
+      applyBodyState(entity.rigidBody, state);
+    });
+
+    this.restoreSimulationState(snapshot);
+  }
+
+  /**
+   * Capture the whole world with Rapier's own serializer (contacts and solver
+   * state included), so stepping on from a restore matches stepping on from here.
+   * Only valid for the level it was taken in
+   */
+  public takeWorldSnapshot(): WorldSnapshot {
+    return {
+      ...this.capture(),
+      world: this.physics.world.takeSnapshot()
+    };
+  }
+
+  /**
+   * Replace the world with one restored from a world snapshot and rebind the
+   * entities to the restored bodies. Entities spawned since the snapshot was
+   * taken (e.g. by triggers) are despawned
+   */
+  public restoreWorldSnapshot(snapshot: WorldSnapshot): void {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version}`);
+    }
+
+    const handlesById = new Map(snapshot.bodies.map(body => [body.id, body.handle]));
+    const handles = new Map<Entity, RAPIER.RigidBodyHandle>();
+    this.getEntityIds().forEach((entity, id) => {
+      const handle = handlesById.get(id);
+      if (handle === undefined) {
+        this.physics.entities.despawn(this.physics.world, entity);
+      } else {
+        handles.set(entity, handle);
+      }
+    });
+
+    // Projectiles are recreated from their captured state below
+    this.projectileManager.cleanUp();
+
+    const timestep = this.physics.world.timestep;
+    const world = RAPIER.World.restoreSnapshot(snapshot.world);
+    world.timestep = timestep;
+
+    // Drop restored bodies nothing renders any more (e.g. projectiles in flight at capture time)
+    const keep = new Set<RAPIER.RigidBodyHandle>([this.fpsController.rigidBody.handle, ...handles.values()]);
+    const stale: RAPIER.RigidBody[] = [];
+    world.forEachRigidBody(body => {
+      if (!keep.has(body.handle)) stale.push(body);
+    });
+    stale.forEach(body => world.removeRigidBody(body));
+
+    this.physics.world.free();
+    this.physics.world = world;
+    handles.forEach((handle, entity) => {
+      this.physics.entities.rebind(entity, world.getRigidBody(handle));
+    });
+
+    this.fpsController.rebindPhysics();
+    this.restoreSimulationState(snapshot);
+  }
+
+  /**
+   * Hash the state and health of every body in the world, which triggers are enabled
+   * and the player's view, so that
+   * a replay can detect when it diverges from the recording
+   */
+  public checksum(): number {
+    const hash = new StateHash();
+    this.physics.world.forEachRigidBody(body => {
+      hash.add(body.handle);
+      hash.addVector(body.translation());
+      hash.addVector(body.rotation());
+      hash.addVector(body.linvel());
+      hash.addVector(body.angvel());
+    });
+    this.damageManager.getState().forEach(({ handle, health }) => {
+      hash.add(handle);
+      hash.add(health.current);
+    });
+    this.physics.entities.getAll().forEach(entity => {
+      const trigger = entity.components.trigger;
+      if (trigger) {
+        hash.add(entity.rigidBody.handle);
+        hash.add(trigger.enabled ? 1 : 0);
+      }
+    });
+    hash.add(this.fpsController.yawObject.rotation.y);
+    hash.add(this.fpsController.pitchObject.rotation.x);
+    return hash.value();
+  }
+
+  // Restore everything besides the world's bodies
+  private restoreSimulationState(snapshot: SceneSnapshot | WorldSnapshot) {
+    simulationClock.set(snapshot.time, snapshot.tick);
+    random.setState(snapshot.randomState);
+    this.fpsController.setState(snapshot.player);
+    this.weaponManager.setState(snapshot.weapons);
+    this.damageManager.setState(snapshot.healths);
+    this.projectileManager.restoreState(snapshot.projectiles);
+    this.restoreTriggers(snapshot.triggers);
+    this.physics.entities.snapToBodies();
+    this.restoreListeners.forEach(listener => listener());
+  }
+
+  // Triggers missing from the snapshot keep their current state
+  private restoreTriggers(triggers: TriggerState[]) {
+    const entities = this.getEntityIds();
+    triggers.forEach(({ id, enabled }) => {
+      const trigger = entities.get(id)?.components.trigger;
+      if (trigger) {
+        trigger.enabled = enabled;
+      }
+    });
+  }
+
+  // Give each entity an id that is stable across sessions: the path of object names from
+  // the scene root, with a counter for duplicates in creation order. Projectiles are
+  // saved through the projectile manager instead
+  private getEntityIds(): Map<string, Entity> {
+    const ids = new Map<string, Entity>();
+    const counts = new Map<string, number>();
+
+    this.physics.entities.getAll().forEach(entity => {
+      if (entity.components.projectile) return;
+
+      const names: string[] = [];
+      for (let node: THREE.Object3D | null = entity.object; node && node.parent; node = node.parent) {
+        names.unshift(node.name || node.type);
+      }
+
+      const path = names.join('/');
+      const count = counts.get(path) ?? 0;
+      counts.set(path, count + 1);
+      ids.set(count === 0 ? path : `${path}#${count}`, entity);
+    });
+
+    return ids;
+  }
+}
+
+function applyBodyState(body: RAPIER.RigidBody, state: BodyState) {
+  if (body.bodyType() !== state.bodyType) {
+    body.setBodyType(state.bodyType, false);
+  }
+
+  body.setTranslation(state.translation, false);
+  body.setRotation(state.rotation, false);
+  if (body.isKinematic()) {
+    body.setNextKinematicTranslation(state.translation);
+    body.setNextKinematicRotation(state.rotation);
+  }
+  body.setLinvel(state.linvel, false);
+  body.setAngvel(state.angvel, false);
+
+  if (state.sleeping) {
+    body.sleep();
+  } else {
+    body.wakeUp();
+  }
+}
+
+/**
+ * Serialize a snapshot to JSON
+ */
+export function serializeSnapshot(snapshot: SceneSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Parse a snapshot serialized with serializeSnapshot
+ */
+export function deserializeSnapshot(json: string): SceneSnapshot {
+  const snapshot = JSON.parse(json) as SceneSnapshot;
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${snapshot.version}`);
+  }
+  return snapshot;
+}
+
+/**
+ * Encode a snapshot in a compact binary form. Numbers are stored as 64-bit
+ * floats so a round trip is exact
+ */
+export function encodeSnapshot(snapshot: SceneSnapshot): Uint8Array {
+  const writer = new BinaryWriter();
+  writer.u32(BINARY_MAGIC);
+  writer.u32(snapshot.version);
+  writer.f64(snapshot.time);
+  writer.u32(snapshot.tick);
+  writer.u32(snapshot.randomState);
+
+  writer.u32(snapshot.bodies.length);
+  snapshot.bodies.forEach(body => {
+    writer.string(body.id);
+    writer.f64(body.handle);
+    writer.u8(body.bodyType);
+    writer.vec3(body.translation);
+    writer.quat(body.rotation);
+    writer.vec3(body.linvel);
+    writer.vec3(body.angvel);
+    writer.u8(body.sleeping ? 1 : 0);
+  });
+
+  writer.u32(snapshot.projectiles.length);
+  snapshot.projectiles.forEach(projectile => {
+    writer.string(JSON.stringify(projectile.options));
+    writer.vec3(projectile.translation);
+    writer.quat(projectile.rotation);
+    writer.vec3(projectile.linvel);
+    writer.vec3(projectile.angvel);
+    writer.f64(projectile.age);
+    writer.u32(projectile.bounces);
+    writer.u32(projectile.piercesRemaining);
+    writer.u32(projectile.piercedColliders.length);
+    projectile.piercedColliders.forEach(handle => writer.f64(handle));
+    writer.u8(projectile.sensor ? 1 : 0);
+    writer.u8(projectile.impacted ? 1 : 0);
+  });
+
+  // Player, weapon, health and trigger state are small, so they are stored as JSON (numbers round-trip exactly)
+  writer.string(JSON.stringify(snapshot.player));
+  writer.string(JSON.stringify(snapshot.weapons));
+  writer.string(JSON.stringify(snapshot.healths));
+  writer.string(JSON.stringify(snapshot.triggers));
+
+  return writer.finish();
+}
+
+/**
+ * Decode a snapshot encoded with encodeSnapshot
+ */
+export function decodeSnapshot(bytes: Uint8Array): SceneSnapshot {
+  const reader = new BinaryReader(bytes);
+  if (reader.u32() !== BINARY_MAGIC) {
+    throw new Error('Not a binary snapshot');
+  }
+  const version = reader.u32();
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version}`);
+  }
+  const time = reader.f64();
+  const tick = reader.u32();
+  const randomState = reader.u32();
+
+  const bodies: BodyState[] = [];
+  const bodyCount = reader.u32();
+  for (let i = 0; i < bodyCount; i++) {
+    bodies.push({
+      id: reader.string(),
+      handle: reader.f64(),
+      bodyType: reader.u8(),
+      translation: reader.vec3(),
+      rotation: reader.quat(),
+      linvel: reader.vec3(),
+      angvel: reader.vec3(),
+      sleeping: reader.u8() === 1
+    });
+  }
+
+  const projectiles: ProjectileState[] = [];
+  const projectileCount = reader.u32();
+  for (let i = 0; i < projectileCount; i++) {
+    projectiles.push({
+      options: JSON.parse(reader.string()),
+      translation: reader.vec3(),
+      rotation: reader.quat(),
+      linvel: reader.vec3(),
+      angvel: reader.vec3(),
+      age: reader.f64(),
+      bounces: reader.u32(),
+      piercesRemaining: reader.u32(),
+      piercedColliders: Array.from({ length: reader.u32() }, () => reader.f64()),
+      sensor: reader.u8() === 1,
+      impacted: reader.u8() === 1
+    });
+  }
+
+  const player: PlayerState = JSON.parse(reader.string());
+  const weapons: WeaponManagerState = JSON.parse(reader.string());
+  const healths: BodyHealthState[] = JSON.parse(reader.string());
+  const triggers: TriggerState[] = JSON.parse(reader.string());
+
+  return { version, time, tick, randomState, bodies, projectiles, player, weapons, healths, triggers };
+}
+
+// FNV-1a hash over the exact bits of 64-bit floats
+class StateHash {
+  private hash = 0x811c9dc5;
+  private bytes = new Uint8Array(8);
+  private view = new DataView(this.bytes.buffer);
+
+  add(value: number) {
+    this.view.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) {
+      this.hash = Math.imul(this.hash ^ this.bytes[i], 0x01000193);
+    }
+  }
+
+  addVector(vector: { x: number; y: number; z: number; w?: number }) {
+    this.add(vector.x);
+    this.add(vector.y);
+    this.add(vector.z);
+    if (vector.w !== undefined) this.add(vector.w);
+  }
+
+  value(): number {
+    return this.hash >>> 0;
+  }
+}
+
+// Growable little-endian byte buffer
+class BinaryWriter {
+  private buffer = new ArrayBuffer(1024);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+
+  u8(value: number) {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u32(value: number) {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  vec3(value: { x: number; y: number; z: number }) {
+    this.f64(value.x);
+    this.f64(value.y);
+    this.f64(value.z);
+  }
+
+  quat(value: { x: number; y: number; z: number; w: number }) {
+    this.vec3(value);
+    this.f64(value.w);
+  }
+
+  string(value: string) {
+    const bytes = new TextEncoder().encode(value);
+    this.u32(bytes.length);
+    this.reserve(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.buffer.slice(0, this.offset));
+  }
+
+  private reserve(size: number) {
+    if (this.offset + size <= this.buffer.byteLength) return;
+
+    const grown = new ArrayBuffer(Math.max(this.buffer.byteLength * 2, this.offset + size));
+    new Uint8Array(grown).set(new Uint8Array(this.buffer));
+    this.buffer = grown;
+    this.view = new DataView(grown);
+  }
+}
+
+class BinaryReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  vec3(): { x: number; y: number; z: number } {
+    return { x: this.f64(), y: this.f64(), z: this.f64() };
+  }
+
+  quat(): { x: number; y: number; z: number; w: number } {
+    return { x: this.f64(), y: this.f64(), z: this.f64(), w: this.f64() };
+  }
+
+  string(): string {
+    const length = this.u32();
+    const value = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
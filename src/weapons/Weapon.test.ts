@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { FireMode, Weapon, WeaponDefinition } from './Weapon';
+
+// 10 ms steps keep the timers in whole milliseconds
+const STEP = 0.01;
+
+function createWeapon(overrides: Partial<WeaponDefinition>): Weapon {
+  return new Weapon({
+    name: 'Test',
+    fireMode: FireMode.SEMI,
+    fireRate: 600,
+    magazineSize: 30,
+    reserveAmmo: 90,
+    reloadTime: 500,
+    spread: 0,
+    recoil: { pitch: 0, yaw: 0 },
+    ...overrides
+  });
+}
+
+/**
+ * Step the weapon and return the times (ms) of the shots it fired
+ * @param trigger Whether the trigger is held at a given time (ms)
+ */
+function fire(weapon: Weapon, durationMs: number, trigger: (time: number) => boolean): number[] {
+  const shots: number[] = [];
+  let wasHeld = false;
+  for (let time = 0; time < durationMs; time += STEP * 1000) {
+    const held = trigger(time);
+    if (weapon.update(STEP, held, held && !wasHeld) > 0) {
+      shots.push(time);
+    }
+    wasHeld = held;
+  }
+  return shots;
+}
+
+// Taps the trigger every step: as fast as a semi-automatic weapon can possibly be fired
+const mash = (time: number) => time % 20 === 0;
+
+describe('Weapon', () => {
+  it('fires full-auto at its fire rate after being idle', () => {
+    const weapon = createWeapon({ fireMode: FireMode.FULL_AUTO });
+    fire(weapon, 1000, () => false);
+
+    expect(fire(weapon, 350, () => true)).toEqual([0, 100, 200, 300]);
+  });
+
+  it('fires semi-auto no faster than its fire rate after being idle', () => {
+    const weapon = createWeapon({ fireRate: 300 });
+    fire(weapon, 1000, () => false);
+
+    expect(fire(weapon, 450, mash)).toEqual([0, 200, 400]);
+  });
+
+  it('fires bursts at the burst interval and waits a shot interval between bursts', () => {
+    const weapon = createWeapon({ fireMode: FireMode.BURST, fireRate: 240, burstCount: 3, burstInterval: 70 });
+    fire(weapon, 1000, () => false);
+
+    // The next burst may start a shot interval (250 ms) after the last shot of the previous one
+    expect(fire(weapon, 500, mash)).toEqual([0, 70, 140, 400, 470]);
+  });
+
+  it('keeps the fire rate after a reload', () => {
+    const auto = createWeapon({ fireMode: FireMode.FULL_AUTO });
+    auto.ammoInMagazine = 1;
+    expect(auto.reload()).toBe(true);
+    fire(auto, 600, () => false);
+    expect(auto.isReloading).toBe(false);
+    expect(fire(auto, 250, () => true)).toEqual([0, 100, 200]);
+
+    const semi = createWeapon({ fireRate: 300 });
+    semi.ammoInMagazine = 0;
+    fire(semi, 10, () => true); // Dry fire starts the reload
+    expect(semi.isReloading).toBe(true);
+    fire(semi, 600, () => false);
+    expect(fire(semi, 450, mash)).toEqual([0, 200, 400]);
+
+    const burst = createWeapon({ fireMode: FireMode.BURST, fireRate: 240, burstCount: 3, burstInterval: 70 });
+    burst.ammoInMagazine = 0;
+    expect(burst.reload()).toBe(true);
+    fire(burst, 600, () => false);
+    expect(fire(burst, 500, mash)).toEqual([0, 70, 140, 400, 470]);
+  });
+
+  it('carries time past the end of the cooldown over to the next shot', () => {
+    // 90 ms between shots with 20 ms steps: shots land on 0, 100, 180, 280, 360...
+    const weapon = createWeapon({ fireMode: FireMode.FULL_AUTO, fireRate: 60000 / 90 });
+    const shots: number[] = [];
+    for (let time = 0; time < 1000; time += 20) {
+      if (weapon.update(0.02, true, false) > 0) shots.push(time);
+    }
+
+    expect(shots).toHaveLength(11);
+    expect(shots.slice(0, 5)).toEqual([0, 100, 180, 280, 360]);
+  });
+
+  it('stops firing when the magazine is empty and reloads from the reserve', () => {
+    const weapon = createWeapon({ fireMode: FireMode.FULL_AUTO, magazineSize: 3, reserveAmmo: 4 });
+
+    expect(fire(weapon, 400, () => true)).toEqual([0, 100, 200]);
+    expect(weapon.isReloading).toBe(true);
+
+    fire(weapon, 500, () => false);
+    expect(weapon.isReloading).toBe(false);
+    expect(weapon.ammoInMagazine).toBe(3);
+    expect(weapon.reserveAmmo).toBe(1);
+  });
+});
@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { ProjectileOptions } from '../objects/Projectile';
+import { HitscanOptions } from '../controllers/HitscanManager';
+import { random } from '../utils/Random';
+
+// How a weapon responds to the trigger
+export enum FireMode {
+  SEMI,      // One shot per trigger press
+  BURST,     // A fixed number of shots per trigger press
+  FULL_AUTO  // Keeps firing while the trigger is held
+}
+
+// Data describing a weapon; several weapons can be defined without code changes
+export interface WeaponDefinition {
+  name: string;
+  fireMode: FireMode;
+  fireRate: number; // Rounds per minute
+  burstCount?: number; // Shots per burst (BURST only)
+  burstInterval?: number; // ms between shots inside a burst (BURST only)
+  magazineSize: number;
+  reserveAmmo: number;
+  reloadTime: number; // ms
+  spread: number; // Half-angle of the random spread cone, in radians
+  pelletsPerShot?: number; // Projectiles per shot, e.g. for shotguns
+  recoil: {
+    pitch: number; // Upward camera kick per shot, in radians
+    yaw: number; // Maximum random sideways kick per shot, in radians
+  };
+  // Exactly one of these: physical projectiles or instant ray-cast hits
+  projectile?: ProjectileOptions;
+  hitscan?: HitscanOptions;
+}
+
+// Serializable runtime state of a weapon used by snapshots
+export interface WeaponState {
+  ammoInMagazine: number;
+  reserveAmmo: number;
+  isReloading: boolean;
+  reloadTimer: number;
+  cooldown: number;
+  burstShotsRemaining: number;
+  burstTimer: number;
+}
+
+// Runtime state of a single weapon: ammo, reloading and fire timing
+export class Weapon {
+  definition: WeaponDefinition;
+  ammoInMagazine: number;
+  reserveAmmo: number;
+  isReloading: boolean = false;
+  private reloadTimer: number = 0; // ms left until the reload completes
+  private cooldown: number = 0; // ms until the next shot may be fired
+  private burstShotsRemaining: number = 0;
+  private burstTimer: number = 0;
+
+  constructor(definition: WeaponDefinition) {
+    this.definition = definition;
+    this.ammoInMagazine = definition.magazineSize;
+    this.reserveAmmo = definition.reserveAmmo;
+  }
+
+  /**
+   * Advance timers and work out whether the weapon fires this step
+   * @param deltaTime Elapsed simulation time in seconds
+   * @param triggerHeld Whether the trigger is currently held
+   * @param triggerPressed Whether the trigger was pressed since the last update
+   * @returns Number of shots fired this step (0 or 1)
+   */
+  public update(deltaTime: number, triggerHeld: boolean, triggerPressed: boolean): number {
+    const deltaMs = deltaTime * 1000;
+    const shotInterval = 60000 / this.definition.fireRate;
+
+    // Carry over the part of this step past the end of the cooldown so fire rates are kept
+    // independent of the step size. Once ready, idle time must not bank towards the next shot.
+    this.cooldown = this.cooldown > 0 ? this.cooldown - deltaMs : 0;
+
+    if (this.isReloading) {
+      this.reloadTimer -= deltaMs;
+      if (this.reloadTimer <= 0) {
+        this.finishReload();
+      }
+      return 0;
+    }
+
+    // Continue an ongoing burst regardless of the trigger
+    if (this.burstShotsRemaining > 0) {
+      this.burstTimer -= deltaMs;
+      if (this.burstTimer > 0) return 0;
+
+      this.burstTimer += this.definition.burstInterval ?? 60;
+      this.burstShotsRemaining--;
+      if (this.burstShotsRemaining === 0) {
+        this.cooldown = shotInterval;
+      }
+      return this.consumeRound() ? 1 : 0;
+    }
+
+    const wantsToFire = this.definition.fireMode === FireMode.FULL_AUTO ? triggerHeld : triggerPressed;
+    if (!wantsToFire || this.cooldown > 0) return 0;
+
+    // Dry fire reloads automatically
+    if (this.ammoInMagazine === 0) {
+      this.reload();
+      return 0;
+    }
+
+    if (this.definition.fireMode === FireMode.BURST) {
+      // Fire the first round now, the rest follow at the burst interval
+      this.burstShotsRemaining = (this.definition.burstCount ?? 3) - 1;
+      this.burstTimer = this.definition.burstInterval ?? 60;
+      if (this.burstShotsRemaining === 0) {
+        this.cooldown = shotInterval;
+      }
+    } else {
+      this.cooldown += shotInterval;
+    }
+
+    return this.consumeRound() ? 1 : 0;
+  }
+
+  /**
+   * Start reloading if the magazine is not full and there is reserve ammo
+   */
+  public reload(): boolean {
+    if (this.isReloading) return false;
+    if (this.ammoInMagazine >= this.definition.magazineSize || this.reserveAmmo <= 0) return false;
+
+    this.isReloading = true;
+    this.reloadTimer = this.definition.reloadTime;
+    this.burstShotsRemaining = 0;
+    return true;
+  }
+
+  /**
+   * Abort a reload or burst in progress (e.g. when switching weapons)
+   */
+  public interrupt(): void {
+    this.isReloading = false;
+    this.reloadTimer = 0;
+    this.burstShotsRemaining = 0;
+  }
+
+  /**
+   * Capture ammo and timers
+   */
+  public getState(): WeaponState {
+    return {
+      ammoInMagazine: this.ammoInMagazine,
+      reserveAmmo: this.reserveAmmo,
+      isReloading: this.isReloading,
+      reloadTimer: this.reloadTimer,
+      cooldown: this.cooldown,
+      burstShotsRemaining: this.burstShotsRemaining,
+      burstTimer: this.burstTimer
+    };
+  }
+
+  /**
+   * Restore a state captured with getState
+   */
+  public setState(state: WeaponState): void {
+    this.ammoInMagazine = state.ammoInMagazine;
+    this.reserveAmmo = state.reserveAmmo;
+    this.isReloading = state.isReloading;
+    this.reloadTimer = state.reloadTimer;
+    this.cooldown = state.cooldown;
+    this.burstShotsRemaining = state.burstShotsRemaining;
+    this.burstTimer = state.burstTimer;
+  }
+
+  private finishReload(): void {
+    const needed = this.definition.magazineSize - this.ammoInMagazine;
+    const loaded = Math.min(needed, this.reserveAmmo);
+    this.ammoInMagazine += loaded;
+    this.reserveAmmo -= loaded;
+    this.isReloading = false;
+    this.reloadTimer = 0;
+  }
+
+  private consumeRound(): boolean {
+    if (this.ammoInMagazine <= 0) {
+      this.burstShotsRemaining = 0;
+      return false;
+    }
+    this.ammoInMagazine--;
+    return true;
+  }
+}
+
+// Randomly deviate a direction inside a cone with the given half-angle (radians)
+export function applySpread(direction: THREE.Vector3, spread: number): THREE.Vector3 {
+  if (spread <= 0) return direction;
+
+  // Build a basis perpendicular to the direction
+  const helper = Math.abs(direction.y) < 0.99 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+  const right = new THREE.Vector3().crossVectors(direction, helper).normalize();
+  const up = new THREE.Vector3().crossVectors(right, direction).normalize();
+
+  // Uniformly distributed over the cone's cross-section
+  const angle = spread * Math.sqrt(random.next());
+  const around = random.next() * Math.PI * 2;
+  const offset = Math.tan(angle);
+
+  return direction
+    .addScaledVector(right, Math.cos(around) * offset)
+    .addScaledVector(up, Math.sin(around) * offset)
+    .normalize();
+}
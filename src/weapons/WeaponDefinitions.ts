@@ -0,0 +1,142 @@
+import { FireMode, WeaponDefinition } from './Weapon';
+
+// Weapons available to the player, selectable with the number keys in this order
+export const WEAPON_DEFINITIONS: WeaponDefinition[] = [
+  {
+    name: 'Pistol',
+    fireMode: FireMode.SEMI,
+    fireRate: 300,
+    magazineSize: 12,
+    reserveAmmo: 96,
+    reloadTime: 1200,
+    spread: 0.005,
+    recoil: { pitch: 0.02, yaw: 0.005 },
+    projectile: {
+      speed: 40,
+      size: 0.1,
+      color: 0xff9900,
+      lifespan: 5000,
+      restitution: 0.6
+    }
+  },
+  {
+    name: 'Burst Rifle',
+    fireMode: FireMode.BURST,
+    fireRate: 240,
+    burstCount: 3,
+    burstInterval: 70,
+    magazineSize: 30,
+    reserveAmmo: 180,
+    reloadTime: 1800,
+    spread: 0.01,
+    recoil: { pitch: 0.012, yaw: 0.006 },
+    projectile: {
+      speed: 60,
+      size: 0.06,
+      color: 0x00ccff,
+      lifespan: 3000,
+      mass: 0.1,
+      restitution: 0.3
+    }
+  },
+  {
+    name: 'Rifle',
+    fireMode: FireMode.FULL_AUTO,
+    fireRate: 600,
+    magazineSize: 30,
+    reserveAmmo: 210,
+    reloadTime: 2000,
+    spread: 0.012,
+    recoil: { pitch: 0.01, yaw: 0.004 },
+    hitscan: {
+      range: 200,
+      impulse: 3,
+      tracerColor: 0xffffaa,
+      tracerDuration: 80
+    }
+  },
+  {
+    name: 'SMG',
+    fireMode: FireMode.FULL_AUTO,
+    fireRate: 750,
+    magazineSize: 40,
+    reserveAmmo: 240,
+    reloadTime: 1500,
+    spread: 0.03,
+    recoil: { pitch: 0.008, yaw: 0.008 },
+    projectile: {
+      speed: 45,
+      size: 0.05,
+      color: 0xffff00,
+      lifespan: 2000,
+      mass: 0.05,
+      restitution: 0.2
+    }
+  },
+  {
+    name: 'Shotgun',
+    fireMode: FireMode.SEMI,
+    fireRate: 70,
+    magazineSize: 6,
+    reserveAmmo: 36,
+    reloadTime: 2500,
+    spread: 0.08,
+    pelletsPerShot: 8,
+    recoil: { pitch: 0.06, yaw: 0.02 },
+    projectile: {
+      speed: 35,
+      size: 0.05,
+      color: 0xff3300,
+      lifespan: 1500,
+      mass: 0.05,
+      restitution: 0.3
+    }
+  },
+  {
+    name: 'Grenade Launcher',
+    fireMode: FireMode.SEMI,
+    fireRate: 60,
+    magazineSize: 6,
+    reserveAmmo: 24,
+    reloadTime: 3000,
+    spread: 0,
+    recoil: { pitch: 0.05, yaw: 0.01 },
+    projectile: {
+      speed: 18,
+      size: 0.15,
+      color: 0x556b2f,
+      lifespan: 6000,
+      mass: 0.5,
+      restitution: 0.4,
+      explosive: {
+        radius: 5,
+        force: 15,
+        fuseTime: 2000
+      }
+    }
+  },
+  {
+    name: 'Rocket Launcher',
+    fireMode: FireMode.SEMI,
+    fireRate: 50,
+    magazineSize: 1,
+    reserveAmmo: 12,
+    reloadTime: 2200,
+    spread: 0,
+    recoil: { pitch: 0.07, yaw: 0.01 },
+    projectile: {
+      speed: 35,
+      size: 0.12,
+      color: 0xff2200,
+      lifespan: 5000,
+      mass: 0.5,
+      restitution: 0.1,
+      explosive: {
+        radius: 6,
+        force: 20,
+        detonateOnImpact: true,
+        color: 0xff5500
+      }
+    }
+  }
+];
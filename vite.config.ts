@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import wasm from "vite-plugin-wasm";
 import topLevelAwait from "vite-plugin-top-level-await";
@@ -12,5 +13,13 @@ export default defineConfig({
   },
   server: {
     host: true
+  },
+  test: {
+    environment: 'node',
+    setupFiles: ['src/test/setup.ts'],
+    alias: {
+      // Node would pick Rapier's CommonJS entry, which fails to load in an ES module package
+      '@dimforge/rapier3d-compat': '@dimforge/rapier3d-compat/rapier.es.js'
+    }
   }
-}); 
\ No newline at end of file
+});